@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "NetWorthSnapshot" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "totalAssets" DECIMAL(20,2) NOT NULL,
+    "totalLiabilities" DECIMAL(20,2) NOT NULL,
+    "netWorth" DECIMAL(20,2) NOT NULL,
+    "byCountry" JSONB NOT NULL,
+    "byType" JSONB NOT NULL,
+    "userId" TEXT,
+    "familyId" TEXT,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NetWorthSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NetWorthSnapshot_userId_date_currency_key" ON "NetWorthSnapshot"("userId", "date", "currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NetWorthSnapshot_familyId_date_currency_key" ON "NetWorthSnapshot"("familyId", "date", "currency");
+
+-- CreateIndex
+CREATE INDEX "NetWorthSnapshot_userId_date_idx" ON "NetWorthSnapshot"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "NetWorthSnapshot_familyId_date_idx" ON "NetWorthSnapshot"("familyId", "date");
+
+-- CreateIndex
+CREATE INDEX "NetWorthSnapshot_organizationId_idx" ON "NetWorthSnapshot"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "NetWorthSnapshot" ADD CONSTRAINT "NetWorthSnapshot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NetWorthSnapshot" ADD CONSTRAINT "NetWorthSnapshot_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NetWorthSnapshot" ADD CONSTRAINT "NetWorthSnapshot_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
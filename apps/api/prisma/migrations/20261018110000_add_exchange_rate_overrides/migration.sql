@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ExchangeRateOverride" (
+    "id" TEXT NOT NULL,
+    "base" TEXT NOT NULL,
+    "quote" TEXT NOT NULL,
+    "rate" DECIMAL(24,10) NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3),
+    "note" TEXT,
+    "organizationId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRateOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRateOverride_organizationId_base_quote_idx" ON "ExchangeRateOverride"("organizationId", "base", "quote");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRateOverride" ADD CONSTRAINT "ExchangeRateOverride_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "transferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Transfer" (
+    "id" TEXT NOT NULL,
+    "fromAssetId" TEXT NOT NULL,
+    "toAssetId" TEXT NOT NULL,
+    "sentAmount" DECIMAL(20,2) NOT NULL,
+    "sentCurrency" TEXT NOT NULL,
+    "receivedAmount" DECIMAL(20,2) NOT NULL,
+    "receivedCurrency" TEXT NOT NULL,
+    "fee" DECIMAL(20,2),
+    "date" TIMESTAMP(3) NOT NULL,
+    "description" TEXT,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_transferId_idx" ON "Transaction"("transferId");
+
+-- CreateIndex
+CREATE INDEX "Transfer_organizationId_date_idx" ON "Transfer"("organizationId", "date");
+
+-- CreateIndex
+CREATE INDEX "Transfer_fromAssetId_idx" ON "Transfer"("fromAssetId");
+
+-- CreateIndex
+CREATE INDEX "Transfer_toAssetId_idx" ON "Transfer"("toAssetId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "Transfer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transfer" ADD CONSTRAINT "Transfer_fromAssetId_fkey" FOREIGN KEY ("fromAssetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transfer" ADD CONSTRAINT "Transfer_toAssetId_fkey" FOREIGN KEY ("toAssetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transfer" ADD CONSTRAINT "Transfer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transfer" ADD CONSTRAINT "Transfer_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
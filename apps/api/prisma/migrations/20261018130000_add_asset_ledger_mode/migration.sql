@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Asset" ADD COLUMN     "ledgerMode" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "openingBalance" DECIMAL(20,2),
+ADD COLUMN     "openingBalanceDate" TIMESTAMP(3),
+ADD COLUMN     "reportedBalance" DECIMAL(20,2),
+ADD COLUMN     "reportedBalanceAt" TIMESTAMP(3);
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationStatus" AS ENUM ('IN_PROGRESS', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "reconciliationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Reconciliation" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "openingBalance" DECIMAL(20,2) NOT NULL,
+    "closingBalance" DECIMAL(20,2) NOT NULL,
+    "status" "ReconciliationStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "completedAt" TIMESTAMP(3),
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Reconciliation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_reconciliationId_idx" ON "Transaction"("reconciliationId");
+
+-- CreateIndex
+CREATE INDEX "Reconciliation_assetId_periodEnd_idx" ON "Reconciliation"("assetId", "periodEnd");
+
+-- CreateIndex
+CREATE INDEX "Reconciliation_organizationId_idx" ON "Reconciliation"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_reconciliationId_fkey" FOREIGN KEY ("reconciliationId") REFERENCES "Reconciliation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reconciliation" ADD CONSTRAINT "Reconciliation_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reconciliation" ADD CONSTRAINT "Reconciliation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reconciliation" ADD CONSTRAINT "Reconciliation_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY');
+
+-- CreateEnum
+CREATE TYPE "OccurrenceStatus" AS ENUM ('SCHEDULED', 'SKIPPED', 'POSTED');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "recurringTransactionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecurringTransaction" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "TransactionType" NOT NULL,
+    "category" TEXT NOT NULL,
+    "amount" DECIMAL(20,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "description" TEXT,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "dayOfMonth" INTEGER,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "nextOccurrence" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "assetId" TEXT NOT NULL,
+    "toAssetId" TEXT,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringOccurrence" (
+    "id" TEXT NOT NULL,
+    "recurringTransactionId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "status" "OccurrenceStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "amount" DECIMAL(20,2),
+    "category" TEXT,
+    "description" TEXT,
+    "transactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringOccurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_recurringTransactionId_idx" ON "Transaction"("recurringTransactionId");
+
+-- CreateIndex
+CREATE INDEX "RecurringTransaction_isActive_nextOccurrence_idx" ON "RecurringTransaction"("isActive", "nextOccurrence");
+
+-- CreateIndex
+CREATE INDEX "RecurringTransaction_organizationId_idx" ON "RecurringTransaction"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "RecurringTransaction_assetId_idx" ON "RecurringTransaction"("assetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringOccurrence_recurringTransactionId_date_key" ON "RecurringOccurrence"("recurringTransactionId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_recurringTransactionId_fkey" FOREIGN KEY ("recurringTransactionId") REFERENCES "RecurringTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringOccurrence" ADD CONSTRAINT "RecurringOccurrence_recurringTransactionId_fkey" FOREIGN KEY ("recurringTransactionId") REFERENCES "RecurringTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
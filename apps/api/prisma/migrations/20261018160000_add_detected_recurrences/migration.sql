@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "DetectionStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "DetectedRecurrence" (
+    "id" TEXT NOT NULL,
+    "merchantKey" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "TransactionType" NOT NULL,
+    "category" TEXT NOT NULL,
+    "averageAmount" DECIMAL(20,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "occurrences" INTEGER NOT NULL,
+    "firstDate" TIMESTAMP(3) NOT NULL,
+    "lastDate" TIMESTAMP(3) NOT NULL,
+    "nextExpectedDate" TIMESTAMP(3) NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "status" "DetectionStatus" NOT NULL DEFAULT 'PENDING',
+    "assetId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DetectedRecurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DetectedRecurrence_assetId_type_merchantKey_key" ON "DetectedRecurrence"("assetId", "type", "merchantKey");
+
+-- CreateIndex
+CREATE INDEX "DetectedRecurrence_userId_status_idx" ON "DetectedRecurrence"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "DetectedRecurrence" ADD CONSTRAINT "DetectedRecurrence_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DetectedRecurrence" ADD CONSTRAINT "DetectedRecurrence_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DetectedRecurrence" ADD CONSTRAINT "DetectedRecurrence_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
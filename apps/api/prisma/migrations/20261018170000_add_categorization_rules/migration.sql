@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "counterparty" TEXT;
+
+-- CreateTable
+CREATE TABLE "CategorizationRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "descriptionContains" TEXT,
+    "descriptionRegex" TEXT,
+    "minAmount" DECIMAL(20,2),
+    "maxAmount" DECIMAL(20,2),
+    "transactionType" "TransactionType",
+    "assetId" TEXT,
+    "category" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "counterparty" TEXT,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategorizationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategorizationRule_userId_organizationId_priority_idx" ON "CategorizationRule"("userId", "organizationId", "priority");
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategorizationRule" ADD CONSTRAINT "CategorizationRule_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN "aiProvider" TEXT,
+ADD COLUMN "aiModel" TEXT;
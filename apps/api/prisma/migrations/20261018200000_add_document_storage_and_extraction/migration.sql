@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "DocumentType" ADD VALUE 'RECEIPT';
+
+-- CreateEnum
+CREATE TYPE "ExtractionStatus" AS ENUM ('NONE', 'PENDING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "storage" TEXT NOT NULL DEFAULT 'local',
+ADD COLUMN "storageKey" TEXT,
+ADD COLUMN "transactionId" TEXT,
+ADD COLUMN "extractionStatus" "ExtractionStatus" NOT NULL DEFAULT 'NONE',
+ADD COLUMN "extractedText" TEXT,
+ADD COLUMN "extraction" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Document_assetId_idx" ON "Document"("assetId");
+
+-- CreateIndex
+CREATE INDEX "Document_transactionId_idx" ON "Document"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "Document" ADD CONSTRAINT "Document_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Document" ADD CONSTRAINT "Document_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
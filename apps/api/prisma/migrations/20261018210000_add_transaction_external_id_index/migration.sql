@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Transaction_assetId_externalId_idx" ON "Transaction"("assetId", "externalId");
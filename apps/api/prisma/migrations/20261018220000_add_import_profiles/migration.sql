@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ImportProfile" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "bank" TEXT,
+    "fileType" TEXT NOT NULL DEFAULT 'csv',
+    "headers" TEXT[],
+    "columnMapping" JSONB NOT NULL,
+    "dateFormat" TEXT,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "skipRows" INTEGER NOT NULL DEFAULT 0,
+    "hasHeaderRow" BOOLEAN NOT NULL DEFAULT true,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ImportProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportProfile_organizationId_name_key" ON "ImportProfile"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "ImportProfile_organizationId_idx" ON "ImportProfile"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "ImportProfile" ADD CONSTRAINT "ImportProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportProfile" ADD CONSTRAINT "ImportProfile_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "DuplicateStatus" AS ENUM ('PENDING', 'MERGED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "DuplicateCandidate" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "originalId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "reasons" TEXT[],
+    "source" TEXT NOT NULL,
+    "status" "DuplicateStatus" NOT NULL DEFAULT 'PENDING',
+    "resolvedAt" TIMESTAMP(3),
+    "assetId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DuplicateCandidate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DuplicateCandidate_transactionId_originalId_key" ON "DuplicateCandidate"("transactionId", "originalId");
+
+-- CreateIndex
+CREATE INDEX "DuplicateCandidate_organizationId_status_idx" ON "DuplicateCandidate"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "DuplicateCandidate_originalId_idx" ON "DuplicateCandidate"("originalId");
+
+-- AddForeignKey
+ALTER TABLE "DuplicateCandidate" ADD CONSTRAINT "DuplicateCandidate_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuplicateCandidate" ADD CONSTRAINT "DuplicateCandidate_originalId_fkey" FOREIGN KEY ("originalId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuplicateCandidate" ADD CONSTRAINT "DuplicateCandidate_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuplicateCandidate" ADD CONSTRAINT "DuplicateCandidate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuplicateCandidate" ADD CONSTRAINT "DuplicateCandidate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
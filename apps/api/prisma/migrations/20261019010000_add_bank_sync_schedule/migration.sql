@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "BankConnection" ADD COLUMN "syncCursors" JSONB,
+ADD COLUMN "nextSyncAt" TIMESTAMP(3),
+ADD COLUMN "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastError" TEXT;
+
+-- CreateIndex
+CREATE INDEX "BankConnection_status_nextSyncAt_idx" ON "BankConnection"("status", "nextSyncAt");
@@ -22,6 +22,21 @@ import goalsRoutes from './routes/goals.routes';
 import forecastingRoutes from './routes/forecasting.routes';
 import bankingRoutes from './routes/banking.routes';
 import budgetRoutes from './routes/budget.routes';
+import exchangeRateRoutes from './routes/exchange-rates.routes';
+import transferRoutes from './routes/transfers.routes';
+import reconciliationRoutes from './routes/reconciliation.routes';
+import recurringRoutes from './routes/recurring.routes';
+import recurringDetectionRoutes from './routes/recurring-detection.routes';
+import ruleRoutes from './routes/rules.routes';
+import documentRoutes from './routes/documents.routes';
+import exportRoutes from './routes/export.routes';
+import duplicateRoutes from './routes/duplicates.routes';
+import jobRoutes from './routes/jobs.routes';
+import { startRecurringScheduler } from './services/recurring/recurring.scheduler';
+import { startBankSyncScheduler } from './services/banking/bank-sync.scheduler';
+import { startNetWorthSnapshotScheduler } from './services/analytics/net-worth.scheduler';
+import { startJobWorkers } from './services/jobs/workers';
+import { closeJobQueues } from './services/jobs/queues';
 
 // Load environment variables
 dotenv.config();
@@ -59,8 +74,9 @@ const limiter = rateLimit({
 
 app.use('/api/', limiter);
 
-// Stripe webhook needs raw body
+// Stripe and bank webhooks need raw body
 app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }));
+app.use('/api/webhooks/banking', express.raw({ type: 'application/json' }));
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
@@ -94,6 +110,16 @@ app.use('/api', goalsRoutes);
 app.use('/api', forecastingRoutes);
 app.use('/api', bankingRoutes);
 app.use('/api', budgetRoutes);
+app.use('/api', exchangeRateRoutes);
+app.use('/api', transferRoutes);
+app.use('/api', reconciliationRoutes);
+app.use('/api', recurringRoutes);
+app.use('/api', recurringDetectionRoutes);
+app.use('/api', ruleRoutes);
+app.use('/api', documentRoutes);
+app.use('/api', exportRoutes);
+app.use('/api', duplicateRoutes);
+app.use('/api', jobRoutes);
 console.log('✓ Budget routes registered');
 console.log('Budget routes stack length:', (budgetRoutes as any).stack?.length);
 console.log('Budget route paths:', (budgetRoutes as any).stack?.map((r: any) => r.route?.path));
@@ -107,11 +133,21 @@ const server = app.listen(PORT, () => {
   logger.info(`📍 Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
+const recurringScheduler = startRecurringScheduler();
+const bankSyncScheduler = startBankSyncScheduler();
+const netWorthScheduler = startNetWorthSnapshotScheduler();
+startJobWorkers();
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
-  server.close(() => {
+  if (recurringScheduler) clearInterval(recurringScheduler);
+  if (bankSyncScheduler) clearInterval(bankSyncScheduler);
+  if (netWorthScheduler) clearInterval(netWorthScheduler);
+  server.close(async () => {
     logger.info('HTTP server closed');
+    // Running jobs finish first, queued ones stay in Redis for the next start
+    await closeJobQueues().catch(error => logger.error('Closing job queues failed:', error));
     process.exit(0);
   });
 });
@@ -0,0 +1,38 @@
+import Bull, { JobOptions, Queue } from 'bull';
+import Redis from 'ioredis';
+import { redis } from './redis';
+
+// Bull blocks on its own connection per queue; commands and pub/sub share one each
+let subscriber: Redis | null = null;
+
+function createClient(type: 'client' | 'subscriber' | 'bclient'): Redis {
+  if (type === 'client') {
+    return redis;
+  }
+
+  const options = { maxRetriesPerRequest: null, enableReadyCheck: false };
+  if (type === 'subscriber') {
+    subscriber = subscriber || redis.duplicate(options);
+    return subscriber;
+  }
+  return redis.duplicate(options);
+}
+
+/**
+ * Create a Bull queue on the shared Redis connection
+ * Jobs retry three times with exponential backoff unless the queue or job
+ * says otherwise.
+ */
+export function createQueue<T>(name: string, defaultJobOptions: JobOptions = {}): Queue<T> {
+  return new Bull<T>(name, {
+    createClient,
+    prefix: process.env.JOB_QUEUE_PREFIX || 'globfam:jobs',
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 10000 },
+      removeOnComplete: 100,
+      removeOnFail: 500,
+      ...defaultJobOptions
+    }
+  });
+}
@@ -0,0 +1,33 @@
+import { Response, NextFunction } from 'express';
+import { format } from 'date-fns';
+import { AuthRequest } from './auth';
+import { AIUsageService } from '../services/ai/ai-usage.service';
+import { prisma } from '../lib/prisma';
+
+const aiUsageService = new AIUsageService(prisma);
+
+/**
+ * Reject AI calls once the organization has used up its monthly plan quota
+ * Must run after authenticate.
+ */
+export const requireAIQuota = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const quota = await aiUsageService.getQuotaStatus(req.user!.organizationId);
+
+    if (!quota.allowed) {
+      return res.status(429).json({
+        error: 'AI quota exceeded',
+        message: `The ${quota.plan} plan's monthly AI quota is used up. It resets on ${format(quota.resetsAt, 'yyyy-MM-dd')}.`,
+        quota
+      });
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,13 +1,23 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { OpenAIService } from '../services/ai/openai.service';
+import { startOfMonth } from 'date-fns';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { requireAIQuota } from '../middleware/aiQuota';
+import { AIService, modelSettingsSchema } from '../services/ai/ai.service';
+import { LLM_PROVIDER_NAMES } from '../services/ai/llm-providers';
+import { LocalCategorizerService } from '../services/ai/local-categorizer.service';
+import { AIUsageService } from '../services/ai/ai-usage.service';
+import { CategorizationBatchService } from '../services/ai/categorization-batch.service';
+import { categorizeQueue } from '../services/jobs/queues';
 import { prisma } from '../lib/prisma';
 
 const router = Router();
-const openAIService = new OpenAIService(prisma);
+const aiService = new AIService(prisma);
+const localCategorizer = new LocalCategorizerService(prisma);
+const aiUsageService = new AIUsageService(prisma);
+const batchService = new CategorizationBatchService(prisma);
 
-// Categorize transactions
+// Categorize transactions, only locally once the AI quota is used up
 router.post('/ai/categorize', authenticate, async (req: AuthRequest, res) => {
   try {
     const schema = z.object({
@@ -16,49 +26,19 @@ router.post('/ai/categorize', authenticate, async (req: AuthRequest, res) => {
     });
 
     const { transactionIds, limit } = schema.parse(req.body);
+    const localOnly = !(await aiUsageService.getQuotaStatus(req.user!.organizationId)).allowed;
 
-    // Get uncategorized or specified transactions
-    const transactions = await prisma.transaction.findMany({
-      where: {
-        userId: req.user!.id,
-        organizationId: req.user!.organizationId,
-        ...(transactionIds ? { id: { in: transactionIds } } : {
-          OR: [
-            { category: 'Other' },
-            { category: 'Other Income' }
-          ]
-        })
-      },
-      select: {
-        id: true,
-        description: true,
-        amount: true,
-        type: true,
-        date: true,
-        category: true
-      },
-      take: limit,
-      orderBy: { date: 'desc' }
-    });
+    const categorizations = await batchService.categorize(req.user!.id, req.user!.organizationId, { transactionIds, limit, localOnly });
 
-    if (transactions.length === 0) {
+    if (categorizations.length === 0) {
       return res.json({
         categorizations: [],
+        localOnly,
         message: 'No transactions to categorize'
       });
     }
 
-    const results = await openAIService.categorizeTransactions(
-      transactions.map(t => ({
-        ...t,
-        amount: t.amount.toString(),
-        currentCategory: t.category
-      })) as any,
-      req.user!.id,
-      req.user!.organizationId
-    );
-
-    res.json({ categorizations: results });
+    res.json({ categorizations, localOnly });
   } catch (error) {
     console.error('Categorization error:', error);
     res.status(500).json({ 
@@ -67,6 +47,35 @@ router.post('/ai/categorize', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+// Categorize a large batch in the background, suggestions are the job's result
+router.post('/ai/categorize/batch', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const schema = z.object({
+      transactionIds: z.array(z.string()).optional(),
+      limit: z.number().int().min(1).max(1000).optional().default(500)
+    });
+
+    const { transactionIds, limit } = schema.parse(req.body);
+    const localOnly = !(await aiUsageService.getQuotaStatus(req.user!.organizationId)).allowed;
+
+    const job = await categorizeQueue.add({
+      transactionIds,
+      limit,
+      localOnly,
+      userId: req.user!.id,
+      organizationId: req.user!.organizationId
+    });
+
+    res.status(202).json({ jobId: job.id, queue: 'ai-categorize', localOnly });
+  } catch (error) {
+    console.error('Queue categorization error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to queue categorization' });
+  }
+});
+
 // Apply categorization suggestions
 router.post('/ai/categorize/apply', authenticate, async (req: AuthRequest, res) => {
   try {
@@ -80,10 +89,20 @@ router.post('/ai/categorize/apply', authenticate, async (req: AuthRequest, res)
 
     const { categorizations } = schema.parse(req.body);
 
+    // Transactions locked by a completed statement reconciliation keep their category
+    const accepted = categorizations.filter(c => c.accepted);
+    const locked = new Set((await prisma.transaction.findMany({
+      where: {
+        id: { in: accepted.map(c => c.transactionId) },
+        reconciliation: { status: 'COMPLETED' }
+      },
+      select: { id: true }
+    })).map(tx => tx.id));
+
     // Apply accepted categorizations
     const updates = await Promise.all(
-      categorizations
-        .filter(c => c.accepted)
+      accepted
+        .filter(c => !locked.has(c.transactionId))
         .map(c => 
           prisma.transaction.update({
             where: { 
@@ -111,8 +130,12 @@ router.post('/ai/categorize/apply', authenticate, async (req: AuthRequest, res)
       )
     );
 
+    // Feedback changes the local categorizer's training data
+    localCategorizer.invalidate(req.user!.organizationId);
+
     res.json({
       updated: updates.length,
+      locked: Array.from(locked),
       message: `Applied ${updates.length} categorizations`
     });
   } catch (error) {
@@ -123,12 +146,39 @@ router.post('/ai/categorize/apply', authenticate, async (req: AuthRequest, res)
   }
 });
 
+// Answer a natural-language question about the caller's finances
+router.post('/ai/ask', authenticate, requireAIQuota, async (req: AuthRequest, res) => {
+  try {
+    const schema = z.object({
+      question: z.string().min(3).max(500)
+    });
+
+    const { question } = schema.parse(req.body);
+
+    const result = await aiService.ask(question, req.user!.id, req.user!.organizationId);
+
+    if (!result.answered) {
+      return res.status(422).json({ error: 'Question not supported', message: result.reason });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Ask error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : 'Failed to answer the question' 
+    });
+  }
+});
+
 // Get financial insights
-router.get('/ai/insights', authenticate, async (req: AuthRequest, res) => {
+router.get('/ai/insights', authenticate, requireAIQuota, async (req: AuthRequest, res) => {
   try {
     const timeframe = (req.query.timeframe as 'monthly' | 'quarterly' | 'yearly') || 'monthly';
     
-    const insights = await openAIService.generateFinancialInsights(
+    const insights = await aiService.generateFinancialInsights(
       req.user!.id,
       req.user!.organizationId,
       timeframe
@@ -144,7 +194,7 @@ router.get('/ai/insights', authenticate, async (req: AuthRequest, res) => {
 });
 
 // Get budget suggestions
-router.post('/ai/budget', authenticate, async (req: AuthRequest, res) => {
+router.post('/ai/budget', authenticate, requireAIQuota, async (req: AuthRequest, res) => {
   try {
     const schema = z.object({
       monthlyIncome: z.number().positive(),
@@ -153,7 +203,7 @@ router.post('/ai/budget', authenticate, async (req: AuthRequest, res) => {
 
     const { monthlyIncome, currency } = schema.parse(req.body);
 
-    const budget = await openAIService.suggestBudget(
+    const budget = await aiService.suggestBudget(
       req.user!.id,
       req.user!.organizationId,
       monthlyIncome,
@@ -169,6 +219,74 @@ router.post('/ai/budget', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+// Get the organization's LLM provider and model
+router.get('/ai/settings', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const settings = await aiService.getModelSettings(req.user!.organizationId);
+    const configured = await aiService.isConfigured(req.user!.organizationId);
+
+    res.json({ ...settings, configured, providers: LLM_PROVIDER_NAMES });
+  } catch (error) {
+    console.error('Get AI settings error:', error);
+    res.status(500).json({ error: 'Failed to fetch AI settings' });
+  }
+});
+
+// Choose the organization's LLM provider and model
+router.put('/ai/settings', authenticate, authorize(['OWNER', 'ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const data = modelSettingsSchema.parse(req.body);
+
+    const settings = await aiService.updateModelSettings(req.user!.organizationId, data);
+
+    res.json(settings);
+  } catch (error) {
+    console.error('Update AI settings error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to update AI settings' });
+  }
+});
+
+// Get this month's AI usage against the plan's quota
+router.get('/ai/quota', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const quota = await aiUsageService.getQuotaStatus(req.user!.organizationId);
+
+    res.json(quota);
+  } catch (error) {
+    console.error('Get AI quota error:', error);
+    res.status(500).json({ error: 'Failed to fetch AI quota' });
+  }
+});
+
+// Get AI usage and cost report, defaults to the current month
+router.get('/ai/usage', authenticate, authorize(['OWNER', 'ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const schema = z.object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional()
+    });
+
+    const { from, to } = schema.parse(req.query);
+
+    const report = await aiUsageService.getReport(
+      req.user!.organizationId,
+      from || startOfMonth(new Date()),
+      to || new Date()
+    );
+
+    res.json(report);
+  } catch (error) {
+    console.error('Get AI usage error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to fetch AI usage' });
+  }
+});
+
 // Get categorization history
 router.get('/ai/categorization-history', authenticate, async (req: AuthRequest, res) => {
   try {
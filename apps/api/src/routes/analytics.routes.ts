@@ -2,11 +2,13 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { AnalyticsService } from '../services/analytics/analytics.service';
+import { NetWorthService } from '../services/analytics/net-worth.service';
 import { prisma } from '../lib/prisma';
 import { startOfMonth, endOfMonth, subMonths } from 'date-fns';
 
 const router = Router();
 const analyticsService = new AnalyticsService(prisma);
+const netWorthService = new NetWorthService(prisma);
 
 // Get spending by category
 router.get('/analytics/spending-by-category', authenticate, async (req: AuthRequest, res) => {
@@ -136,6 +138,50 @@ router.post('/analytics/budget-comparison', authenticate, async (req: AuthReques
   }
 });
 
+// Get net worth history in a single currency
+router.get('/analytics/net-worth', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const schema = z.object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      currency: z.string().length(3).optional(),
+      familyId: z.string().optional()
+    });
+
+    const { from, to, currency, familyId } = schema.parse(req.query);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { preferredCurrency: true, familyId: true }
+    });
+
+    if (familyId && familyId !== user?.familyId) {
+      return res.status(403).json({ error: 'No access to this family' });
+    }
+
+    const history = await netWorthService.getNetWorthHistory(
+      {
+        userId: req.user!.id,
+        organizationId: req.user!.organizationId,
+        familyId
+      },
+      {
+        from,
+        to,
+        currency: (currency || user?.preferredCurrency || 'AUD').toUpperCase()
+      }
+    );
+
+    res.json(history);
+  } catch (error) {
+    console.error('Get net worth error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to calculate net worth' });
+  }
+});
+
 // Get analytics summary (combines multiple analytics)
 router.get('/analytics/summary', authenticate, async (req: AuthRequest, res) => {
   try {
@@ -1,11 +1,16 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { differenceInCalendarDays, subDays } from 'date-fns';
 import { PrismaClient, AssetType } from '@prisma/client';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
+import { NetWorthService } from '../services/analytics/net-worth.service';
+import { LedgerService, LEDGER_ASSET_TYPES } from '../services/ledger/ledger.service';
 
 const router = Router();
 const prisma = new PrismaClient();
+const netWorthService = new NetWorthService(prisma);
+const ledgerService = new LedgerService(prisma);
 
 // Asset validation schema
 const createAssetSchema = z.object({
@@ -16,10 +21,44 @@ const createAssetSchema = z.object({
   currency: z.string().length(3),
   amount: z.number().or(z.string()).transform(val => String(val)),
   metadata: z.record(z.any()).optional(),
-  familyId: z.string().optional()
+  familyId: z.string().optional(),
+  ledgerMode: z.boolean().optional(),
+  openingBalanceDate: z.string().datetime().optional() // Ledger mode only, defaults to now
 });
 
-const updateAssetSchema = createAssetSchema.partial();
+const updateAssetSchema = createAssetSchema.partial().extend({
+  openingBalance: z.number().optional() // Ledger mode only
+});
+
+// Each day of the range becomes a point, so the range is capped
+const MAX_BALANCE_HISTORY_DAYS = 5 * 366;
+
+const balanceHistoryQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+}).refine(({ from, to }) => {
+  const end = to || new Date();
+  const days = differenceInCalendarDays(end, from || subDays(end, 90));
+  return days >= 0 && days <= MAX_BALANCE_HISTORY_DAYS;
+}, {
+  message: `from must be before to and at most ${MAX_BALANCE_HISTORY_DAYS} days earlier`
+});
+
+// Get ledger reconciliation for all ledger-mode assets
+router.get('/reconciliation', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const results = await ledgerService.reconcileAll(req.user!.id, req.user!.organizationId);
+
+    res.json({
+      data: {
+        results,
+        discrepancies: results.filter(r => r.status === 'discrepancy').length
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
 // Get all assets for user/family
 router.get('/', authenticate, async (req: AuthRequest, res, next) => {
@@ -59,12 +98,28 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
       return acc;
     }, {} as Record<string, number>);
 
+    // Net worth converted into the user's preferred currency
+    let netWorth = null;
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { preferredCurrency: true }
+      });
+      netWorth = await netWorthService.calculateNetWorth(
+        { userId: req.user!.id, organizationId: req.user!.organizationId },
+        user?.preferredCurrency || 'AUD'
+      );
+    } catch (error) {
+      logger.warn(`Net worth unavailable for user ${req.user!.id}: ${error instanceof Error ? error.message : error}`);
+    }
+
     res.json({
       data: {
         assets,
         summary: {
           total: assets.length,
           totalsByCurrency,
+          netWorth,
           byType: assets.reduce((acc, asset) => {
             acc[asset.type] = (acc[asset.type] || 0) + 1;
             return acc;
@@ -143,14 +198,31 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
       }
     }
 
-    const asset = await prisma.asset.create({
+    const { ledgerMode, openingBalanceDate, ...assetData } = data;
+
+    if (ledgerMode && !LEDGER_ASSET_TYPES.includes(data.type)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `Ledger mode is only available for ${LEDGER_ASSET_TYPES.join(' and ')} assets`
+      });
+    }
+
+    let asset = await prisma.asset.create({
       data: {
-        ...data,
+        ...assetData,
         userId: data.familyId ? null : req.user!.id,
         organizationId: req.user!.organizationId
       }
     });
 
+    // The initial amount becomes the opening balance
+    if (ledgerMode) {
+      asset = await ledgerService.enableLedger(asset, {
+        balance: parseFloat(data.amount),
+        date: openingBalanceDate ? new Date(openingBalanceDate) : new Date()
+      });
+    }
+
     logger.info(`Asset created: ${asset.id} by user ${req.user!.id}`);
 
     res.status(201).json({
@@ -186,14 +258,44 @@ router.put('/:id', authenticate, async (req: AuthRequest, res, next) => {
       });
     }
 
-    const asset = await prisma.asset.update({
+    const { ledgerMode, openingBalance, openingBalanceDate, ...assetData } = data;
+    const staysInLedger = ledgerMode ?? existing.ledgerMode;
+
+    // Ledger balances come from transactions, not from edits
+    if (staysInLedger && existing.ledgerMode && assetData.amount !== undefined) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Balance is derived from the ledger; update openingBalance instead'
+      });
+    }
+
+    if (staysInLedger && !LEDGER_ASSET_TYPES.includes(assetData.type || existing.type)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `Ledger mode is only available for ${LEDGER_ASSET_TYPES.join(' and ')} assets`
+      });
+    }
+
+    let asset = await prisma.asset.update({
       where: { id: req.params.id },
       data: {
-        ...data,
+        ...assetData,
         lastSyncedAt: new Date()
       }
     });
 
+    if (ledgerMode === false && existing.ledgerMode) {
+      asset = await ledgerService.disableLedger(asset.id);
+    } else if (staysInLedger && (!existing.ledgerMode || openingBalance !== undefined || openingBalanceDate)) {
+      const opening = openingBalance !== undefined || openingBalanceDate
+        ? {
+            balance: openingBalance ?? existing.openingBalance?.toNumber() ?? asset.amount.toNumber(),
+            date: openingBalanceDate ? new Date(openingBalanceDate) : existing.openingBalanceDate || new Date()
+          }
+        : undefined;
+      asset = await ledgerService.enableLedger(asset, opening);
+    }
+
     res.json({
       message: 'Asset updated successfully',
       data: { asset }
@@ -298,4 +400,64 @@ router.post('/:id/valuations', authenticate, async (req: AuthRequest, res, next)
   }
 });
 
+// Get daily running balances
+router.get('/:id/balance-history', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { from, to } = balanceHistoryQuerySchema.parse(req.query);
+
+    const asset = await prisma.asset.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.user!.organizationId,
+        OR: [
+          { userId: req.user!.id },
+          { family: { members: { some: { id: req.user!.id } } } }
+        ]
+      }
+    });
+
+    if (!asset) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Asset not found'
+      });
+    }
+
+    const history = await ledgerService.getBalanceHistory(asset, { from, to });
+
+    res.json({ data: history });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Compare the ledger balance with the bank-reported balance
+router.get('/:id/reconciliation', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const asset = await prisma.asset.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.user!.organizationId,
+        OR: [
+          { userId: req.user!.id },
+          { family: { members: { some: { id: req.user!.id } } } }
+        ]
+      }
+    });
+
+    if (!asset) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Asset not found'
+      });
+    }
+
+    const reconciliation = await ledgerService.reconcile(asset);
+
+    res.json({ data: { reconciliation } });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { BankingService } from '../services/banking/banking.service';
+import { listBankProviders } from '../services/banking/bank-providers';
+import { syncQueue } from '../services/jobs/queues';
 import { prisma } from '../lib/prisma';
 
 const router = Router();
@@ -10,23 +12,19 @@ const bankingService = new BankingService(prisma);
 // Get supported banks
 router.get('/banking/supported-banks', authenticate, async (req: AuthRequest, res) => {
   try {
-    const banks = [
-      {
-        id: 'commonwealth',
-        name: 'Commonwealth Bank',
-        logo: '/bank-logos/cba.png',
-        country: 'AU',
-        authType: 'credentials',
+    const available = listBankProviders()
+      .filter(provider => provider.info.listed !== false)
+      .map(provider => ({
+        id: provider.id,
+        name: provider.info.name,
+        logo: provider.info.logo,
+        country: provider.info.country,
+        authType: provider.info.authType,
         status: 'available'
-      },
-      {
-        id: 'khanbank',
-        name: 'Khan Bank',
-        logo: '/bank-logos/khan.png',
-        country: 'MN',
-        authType: 'credentials',
-        status: 'available'
-      },
+      }));
+
+    const banks = [
+      ...available,
       {
         id: 'anz',
         name: 'ANZ',
@@ -79,7 +77,7 @@ router.get('/banking/connections', authenticate, async (req: AuthRequest, res) =
 router.post('/banking/connect', authenticate, async (req: AuthRequest, res) => {
   try {
     const schema = z.object({
-      provider: z.enum(['commonwealth', 'khanbank', 'basiq']),
+      provider: z.string(),
       credentials: z.object({
         username: z.string().optional(),
         password: z.string().optional(),
@@ -122,6 +120,25 @@ router.post('/banking/connect', authenticate, async (req: AuthRequest, res) => {
 // Sync bank transactions
 router.post('/banking/sync/:connectionId', authenticate, async (req: AuthRequest, res) => {
   try {
+    // Queue the sync and return 202, follow it through /jobs/bank-sync/:jobId
+    if (req.body?.background === true || req.query.background === 'true') {
+      const connection = await prisma.bankConnection.findFirst({
+        where: { id: req.params.connectionId, userId: req.user!.id, organizationId: req.user!.organizationId }
+      });
+
+      if (!connection) {
+        return res.status(404).json({ error: 'Bank connection not found' });
+      }
+
+      const job = await syncQueue.add({
+        connectionId: connection.id,
+        userId: req.user!.id,
+        organizationId: req.user!.organizationId
+      });
+
+      return res.status(202).json({ message: 'Bank sync queued', jobId: job.id, queue: 'bank-sync' });
+    }
+
     const result = await bankingService.syncBankTransactions(
       req.params.connectionId,
       req.user!.id,
@@ -131,7 +148,8 @@ router.post('/banking/sync/:connectionId', authenticate, async (req: AuthRequest
     res.json({ 
       message: 'Bank sync completed',
       imported: result.imported,
-      errors: result.errors
+      errors: result.errors,
+      duplicates: result.duplicates
     });
   } catch (error: any) {
     console.error('Sync bank error:', error);
@@ -431,13 +431,14 @@ router.get('/budgets/:id/summary', authenticate, async (req: AuthRequest, res) =
 
     const preferredCurrency = user?.preferredCurrency || 'AUD';
 
-    // Convert each budget item to preferred currency
+    // Convert each budget item to preferred currency at the budget month's rate
     const itemsWithConversion = await Promise.all(
       budget.items.map(async (item) => {
         const details = await exchangeRateService.getConversionDetails(
           Number(item.amount),
           item.currency,
-          preferredCurrency
+          preferredCurrency,
+          { date: budget.month, organizationId: req.user!.organizationId }
         );
 
         return {
@@ -448,6 +449,8 @@ router.get('/budgets/:id/summary', authenticate, async (req: AuthRequest, res) =
           convertedAmount: details.convertedAmount,
           convertedCurrency: preferredCurrency,
           exchangeRate: details.exchangeRate,
+          rateProvider: details.provider,
+          rateDate: details.rateDate,
         };
       })
     );
@@ -469,7 +472,8 @@ router.get('/budgets/:id/summary', authenticate, async (req: AuthRequest, res) =
     const incomeDetails = await exchangeRateService.getConversionDetails(
       Number(budget.monthlyIncome),
       budget.incomeCurrency,
-      preferredCurrency
+      preferredCurrency,
+      { date: budget.month, organizationId: req.user!.organizationId }
     );
 
     res.json({
@@ -478,6 +482,7 @@ router.get('/budgets/:id/summary', authenticate, async (req: AuthRequest, res) =
           ...budget,
           monthlyIncome: Number(budget.monthlyIncome),
           monthlyIncomeConverted: incomeDetails.convertedAmount,
+          incomeRateDate: incomeDetails.rateDate,
         },
         items: itemsWithConversion,
         totalNative,
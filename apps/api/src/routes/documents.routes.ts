@@ -0,0 +1,196 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { DocumentType } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { DocumentService } from '../services/documents/document.service';
+import { prisma } from '../lib/prisma';
+
+const router = Router();
+const documentService = new DocumentService(prisma);
+
+// Configure multer for document uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = [
+      'application/pdf',
+      'image/png',
+      'image/jpeg',
+      'image/tiff',
+      'image/bmp',
+      'image/webp',
+      'image/heic'
+    ];
+
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only PDF and image files are allowed.'));
+    }
+  }
+});
+
+// Validation schemas
+const uploadSchema = z.object({
+  name: z.string().min(1).optional(),
+  type: z.nativeEnum(DocumentType).default('OTHER'),
+  assetId: z.string().optional(),
+  transactionId: z.string().optional()
+});
+
+const updateDocumentSchema = z.object({
+  name: z.string().min(1).optional(),
+  type: z.nativeEnum(DocumentType).optional(),
+  assetId: z.string().nullable().optional(),
+  transactionId: z.string().nullable().optional()
+});
+
+// Get documents
+router.get('/documents', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const filters = z.object({
+      type: z.nativeEnum(DocumentType).optional(),
+      assetId: z.string().optional(),
+      transactionId: z.string().optional()
+    }).parse(req.query);
+
+    const documents = await documentService.getDocuments(req.user!.id, filters);
+
+    res.json({ documents });
+  } catch (error) {
+    console.error('Get documents error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to fetch documents' });
+  }
+});
+
+// Upload a document, receipt images are run through OCR in the background
+router.post('/documents', authenticate, upload.single('file'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const data = uploadSchema.parse(req.body);
+
+    const document = await documentService.upload(
+      req.user!.id,
+      req.user!.organizationId,
+      req.file,
+      data
+    );
+
+    if (!document) {
+      return res.status(404).json({ error: 'Asset or transaction not found' });
+    }
+
+    res.status(201).json({ document });
+  } catch (error) {
+    console.error('Upload document error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to upload document' });
+  }
+});
+
+// Get a single document with its extraction result
+router.get('/documents/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const document = await documentService.getDocumentById(req.params.id, req.user!.id);
+
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json({ document });
+  } catch (error) {
+    console.error('Get document error:', error);
+    res.status(500).json({ error: 'Failed to fetch document' });
+  }
+});
+
+// Download a document's file
+router.get('/documents/:id/download', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const file = await documentService.download(req.params.id, req.user!.id);
+
+    if (!file) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    // Sends an ASCII filename with filename*= for names such as Cyrillic ones
+    res.attachment(file.document.name);
+    res.setHeader('Content-Type', file.document.mimeType);
+    res.send(file.content);
+  } catch (error) {
+    console.error('Download document error:', error);
+    res.status(500).json({ error: 'Failed to download document' });
+  }
+});
+
+// Run OCR again and return the proposed transaction
+router.post('/documents/:id/extract', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const proposal = await documentService.extract(req.params.id, req.user!.id);
+
+    res.json({ proposal });
+  } catch (error) {
+    console.error('Extract document error:', error);
+    if (error instanceof Error && error.message === 'Document not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.startsWith('OCR is')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to extract document' });
+  }
+});
+
+// Rename, retype or relink a document
+router.put('/documents/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = updateDocumentSchema.parse(req.body);
+
+    const document = await documentService.updateDocument(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      data
+    );
+
+    res.json({ document });
+  } catch (error) {
+    console.error('Update document error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    if (error instanceof Error && ['Document not found', 'Asset or transaction not found'].includes(error.message)) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to update document' });
+  }
+});
+
+// Delete a document and its file
+router.delete('/documents/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await documentService.deleteDocument(req.params.id, req.user!.id);
+
+    res.json({ message: 'Document deleted successfully' });
+  } catch (error) {
+    console.error('Delete document error:', error);
+    if (error instanceof Error && error.message === 'Document not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to delete document' });
+  }
+});
+
+export default router;
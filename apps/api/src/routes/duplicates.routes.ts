@@ -0,0 +1,63 @@
+import { Router, Response } from 'express';
+import { DuplicateStatus } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { DuplicateDetectionService } from '../services/duplicates/duplicate-detection.service';
+import { prisma } from '../lib/prisma';
+
+const router = Router();
+const duplicateService = new DuplicateDetectionService(prisma);
+
+// Get suspected duplicates, pending ones unless a status is given
+router.get('/duplicates', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const duplicates = await duplicateService.getCandidates(req.user!.id, req.user!.organizationId, {
+      status: req.query.status as DuplicateStatus | undefined,
+      assetId: req.query.assetId as string | undefined
+    });
+
+    res.json({ duplicates });
+  } catch (error) {
+    console.error('Get duplicates error:', error);
+    res.status(500).json({ error: 'Failed to fetch duplicates' });
+  }
+});
+
+// Merge the newer copy into the transaction it repeats
+router.post('/duplicates/:id/merge', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const duplicate = await duplicateService.merge(req.params.id, req.user!.id, req.user!.organizationId);
+
+    res.json({ duplicate });
+  } catch (error) {
+    console.error('Merge duplicate error:', error);
+    handleDuplicateError(res, error, 'Failed to merge duplicate');
+  }
+});
+
+// Keep both transactions
+router.post('/duplicates/:id/dismiss', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const duplicate = await duplicateService.dismiss(req.params.id, req.user!.id, req.user!.organizationId);
+
+    res.json({ duplicate });
+  } catch (error) {
+    console.error('Dismiss duplicate error:', error);
+    handleDuplicateError(res, error, 'Failed to dismiss duplicate');
+  }
+});
+
+function handleDuplicateError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof Error) {
+    if (error.message === 'Duplicate not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message === 'Duplicate already resolved' ||
+        error.message.startsWith('Transfer legs') ||
+        error.message.startsWith('Transaction is locked')) {
+      return res.status(409).json({ error: error.message });
+    }
+  }
+  res.status(500).json({ error: fallback });
+}
+
+export default router;
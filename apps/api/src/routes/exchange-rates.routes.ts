@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { exchangeRateService } from '../services/currency/exchange-rate.service';
+
+const router = Router();
+
+// Validation schemas
+// A real calendar day, 2024-02-31 does not roll over into March
+const rateDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).refine(val => {
+  const date = new Date(val);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(val);
+}, { message: 'Invalid date' });
+
+const convertQuerySchema = z.object({
+  amount: z.coerce.number(),
+  from: z.string().length(3).transform(val => val.toUpperCase()),
+  to: z.string().length(3).transform(val => val.toUpperCase()),
+  date: rateDay.optional(), // YYYY-MM-DD
+});
+
+const createOverrideSchema = z.object({
+  base: z.string().length(3).transform(val => val.toUpperCase()),
+  quote: z.string().length(3).transform(val => val.toUpperCase()),
+  rate: z.number().positive(),
+  validFrom: rateDay, // YYYY-MM-DD
+  validTo: rateDay.optional(), // Open-ended when omitted
+  note: z.string().max(200).optional(),
+}).refine(data => data.base !== data.quote, {
+  message: 'Base and quote currencies must differ',
+}).refine(data => !data.validTo || data.validTo >= data.validFrom, {
+  message: 'validTo must not be before validFrom',
+});
+
+/**
+ * Convert an amount, reporting the rate and which provider supplied it
+ * GET /api/exchange-rates/convert?amount=100&from=AUD&to=MNT&date=2024-01-15
+ */
+router.get('/exchange-rates/convert', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { amount, from, to, date } = convertQuerySchema.parse(req.query);
+
+    const details = await exchangeRateService.getConversionDetails(amount, from, to, {
+      date: date ? new Date(date) : undefined,
+      organizationId: req.user!.organizationId,
+    });
+
+    res.json({ data: { amount, from, to, ...details } });
+  } catch (error) {
+    console.error('Convert currency error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to convert currency' });
+  }
+});
+
+/**
+ * List the organization's pinned exchange rates
+ * GET /api/exchange-rates/overrides
+ */
+router.get('/exchange-rates/overrides', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const overrides = await prisma.exchangeRateOverride.findMany({
+      where: { organizationId: req.user!.organizationId },
+      orderBy: [{ base: 'asc' }, { quote: 'asc' }, { validFrom: 'desc' }],
+    });
+
+    res.json({ data: { overrides } });
+  } catch (error) {
+    console.error('Get rate overrides error:', error);
+    res.status(500).json({ error: 'Failed to fetch exchange rate overrides' });
+  }
+});
+
+/**
+ * Pin a custom rate for a currency pair and date range
+ * POST /api/exchange-rates/overrides
+ */
+router.post('/exchange-rates/overrides', authenticate, authorize(['OWNER', 'ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const data = createOverrideSchema.parse(req.body);
+
+    const override = await prisma.exchangeRateOverride.create({
+      data: {
+        base: data.base,
+        quote: data.quote,
+        rate: data.rate,
+        validFrom: new Date(data.validFrom),
+        validTo: data.validTo ? new Date(data.validTo) : null,
+        note: data.note,
+        organizationId: req.user!.organizationId,
+        createdById: req.user!.id,
+      },
+    });
+
+    res.status(201).json({ data: { override } });
+  } catch (error) {
+    console.error('Create rate override error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to create exchange rate override' });
+  }
+});
+
+/**
+ * Remove a pinned rate
+ * DELETE /api/exchange-rates/overrides/:id
+ */
+router.delete('/exchange-rates/overrides/:id', authenticate, authorize(['OWNER', 'ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const result = await prisma.exchangeRateOverride.deleteMany({
+      where: {
+        id: req.params.id,
+        organizationId: req.user!.organizationId,
+      },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Exchange rate override not found' });
+    }
+
+    res.json({ message: 'Exchange rate override deleted successfully' });
+  } catch (error) {
+    console.error('Delete rate override error:', error);
+    res.status(500).json({ error: 'Failed to delete exchange rate override' });
+  }
+});
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { ExportService } from '../services/export/export.service';
+import { prisma } from '../lib/prisma';
+
+const router = Router();
+const exportService = new ExportService(prisma);
+
+// Validation schemas
+const exportQuerySchema = z.object({
+  assetId: z.string(),
+  format: z.enum(['ofx', 'qfx', 'qif']).default('ofx'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+// Download an asset's transactions as OFX, QFX or QIF
+router.get('/export/transactions', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const options = exportQuerySchema.parse(req.query);
+
+    const file = await exportService.exportTransactions(
+      req.user!.id,
+      req.user!.organizationId,
+      options
+    );
+
+    if (!file) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+
+    res.setHeader('Content-Type', `${file.mimeType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.setHeader('X-Transaction-Count', String(file.transactionCount));
+    res.send(file.content);
+  } catch (error) {
+    console.error('Export transactions error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to export transactions' });
+  }
+});
+
+export default router;
@@ -1,14 +1,21 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import multer from 'multer';
 import { z } from 'zod';
-import { authenticate, AuthRequest } from '../middleware/auth';
-import { ImportService } from '../services/import/import.service';
-import { csvParser } from '../services/import/csv-parser';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { ImportService, ImportFileType, ImportAbortedError } from '../services/import/import.service';
+import { ImportProfileService, ResolvedImportProfile } from '../services/import/import-profile.service';
+import { csvParser, ColumnMapping } from '../services/import/csv-parser';
 import { excelParser } from '../services/import/excel-parser';
+import { interpretAmount } from '../services/import/amount-parser';
+import { pdfParser, PDF_STATEMENT_TEMPLATES, PDF_DEFAULT_MAPPING } from '../services/import/pdf-parser';
+import { ofxParser, OFX_DEFAULT_MAPPING } from '../services/import/ofx-parser';
+import { qifParser, QIF_DEFAULT_MAPPING } from '../services/import/qif-parser';
+import { getJobState } from '../services/jobs/queues';
 import { prisma } from '../lib/prisma';
 
 const router = Router();
 const importService = new ImportService(prisma);
+const importProfileService = new ImportProfileService(prisma);
 
 // Configure multer for file uploads
 const upload = multer({
@@ -21,16 +28,19 @@ const upload = multer({
       'text/csv',
       'application/vnd.ms-excel',
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/pdf',
+      'application/x-ofx',
+      'application/vnd.intu.qfx',
+      'application/qif',
+      'application/x-qif',
       'application/octet-stream' // Some browsers send this for CSV files
     ];
     
     if (allowedTypes.includes(file.mimetype) || 
-        file.originalname.endsWith('.csv') || 
-        file.originalname.endsWith('.xlsx') ||
-        file.originalname.endsWith('.xls')) {
+        /\.(csv|xlsx|xls|pdf|ofx|qfx|qif)$/i.test(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only CSV and Excel files are allowed.'));
+      cb(new Error('Invalid file type. Only CSV, Excel, PDF, OFX/QFX and QIF files are allowed.'));
     }
   }
 });
@@ -39,22 +49,124 @@ const upload = multer({
 const columnMappingSchema = z.object({
   date: z.string(),
   description: z.string(),
-  amount: z.string(),
+  amount: z.string().optional(),
+  debit: z.string().optional(),
+  credit: z.string().optional(),
   currency: z.string().optional(),
   category: z.string().optional(),
-  type: z.string().optional()
+  type: z.string().optional(),
+  signConvention: z.enum(['negative_is_expense', 'positive_is_expense']).optional(),
+  decimalSeparator: z.enum(['.', ',']).optional(),
+  numberLocale: z.string().max(35).optional()
+}).refine(mapping => mapping.amount || mapping.debit || mapping.credit, {
+  message: 'Map an amount column, or debit and credit columns'
+});
+
+const importProfileSchema = z.object({
+  name: z.string().min(1).max(100),
+  bank: z.string().nullable().optional(),
+  fileType: z.enum(['csv', 'excel']).optional(),
+  headers: z.array(z.string()).optional(),
+  columnMapping: columnMappingSchema,
+  dateFormat: z.string().nullable().optional(),
+  delimiter: z.string().min(1).max(1).optional(),
+  skipRows: z.number().int().min(0).optional(),
+  hasHeaderRow: z.boolean().optional()
 });
 
 const importOptionsSchema = z.object({
   assetId: z.string(),
-  columnMapping: columnMappingSchema,
+  columnMapping: columnMappingSchema.optional(), // Taken from the profile when omitted
+  profileId: z.string().optional(), // Saved profile or "preset:<id>", matched from the headers when omitted
+  saveProfile: z.string().min(1).max(100).optional(), // Save the settings used as a new profile
   dateFormat: z.string().optional(),
+  delimiter: z.string().min(1).max(1).optional(),
+  skipRows: z.number().int().min(0).optional(),
+  hasHeaderRow: z.boolean().optional(),
   skipDuplicates: z.boolean().optional().default(true),
-  sheetName: z.string().optional()
+  sheetName: z.string().optional(),
+  template: z.string().optional(), // PDF statement template, detected when omitted
+  account: z.string().optional(), // OFX account id when the file holds several
+  dateOrder: z.enum(['MDY', 'DMY']).optional(), // QIF date order, detected when omitted
+  background: z.boolean().optional(), // Queue the import and return 202 instead of waiting for it
+  atomic: z.boolean().optional() // Import every row or none
+});
+
+// List PDF statement templates
+router.get('/import/templates', authenticate, async (req, res) => {
+  res.json({
+    templates: PDF_STATEMENT_TEMPLATES.map(template => ({ id: template.id, name: template.name }))
+  });
+});
+
+// List saved import profiles and built-in bank presets
+router.get('/import/profiles', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const profiles = await importProfileService.getProfiles(req.user!.organizationId);
+
+    res.json({
+      profiles,
+      presets: importProfileService.getPresets().map(({ firstLine, columnCount, ...preset }) => ({
+        ...preset,
+        id: `preset:${preset.id}`
+      }))
+    });
+  } catch (error) {
+    console.error('Get import profiles error:', error);
+    res.status(500).json({ error: 'Failed to fetch import profiles' });
+  }
+});
+
+// Create an import profile
+router.post('/import/profiles', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = importProfileSchema.parse(req.body);
+
+    const profile = await importProfileService.createProfile(
+      req.user!.id,
+      req.user!.organizationId,
+      data
+    );
+
+    res.status(201).json({ profile });
+  } catch (error) {
+    console.error('Create import profile error:', error);
+    handleProfileError(res, error, 'Failed to create import profile');
+  }
+});
+
+// Update an import profile
+router.put('/import/profiles/:id', authenticate, authorize(['OWNER', 'ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const data = importProfileSchema.partial().parse(req.body);
+
+    const profile = await importProfileService.updateProfile(
+      req.params.id,
+      req.user!.organizationId,
+      data
+    );
+
+    res.json({ profile });
+  } catch (error) {
+    console.error('Update import profile error:', error);
+    handleProfileError(res, error, 'Failed to update import profile');
+  }
+});
+
+// Delete an import profile
+router.delete('/import/profiles/:id', authenticate, authorize(['OWNER', 'ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    await importProfileService.deleteProfile(req.params.id, req.user!.organizationId);
+
+    res.json({ message: 'Import profile deleted successfully' });
+  } catch (error) {
+    console.error('Delete import profile error:', error);
+    handleProfileError(res, error, 'Failed to delete import profile');
+  }
 });
 
 // Preview file endpoint
-router.post('/import/preview', authenticate, upload.single('file'), async (req, res) => {
+router.post('/import/preview', authenticate, upload.single('file'), async (req: AuthRequest, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
@@ -62,32 +174,89 @@ router.post('/import/preview', authenticate, upload.single('file'), async (req,
 
     const fileBuffer = req.file.buffer;
     const fileName = req.file.originalname;
-    const isExcel = fileName.endsWith('.xlsx') || fileName.endsWith('.xls');
+    const fileType = detectFileType(req.file);
 
     let headers: string[] = [];
     let preview: Record<string, any>[] = [];
     let sheets: string[] = [];
+    let statement;
+    let accounts;
+    let suggestedMapping: ColumnMapping | undefined;
+    let profile: (ResolvedImportProfile & { match: string }) | null = null;
 
-    if (isExcel) {
+    if (fileType === 'pdf') {
+      // Each preview row carries a Confidence between 0 and 1
+      const parsed = await pdfParser.parseStatement(fileBuffer, { template: req.body.template || undefined });
+      headers = await pdfParser.detectColumns();
+      preview = parsed.rows.slice(0, 10);
+      statement = {
+        template: parsed.template,
+        periodStart: parsed.periodStart,
+        totalRows: parsed.rows.length,
+        averageConfidence: parsed.rows.length > 0
+          ? Math.round(parsed.rows.reduce((sum, row) => sum + row.Confidence, 0) / parsed.rows.length * 100) / 100
+          : 0,
+        lowConfidenceRows: parsed.rows.filter(row => row.Confidence < 0.7).length
+      };
+      suggestedMapping = PDF_DEFAULT_MAPPING;
+    } else if (fileType === 'ofx') {
+      accounts = ofxParser.getAccounts(fileBuffer);
+      headers = await ofxParser.detectColumns();
+      preview = await ofxParser.previewRows(fileBuffer, 10, { account: req.body.account || undefined });
+      suggestedMapping = OFX_DEFAULT_MAPPING;
+    } else if (fileType === 'qif') {
+      headers = await qifParser.detectColumns();
+      preview = await qifParser.previewRows(fileBuffer, 10, { dateOrder: req.body.dateOrder || undefined });
+      suggestedMapping = QIF_DEFAULT_MAPPING;
+    } else if (fileType === 'excel') {
       sheets = await excelParser.getSheetNames(fileBuffer);
       const sheetName = req.body.sheetName || sheets[0];
+      profile = await resolveProfile(req, fileBuffer, fileType, sheetName);
       headers = await excelParser.detectColumns(fileBuffer, { sheetName });
       preview = await excelParser.previewRows(fileBuffer, 10, { sheetName });
     } else {
-      headers = await csvParser.detectColumns(fileBuffer);
-      preview = await csvParser.previewRows(fileBuffer, 10);
+      profile = await resolveProfile(req, fileBuffer, fileType);
+      const parseOptions = {
+        delimiter: req.body.delimiter || profile?.delimiter,
+        skipRows: req.body.skipRows !== undefined ? parseInt(req.body.skipRows) : profile?.skipRows,
+        hasHeaderRow: req.body.hasHeaderRow !== undefined ? req.body.hasHeaderRow !== 'false' : profile?.hasHeaderRow
+      };
+      headers = await csvParser.detectColumns(fileBuffer, parseOptions);
+      preview = await csvParser.previewRows(fileBuffer, 10, parseOptions);
     }
 
+    const suggested = suggestedMapping || profile?.columnMapping || suggestColumnMapping(headers);
+
+    // Show how each row's amount will be read, with the mapping being edited when one is sent
+    const mapping = req.body.columnMapping
+      ? columnMappingSchema.parse(typeof req.body.columnMapping === 'string' ? JSON.parse(req.body.columnMapping) : req.body.columnMapping)
+      : suggested as ColumnMapping;
+    const interpretation = (mapping.amount || mapping.debit || mapping.credit) && (fileType === 'csv' || fileType === 'excel')
+      ? preview.map(row => ({
+          date: row[mapping.date] ?? null,
+          description: row[mapping.description] ?? null,
+          ...interpretAmount(row, mapping)
+        }))
+      : undefined;
+
     res.json({
       fileName,
-      fileType: isExcel ? 'excel' : 'csv',
+      fileType,
       headers,
       preview,
-      sheets: isExcel ? sheets : undefined,
-      suggestedMapping: suggestColumnMapping(headers)
+      interpretation,
+      sheets: fileType === 'excel' ? sheets : undefined,
+      statement,
+      accounts,
+      profile: profile && { id: profile.id, name: profile.name, preset: profile.preset, match: profile.match },
+      dateFormat: profile?.dateFormat,
+      suggestedMapping: suggested
     });
   } catch (error) {
     console.error('File preview error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
     res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
   }
 });
@@ -105,16 +274,20 @@ router.post('/import/process', authenticate, upload.single('file'), async (req:
       columnMapping: typeof req.body.columnMapping === 'string'
         ? JSON.parse(req.body.columnMapping)
         : req.body.columnMapping,
-      skipDuplicates: req.body.skipDuplicates === 'true' || req.body.skipDuplicates === true
+      skipDuplicates: req.body.skipDuplicates === 'true' || req.body.skipDuplicates === true,
+      skipRows: req.body.skipRows !== undefined ? parseInt(req.body.skipRows) : undefined,
+      hasHeaderRow: req.body.hasHeaderRow !== undefined ? req.body.hasHeaderRow === 'true' || req.body.hasHeaderRow === true : undefined,
+      background: req.body.background === 'true' || req.body.background === true,
+      atomic: req.body.atomic === 'true' || req.body.atomic === true
     };
 
     // Validate request body
-    const options = importOptionsSchema.parse(bodyData);
+    const { saveProfile, ...input } = importOptionsSchema.parse(bodyData);
 
     // Check asset ownership
     const asset = await prisma.asset.findFirst({
       where: {
-        id: options.assetId,
+        id: input.assetId,
         organizationId: req.user!.organizationId
       }
     });
@@ -125,37 +298,95 @@ router.post('/import/process', authenticate, upload.single('file'), async (req:
 
     const fileBuffer = req.file.buffer;
     const fileName = req.file.originalname;
-    const isExcel = fileName.endsWith('.xlsx') || fileName.endsWith('.xls');
-
-    let result;
-    if (isExcel) {
-      result = await importService.importFromExcel(
-        fileBuffer,
-        fileName,
-        req.user!.id,
-        req.user!.organizationId,
-        options
-      );
-    } else {
-      result = await importService.importFromCSV(
-        fileBuffer,
-        fileName,
-        req.user!.id,
-        req.user!.organizationId,
-        options
-      );
+    const fileType = detectFileType(req.file);
+
+    // A profile fills in what the request leaves out, it is matched only when no mapping is sent
+    const profile = (fileType === 'csv' || fileType === 'excel') && (input.profileId || !input.columnMapping)
+      ? await resolveProfile(req, fileBuffer, fileType, input.sheetName)
+      : null;
+    const columnMapping = input.columnMapping || profile?.columnMapping || defaultMapping(fileType);
+
+    if (!columnMapping) {
+      return res.status(400).json({ error: 'Column mapping is required, no import profile matches this file' });
+    }
+
+    // Statements of several accounts only go into one asset by choice, or the one matching its account
+    let account = input.account;
+    if (fileType === 'ofx' && !account) {
+      const accounts = ofxParser.getAccounts(fileBuffer);
+      if (new Set(accounts.map(a => a.accountId)).size > 1) {
+        account = accounts.find(a => a.accountId && a.accountId === asset.externalId)?.accountId;
+        if (!account) {
+          return res.status(400).json({ error: 'The file holds several accounts, choose one with account', accounts });
+        }
+      }
+    }
+
+    const options = {
+      ...input,
+      account,
+      columnMapping,
+      profileId: profile?.id,
+      dateFormat: input.dateFormat ?? profile?.dateFormat,
+      delimiter: input.delimiter ?? profile?.delimiter,
+      skipRows: input.skipRows ?? profile?.skipRows,
+      hasHeaderRow: input.hasHeaderRow ?? profile?.hasHeaderRow
+    };
+
+    // Large files are queued and followed through /import/:id/progress instead
+    const queued = input.background
+      ? await importService.queueImport(fileType, fileBuffer, fileName, req.user!.id, req.user!.organizationId, options)
+      : null;
+    const result = queued
+      ? null
+      : await importService.importFile(fileType, fileBuffer, fileName, req.user!.id, req.user!.organizationId, options);
+
+    if (profile) {
+      await importProfileService.markUsed(profile.id);
+    }
+
+    let savedProfile;
+    if (saveProfile && (fileType === 'csv' || fileType === 'excel')) {
+      savedProfile = await importProfileService.createProfile(req.user!.id, req.user!.organizationId, {
+        name: saveProfile,
+        fileType,
+        headers: options.hasHeaderRow === false
+          ? []
+          : fileType === 'excel'
+            ? await excelParser.detectColumns(fileBuffer, { sheetName: options.sheetName })
+            : await csvParser.detectColumns(fileBuffer, { delimiter: options.delimiter, skipRows: options.skipRows }),
+        columnMapping,
+        dateFormat: options.dateFormat,
+        delimiter: options.delimiter,
+        skipRows: options.skipRows,
+        hasHeaderRow: options.hasHeaderRow
+      });
+    }
+
+    if (!result) {
+      return res.status(202).json({
+        success: true,
+        importId: queued!.id,
+        status: queued!.status,
+        profileId: savedProfile?.id || profile?.id
+      });
     }
 
     res.json({
       success: true,
       importId: result.importHistory.id,
+      profileId: savedProfile?.id || profile?.id,
       totalRows: result.importHistory.totalRows,
       successfulRows: result.importHistory.successfulRows,
       failedRows: result.importHistory.failedRows,
-      errors: result.errors
+      errors: result.errors,
+      duplicates: result.duplicates
     });
   } catch (error) {
     console.error('Import error:', error);
+    if (error instanceof ImportAbortedError) {
+      return res.status(400).json({ error: error.message, errors: error.rowErrors });
+    }
     res.status(400).json({ error: error instanceof Error ? error.message : 'Unknown error' });
   }
 });
@@ -177,6 +408,71 @@ router.get('/import/history', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+// Delete every transaction an import created
+router.post('/import/:id/rollback', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const result = await importService.rollbackImport(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      req.user!.role
+    );
+
+    res.json(result);
+  } catch (error) {
+    console.error('Rollback import error:', error);
+    if (error instanceof Error && error.message === 'Import not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && (error.message.startsWith('Import is') || error.message.startsWith('Import contains'))) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to roll back import' });
+  }
+});
+
+// Get the progress of an import, queued imports update it as rows are processed
+router.get('/import/:id/progress', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const importHistory = await prisma.importHistory.findFirst({
+      where: {
+        id: req.params.id,
+        organizationId: req.user!.organizationId
+      },
+      select: {
+        id: true,
+        status: true,
+        totalRows: true,
+        successfulRows: true,
+        failedRows: true,
+        errors: true,
+        startedAt: true,
+        completedAt: true
+      }
+    });
+
+    if (!importHistory) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    // Imports that ran in the request have no job
+    const job = await getJobState('import', importHistory.id, req.user!.organizationId).catch(() => null);
+    const processed = importHistory.successfulRows + importHistory.failedRows;
+
+    res.json({
+      ...importHistory,
+      progress: importHistory.status === 'completed'
+        ? 100
+        : job?.progress ?? (importHistory.totalRows > 0 ? Math.round(processed / importHistory.totalRows * 100) : 0),
+      attempts: job?.attempts,
+      maxAttempts: job?.maxAttempts
+    });
+  } catch (error) {
+    console.error('Get import progress error:', error);
+    res.status(500).json({ error: 'Failed to fetch import progress' });
+  }
+});
+
 // Get import details
 router.get('/import/:id', authenticate, async (req: AuthRequest, res) => {
   try {
@@ -214,9 +510,63 @@ router.get('/import/:id', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * The profile named in the request, or the one matching the file's headers
+ */
+async function resolveProfile(
+  req: AuthRequest,
+  fileBuffer: Buffer,
+  fileType: 'csv' | 'excel',
+  sheetName?: string
+): Promise<(ResolvedImportProfile & { match: string }) | null> {
+  if (req.body.profileId) {
+    const profile = await importProfileService.getProfile(req.body.profileId, req.user!.organizationId);
+    if (!profile) {
+      throw new Error('Import profile not found');
+    }
+    return { ...profile, match: 'selected' };
+  }
+
+  const matched = await importProfileService.matchProfile(req.user!.organizationId, fileBuffer, fileType, sheetName);
+  return matched && { ...matched.profile, match: matched.match };
+}
+
+function defaultMapping(fileType: ImportFileType): ColumnMapping | undefined {
+  return {
+    pdf: PDF_DEFAULT_MAPPING,
+    ofx: OFX_DEFAULT_MAPPING,
+    qif: QIF_DEFAULT_MAPPING,
+    csv: undefined,
+    excel: undefined
+  }[fileType];
+}
+
+function handleProfileError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid input', details: error.errors });
+  }
+  if (error instanceof Error && error.message === 'Profile not found') {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof Error && error.message === 'A profile with this name already exists') {
+    return res.status(409).json({ error: error.message });
+  }
+  res.status(500).json({ error: fallback });
+}
+
+function detectFileType(file: Express.Multer.File): ImportFileType {
+  const name = file.originalname.toLowerCase();
+
+  if (file.mimetype === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (['application/x-ofx', 'application/vnd.intu.qfx'].includes(file.mimetype) || /\.(ofx|qfx)$/.test(name)) return 'ofx';
+  if (['application/qif', 'application/x-qif'].includes(file.mimetype) || name.endsWith('.qif')) return 'qif';
+  if (name.endsWith('.xlsx') || name.endsWith('.xls')) return 'excel';
+  return 'csv';
+}
+
 // Helper function to suggest column mapping
-function suggestColumnMapping(headers: string[]): Partial<Record<string, string>> {
-  const mapping: Partial<Record<string, string>> = {};
+function suggestColumnMapping(headers: string[]): Partial<ColumnMapping> {
+  const mapping: Partial<ColumnMapping> = {};
   
   const datePatterns = /date|time|when/i;
   const descriptionPatterns = /description|desc|detail|particular|narration|memo/i;
@@ -224,21 +574,35 @@ function suggestColumnMapping(headers: string[]): Partial<Record<string, string>
   const currencyPatterns = /currency|curr|ccy/i;
   const categoryPatterns = /category|cat|type|class/i;
   const typePatterns = /type|credit|debit|dr|cr/i;
+  const debitPatterns = /debit|withdrawal|money out|paid out|дебит|зарлага/i;
+  const creditPatterns = /credit|deposit|money in|paid in|кредит|орлого/i;
+
+  // A debit and a credit column together carry the amount, so neither is a type column
+  const debit = headers.find(header => debitPatterns.test(header) && !creditPatterns.test(header));
+  const credit = headers.find(header => creditPatterns.test(header) && !debitPatterns.test(header));
+  if (debit && credit) {
+    mapping.debit = debit;
+    mapping.credit = credit;
+  }
 
   for (const header of headers) {
     const normalizedHeader = header.toLowerCase().trim();
+
+    if (header === mapping.debit || header === mapping.credit) {
+      continue;
+    }
     
     if (datePatterns.test(normalizedHeader) && !mapping.date) {
       mapping.date = header;
     } else if (descriptionPatterns.test(normalizedHeader) && !mapping.description) {
       mapping.description = header;
-    } else if (amountPatterns.test(normalizedHeader) && !mapping.amount) {
+    } else if (amountPatterns.test(normalizedHeader) && !mapping.amount && !mapping.debit) {
       mapping.amount = header;
     } else if (currencyPatterns.test(normalizedHeader) && !mapping.currency) {
       mapping.currency = header;
     } else if (categoryPatterns.test(normalizedHeader) && !mapping.category) {
       mapping.category = header;
-    } else if (typePatterns.test(normalizedHeader) && !mapping.type) {
+    } else if (typePatterns.test(normalizedHeader) && !mapping.type && !mapping.debit) {
       mapping.type = header;
     }
   }
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { getJobState, JOB_QUEUES, JobQueueName } from '../services/jobs/queues';
+
+const router = Router();
+
+// Get the state and progress of a background job
+router.get('/jobs/:queue/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    if (!Object.prototype.hasOwnProperty.call(JOB_QUEUES, req.params.queue)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const job = await getJobState(req.params.queue as JobQueueName, req.params.id, req.user!.organizationId);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({ job });
+  } catch (error) {
+    console.error('Get job error:', error);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+});
+
+export default router;
@@ -0,0 +1,178 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
+import { ApiError } from '../middleware/errorHandler';
+import { ReconciliationService } from '../services/reconciliation/reconciliation.service';
+import { prisma } from '../lib/prisma';
+
+const router = Router();
+const reconciliationService = new ReconciliationService(prisma);
+
+// Validation schemas
+const startReconciliationSchema = z.object({
+  assetId: z.string(),
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  closingBalance: z.number(),
+  openingBalance: z.number().optional()
+});
+
+const clearSchema = z.object({
+  transactionIds: z.array(z.string()).min(1),
+  cleared: z.boolean().optional().default(true)
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid input', details: error.errors });
+  }
+  const statusCode = (error as ApiError).statusCode;
+  if (statusCode) {
+    return res.status(statusCode).json({ error: (error as ApiError).message });
+  }
+  res.status(500).json({ error: fallback });
+}
+
+// Get reconciliations
+router.get('/reconciliations', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const reconciliations = await reconciliationService.getReconciliations(
+      req.user!.id,
+      req.user!.organizationId,
+      req.query.assetId as string | undefined
+    );
+
+    res.json({ reconciliations });
+  } catch (error) {
+    console.error('Get reconciliations error:', error);
+    handleError(res, error, 'Failed to fetch reconciliations');
+  }
+});
+
+// Get reconciliation with cleared/uncleared transactions and the outstanding difference
+router.get('/reconciliations/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const summary = await reconciliationService.getSummary(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    if (!summary) {
+      return res.status(404).json({ error: 'Reconciliation not found' });
+    }
+
+    res.json(summary);
+  } catch (error) {
+    console.error('Get reconciliation error:', error);
+    handleError(res, error, 'Failed to fetch reconciliation');
+  }
+});
+
+// Start a reconciliation against a bank statement
+router.post('/reconciliations', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = startReconciliationSchema.parse(req.body);
+
+    const reconciliation = await reconciliationService.startReconciliation(
+      req.user!.id,
+      req.user!.organizationId,
+      data
+    );
+
+    if (!reconciliation) {
+      return res.status(403).json({ error: 'No access to this asset' });
+    }
+
+    res.status(201).json({ reconciliation });
+  } catch (error) {
+    console.error('Start reconciliation error:', error);
+    handleError(res, error, 'Failed to start reconciliation');
+  }
+});
+
+// Mark transactions cleared or uncleared
+router.post('/reconciliations/:id/clear', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { transactionIds, cleared } = clearSchema.parse(req.body);
+
+    const summary = await reconciliationService.setCleared(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      transactionIds,
+      cleared
+    );
+
+    if (!summary) {
+      return res.status(404).json({ error: 'Reconciliation not found' });
+    }
+
+    res.json(summary);
+  } catch (error) {
+    console.error('Clear transactions error:', error);
+    handleError(res, error, 'Failed to update cleared transactions');
+  }
+});
+
+// Complete a balanced reconciliation and lock its transactions
+router.post('/reconciliations/:id/complete', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const summary = await reconciliationService.complete(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    if (!summary) {
+      return res.status(404).json({ error: 'Reconciliation not found' });
+    }
+
+    res.json(summary);
+  } catch (error) {
+    console.error('Complete reconciliation error:', error);
+    handleError(res, error, 'Failed to complete reconciliation');
+  }
+});
+
+// Reopen a completed reconciliation, unlocking its transactions
+router.post('/reconciliations/:id/reopen', authenticate, authorize(['OWNER', 'ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const reconciliation = await reconciliationService.reopen(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    if (!reconciliation) {
+      return res.status(404).json({ error: 'Reconciliation not found' });
+    }
+
+    res.json({ reconciliation });
+  } catch (error) {
+    console.error('Reopen reconciliation error:', error);
+    handleError(res, error, 'Failed to reopen reconciliation');
+  }
+});
+
+// Discard an in-progress reconciliation
+router.delete('/reconciliations/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const deleted = await reconciliationService.deleteReconciliation(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Reconciliation not found' });
+    }
+
+    res.json({ message: 'Reconciliation deleted successfully' });
+  } catch (error) {
+    console.error('Delete reconciliation error:', error);
+    handleError(res, error, 'Failed to delete reconciliation');
+  }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { DetectionStatus } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { RecurringDetectionService } from '../services/recurring/recurring-detection.service';
+import { prisma } from '../lib/prisma';
+
+const router = Router();
+const detectionService = new RecurringDetectionService(prisma);
+
+// Get detected recurrences
+router.get('/recurring-detections', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const status = req.query.status as DetectionStatus | undefined;
+
+    const detections = await detectionService.getDetections(
+      req.user!.id,
+      req.user!.organizationId,
+      status
+    );
+
+    res.json({ detections });
+  } catch (error) {
+    console.error('Get detections error:', error);
+    res.status(500).json({ error: 'Failed to fetch detected recurrences' });
+  }
+});
+
+// Scan transaction history for recurring payments and income
+router.post('/recurring-detections/scan', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const detections = await detectionService.scan(req.user!.id, req.user!.organizationId);
+
+    res.json({ detections });
+  } catch (error) {
+    console.error('Scan recurrences error:', error);
+    res.status(500).json({ error: 'Failed to scan for recurring transactions' });
+  }
+});
+
+// Accept a detection so forecasts treat it as a fixed cost
+router.post('/recurring-detections/:id/accept', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const detection = await detectionService.setStatus(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      'ACCEPTED'
+    );
+
+    res.json({ detection });
+  } catch (error) {
+    console.error('Accept detection error:', error);
+    if (error instanceof Error && error.message === 'Detection not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to accept detection' });
+  }
+});
+
+// Dismiss a detection
+router.post('/recurring-detections/:id/dismiss', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const detection = await detectionService.setStatus(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      'DISMISSED'
+    );
+
+    res.json({ detection });
+  } catch (error) {
+    console.error('Dismiss detection error:', error);
+    if (error instanceof Error && error.message === 'Detection not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to dismiss detection' });
+  }
+});
+
+export default router;
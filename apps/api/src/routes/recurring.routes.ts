@@ -0,0 +1,215 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { TransactionType, RecurrenceFrequency } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { RecurringTransactionService } from '../services/recurring/recurring-transaction.service';
+import { prisma } from '../lib/prisma';
+
+const router = Router();
+const recurringService = new RecurringTransactionService(prisma);
+
+// Validation schemas
+const createRecurringSchema = z.object({
+  name: z.string().min(1),
+  type: z.nativeEnum(TransactionType),
+  category: z.string(),
+  amount: z.number().positive(),
+  description: z.string().optional(),
+  frequency: z.nativeEnum(RecurrenceFrequency),
+  interval: z.number().int().min(1).max(365).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+  assetId: z.string(),
+  toAssetId: z.string().optional()
+});
+
+const updateRecurringSchema = createRecurringSchema.partial().extend({
+  isActive: z.boolean().optional()
+});
+
+const occurrenceSchema = z.object({
+  skip: z.boolean().optional(),
+  amount: z.number().positive().optional(),
+  category: z.string().optional(),
+  description: z.string().optional()
+});
+
+// Get recurring transactions
+router.get('/recurring-transactions', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const recurring = await recurringService.getRecurring(req.user!.id, req.user!.organizationId);
+
+    res.json({ recurring });
+  } catch (error) {
+    console.error('Get recurring transactions error:', error);
+    res.status(500).json({ error: 'Failed to fetch recurring transactions' });
+  }
+});
+
+// Get upcoming occurrences across all recurring transactions
+router.get('/recurring-transactions/upcoming', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const days = Math.min(parseInt(req.query.days as string) || 30, 366);
+
+    const upcoming = await recurringService.getUpcoming(req.user!.id, req.user!.organizationId, days);
+
+    res.json({ upcoming, days });
+  } catch (error) {
+    console.error('Get upcoming occurrences error:', error);
+    res.status(500).json({ error: 'Failed to fetch upcoming occurrences' });
+  }
+});
+
+// Get single recurring transaction
+router.get('/recurring-transactions/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const recurring = await recurringService.getRecurringById(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    if (!recurring) {
+      return res.status(404).json({ error: 'Recurring transaction not found' });
+    }
+
+    res.json({ recurring });
+  } catch (error) {
+    console.error('Get recurring transaction error:', error);
+    res.status(500).json({ error: 'Failed to fetch recurring transaction' });
+  }
+});
+
+// Preview the next occurrences of a recurring transaction
+router.get('/recurring-transactions/:id/occurrences', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const count = Math.min(parseInt(req.query.count as string) || 12, 100);
+
+    const recurring = await recurringService.getRecurringById(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    if (!recurring) {
+      return res.status(404).json({ error: 'Recurring transaction not found' });
+    }
+
+    const occurrences = await recurringService.previewOccurrences(recurring, count);
+
+    res.json({ occurrences });
+  } catch (error) {
+    console.error('Preview occurrences error:', error);
+    res.status(500).json({ error: 'Failed to preview occurrences' });
+  }
+});
+
+// Create recurring transaction
+router.post('/recurring-transactions', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = createRecurringSchema.parse(req.body);
+
+    const recurring = await recurringService.createRecurring(
+      req.user!.id,
+      req.user!.organizationId,
+      data
+    );
+
+    if (!recurring) {
+      return res.status(403).json({ error: 'No access to this asset' });
+    }
+
+    res.status(201).json({ recurring });
+  } catch (error) {
+    console.error('Create recurring transaction error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    if (error instanceof Error && error.message.startsWith('Recurring transfers')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to create recurring transaction' });
+  }
+});
+
+// Update recurring transaction
+router.put('/recurring-transactions/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = updateRecurringSchema.parse(req.body);
+
+    const recurring = await recurringService.updateRecurring(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      data
+    );
+
+    res.json({ recurring });
+  } catch (error) {
+    console.error('Update recurring transaction error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    if (error instanceof Error && error.message === 'Recurring transaction not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.startsWith('Assets of a recurring')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to update recurring transaction' });
+  }
+});
+
+// Skip or modify a single occurrence (date is YYYY-MM-DD)
+router.put('/recurring-transactions/:id/occurrences/:date', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = occurrenceSchema.parse(req.body);
+
+    const occurrence = await recurringService.setOccurrence(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      req.params.date,
+      data
+    );
+
+    res.json({ occurrence });
+  } catch (error) {
+    console.error('Update occurrence error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    if (error instanceof Error && error.message === 'Recurring transaction not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.includes('is not an occurrence')) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.startsWith('Occurrence is already posted')) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to update occurrence' });
+  }
+});
+
+// Delete recurring transaction, posted transactions are kept
+router.delete('/recurring-transactions/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await recurringService.deleteRecurring(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    res.json({ message: 'Recurring transaction deleted successfully' });
+  } catch (error) {
+    console.error('Delete recurring transaction error:', error);
+    if (error instanceof Error && error.message === 'Recurring transaction not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to delete recurring transaction' });
+  }
+});
+
+export default router;
@@ -0,0 +1,193 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { TransactionType } from '@prisma/client';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { CategorizationRuleService } from '../services/rules/categorization-rule.service';
+import { prisma } from '../lib/prisma';
+
+const router = Router();
+const ruleService = new CategorizationRuleService(prisma);
+
+// Validation schemas
+const ruleSchema = z.object({
+  name: z.string().min(1),
+  priority: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+  descriptionContains: z.string().min(1).nullable().optional(),
+  descriptionRegex: z.string().min(1).refine(pattern => {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid regular expression').nullable().optional(),
+  minAmount: z.number().nonnegative().nullable().optional(),
+  maxAmount: z.number().nonnegative().nullable().optional(),
+  transactionType: z.nativeEnum(TransactionType).nullable().optional(),
+  assetId: z.string().nullable().optional(),
+  category: z.string().min(1).nullable().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  counterparty: z.string().min(1).nullable().optional()
+});
+
+const createRuleSchema = ruleSchema
+  .refine(
+    rule => rule.descriptionContains || rule.descriptionRegex || rule.minAmount != null ||
+      rule.maxAmount != null || rule.transactionType || rule.assetId,
+    'A rule needs at least one condition'
+  )
+  .refine(
+    rule => rule.category || rule.counterparty || (rule.tags && rule.tags.length > 0),
+    'A rule needs a category, tags or counterparty to set'
+  );
+
+const updateRuleSchema = ruleSchema.partial();
+
+const reapplySchema = z.object({
+  ruleIds: z.array(z.string()).min(1).optional(),
+  assetId: z.string().optional()
+});
+
+// Get rules in the order they are applied
+router.get('/rules', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const rules = await ruleService.getRules(req.user!.id, req.user!.organizationId);
+
+    res.json({ rules });
+  } catch (error) {
+    console.error('Get rules error:', error);
+    res.status(500).json({ error: 'Failed to fetch rules' });
+  }
+});
+
+// Preview which existing transactions a draft rule would change
+router.post('/rules/dry-run', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const rule = createRuleSchema.parse(req.body);
+
+    const result = await ruleService.dryRun(req.user!.id, req.user!.organizationId, rule);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Rule dry run error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to preview rule' });
+  }
+});
+
+// Re-apply active rules to existing transactions
+router.post('/rules/apply', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const options = reapplySchema.parse(req.body);
+
+    const result = await ruleService.reapply(req.user!.id, req.user!.organizationId, options);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Apply rules error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to apply rules' });
+  }
+});
+
+// Get a single rule
+router.get('/rules/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const rule = await ruleService.getRuleById(req.params.id, req.user!.id, req.user!.organizationId);
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    res.json({ rule });
+  } catch (error) {
+    console.error('Get rule error:', error);
+    res.status(500).json({ error: 'Failed to fetch rule' });
+  }
+});
+
+// Preview which existing transactions a saved rule would change
+router.get('/rules/:id/dry-run', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const rule = await ruleService.getRuleById(req.params.id, req.user!.id, req.user!.organizationId);
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    const result = await ruleService.dryRun(req.user!.id, req.user!.organizationId, rule);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Rule dry run error:', error);
+    res.status(500).json({ error: 'Failed to preview rule' });
+  }
+});
+
+// Create rule
+router.post('/rules', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = createRuleSchema.parse(req.body);
+
+    const rule = await ruleService.createRule(req.user!.id, req.user!.organizationId, data);
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+
+    res.status(201).json({ rule });
+  } catch (error) {
+    console.error('Create rule error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to create rule' });
+  }
+});
+
+// Update rule
+router.put('/rules/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = updateRuleSchema.parse(req.body);
+
+    const rule = await ruleService.updateRule(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      data
+    );
+
+    res.json({ rule });
+  } catch (error) {
+    console.error('Update rule error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    if (error instanceof Error && (error.message === 'Rule not found' || error.message === 'Asset not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to update rule' });
+  }
+});
+
+// Delete rule
+router.delete('/rules/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await ruleService.deleteRule(req.params.id, req.user!.id, req.user!.organizationId);
+
+    res.json({ message: 'Rule deleted successfully' });
+  } catch (error) {
+    console.error('Delete rule error:', error);
+    if (error instanceof Error && error.message === 'Rule not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to delete rule' });
+  }
+});
+
+export default router;
@@ -2,9 +2,13 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { PrismaClient, TransactionType } from '@prisma/client';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { LedgerService } from '../services/ledger/ledger.service';
+import { LocalCategorizerService } from '../services/ai/local-categorizer.service';
 
 const router = Router();
 const prisma = new PrismaClient();
+const ledgerService = new LedgerService(prisma);
+const localCategorizer = new LocalCategorizerService(prisma);
 
 // Transaction validation schema
 const createTransactionSchema = z.object({
@@ -120,6 +124,14 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
   try {
     const data = createTransactionSchema.parse(req.body);
 
+    // Transfers need both legs, which only the transfers API creates
+    if (data.type === 'TRANSFER') {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Use POST /api/transfers to move money between assets'
+      });
+    }
+
     // Verify asset access
     const asset = await prisma.asset.findFirst({
       where: {
@@ -169,6 +181,9 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
       data: { amount: newAmount.toString() }
     });
 
+    // Ledger-mode assets derive their balance from the transactions instead
+    await ledgerService.syncBalance(data.assetId);
+
     res.status(201).json({
       message: 'Transaction created',
       data: { transaction }
@@ -190,7 +205,7 @@ router.put('/:id', authenticate, async (req: AuthRequest, res, next) => {
         organizationId: req.user!.organizationId,
         userId: req.user!.id
       },
-      include: { asset: true }
+      include: { asset: true, reconciliation: true }
     });
 
     if (!existing) {
@@ -200,6 +215,20 @@ router.put('/:id', authenticate, async (req: AuthRequest, res, next) => {
       });
     }
 
+    if (existing.reconciliation?.status === 'COMPLETED') {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Transaction is locked by a completed statement reconciliation'
+      });
+    }
+
+    if (existing.transferId || data.type === 'TRANSFER') {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Transfer legs can only be changed through /api/transfers'
+      });
+    }
+
     // Revert the original transaction's effect on asset
     const oldAmount = parseFloat(existing.amount.toString());
     const currentAssetAmount = parseFloat(existing.asset.amount.toString());
@@ -235,6 +264,18 @@ router.put('/:id', authenticate, async (req: AuthRequest, res, next) => {
       data: { amount: revertedAmount.toString() }
     });
 
+    await ledgerService.syncBalance(existing.assetId);
+
+    // Manual category edits train the local categorizer
+    if (data.category && data.category !== existing.category) {
+      await localCategorizer.recordManualCategory(
+        existing.id,
+        req.user!.organizationId,
+        existing.category,
+        data.category
+      );
+    }
+
     res.json({
       message: 'Transaction updated',
       data: { transaction }
@@ -254,7 +295,7 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res, next) => {
         organizationId: req.user!.organizationId,
         userId: req.user!.id
       },
-      include: { asset: true }
+      include: { asset: true, reconciliation: true }
     });
 
     if (!transaction) {
@@ -264,6 +305,20 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res, next) => {
       });
     }
 
+    if (transaction.reconciliation?.status === 'COMPLETED') {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Transaction is locked by a completed statement reconciliation'
+      });
+    }
+
+    if (transaction.transferId) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Transfer legs can only be deleted through /api/transfers'
+      });
+    }
+
     // Revert transaction effect on asset balance
     const amount = parseFloat(transaction.amount.toString());
     const currentAmount = parseFloat(transaction.asset.amount.toString());
@@ -285,6 +340,8 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res, next) => {
       })
     ]);
 
+    await ledgerService.syncBalance(transaction.assetId);
+
     res.json({
       message: 'Transaction deleted'
     });
@@ -0,0 +1,184 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { TransferService } from '../services/transfers/transfer.service';
+import { prisma } from '../lib/prisma';
+
+const router = Router();
+const transferService = new TransferService(prisma);
+
+// Validation schemas
+const createTransferSchema = z.object({
+  fromAssetId: z.string(),
+  toAssetId: z.string(),
+  sentAmount: z.number().positive(),
+  receivedAmount: z.number().positive(),
+  fee: z.number().nonnegative().optional(),
+  date: z.coerce.date(),
+  description: z.string().optional()
+});
+
+const transferQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  currency: z.string().length(3).optional()
+});
+
+// Get transfers
+router.get('/transfers', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { from, to } = transferQuerySchema.parse(req.query);
+
+    const transfers = await transferService.getTransfers(
+      req.user!.id,
+      req.user!.organizationId,
+      { from, to }
+    );
+
+    res.json({ transfers });
+  } catch (error) {
+    console.error('Get transfers error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to fetch transfers' });
+  }
+});
+
+// Get realized FX cost of cross-currency transfers
+router.get('/transfers/fx-report', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { from, to, currency } = transferQuerySchema.parse(req.query);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { preferredCurrency: true }
+    });
+
+    const report = await transferService.getFxReport(
+      req.user!.id,
+      req.user!.organizationId,
+      {
+        from,
+        to,
+        currency: (currency || user?.preferredCurrency || 'AUD').toUpperCase()
+      }
+    );
+
+    res.json(report);
+  } catch (error) {
+    console.error('Get FX report error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to build FX report' });
+  }
+});
+
+// Get single transfer with both legs
+router.get('/transfers/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const transfer = await transferService.getTransferById(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    if (!transfer) {
+      return res.status(404).json({ error: 'Transfer not found' });
+    }
+
+    res.json({ transfer });
+  } catch (error) {
+    console.error('Get transfer error:', error);
+    res.status(500).json({ error: 'Failed to fetch transfer' });
+  }
+});
+
+// Create transfer
+router.post('/transfers', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = createTransferSchema.parse(req.body);
+
+    if (data.fromAssetId === data.toAssetId) {
+      return res.status(400).json({ error: 'Cannot transfer to the same asset' });
+    }
+
+    const transfer = await transferService.createTransfer(
+      req.user!.id,
+      req.user!.organizationId,
+      data
+    );
+
+    if (!transfer) {
+      return res.status(403).json({ error: 'No access to one of the assets' });
+    }
+
+    res.status(201).json({ transfer });
+  } catch (error) {
+    console.error('Create transfer error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to create transfer' });
+  }
+});
+
+// Update transfer and both legs
+router.put('/transfers/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const data = createTransferSchema.partial().parse(req.body);
+
+    const transfer = await transferService.updateTransfer(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId,
+      data
+    );
+
+    if (!transfer) {
+      return res.status(403).json({ error: 'No access to one of the assets' });
+    }
+
+    res.json({ transfer });
+  } catch (error) {
+    console.error('Update transfer error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    if (error instanceof Error && error.message === 'Transfer not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.startsWith('Transfer is locked')) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message === 'Cannot transfer to the same asset') {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to update transfer' });
+  }
+});
+
+// Delete transfer and both legs
+router.delete('/transfers/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await transferService.deleteTransfer(
+      req.params.id,
+      req.user!.id,
+      req.user!.organizationId
+    );
+
+    res.json({ message: 'Transfer deleted successfully' });
+  } catch (error) {
+    console.error('Delete transfer error:', error);
+    if (error instanceof Error && error.message === 'Transfer not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.startsWith('Transfer is locked')) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to delete transfer' });
+  }
+});
+
+export default router;
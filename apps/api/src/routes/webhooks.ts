@@ -2,12 +2,14 @@ import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import Stripe from 'stripe';
 import { logger } from '../utils/logger';
+import { BankingService } from '../services/banking/banking.service';
 
 const router = Router();
 const prisma = new PrismaClient();
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16'
 });
+const bankingService = new BankingService(prisma);
 
 // Stripe webhook
 router.post('/stripe', async (req, res) => {
@@ -67,6 +69,24 @@ router.post('/stripe', async (req, res) => {
   }
 });
 
+// Bank provider webhooks, verified by the provider
+router.post('/banking/:provider', async (req, res) => {
+  try {
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const affected = await bankingService.handleWebhook(req.params.provider, body, req.headers);
+    res.json({ received: true, connections: affected });
+  } catch (error: any) {
+    logger.error(`Bank webhook error: ${error.message}`);
+    if (error.message.includes('Unsupported bank provider')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.startsWith('Invalid webhook')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Webhook handler failed' });
+  }
+});
+
 // Webhook handlers
 async function handleCheckoutComplete(session: Stripe.Checkout.Session) {
   const organizationId = session.metadata?.organizationId;
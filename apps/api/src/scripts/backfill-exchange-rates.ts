@@ -0,0 +1,65 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { prisma } from '../lib/prisma';
+import { redis } from '../lib/redis';
+import { exchangeRateService, SUPPORTED_CURRENCIES } from '../services/currency/exchange-rate.service';
+
+/**
+ * Backfill historical exchange rates into the ExchangeRate table
+ *
+ * Usage:
+ *   npm run rates:backfill -- --from=2024-01-01 --to=2024-12-31 --bases=AUD,MNT,USD
+ *
+ * --from defaults to the earliest transaction date, --to to today and
+ * --bases to every supported currency.
+ */
+function parseArgs(): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of process.argv.slice(2)) {
+    const [key, value] = arg.replace(/^--/, '').split('=');
+    args[key] = value;
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs();
+
+  let from: Date;
+  if (args.from) {
+    from = new Date(args.from);
+  } else {
+    const earliest = await prisma.transaction.findFirst({
+      orderBy: { date: 'asc' },
+      select: { date: true }
+    });
+    from = earliest?.date || new Date();
+  }
+
+  const to = args.to ? new Date(args.to) : new Date();
+  const bases = args.bases ? args.bases.split(',').map(b => b.trim().toUpperCase()) : SUPPORTED_CURRENCIES;
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new Error('--from and --to must be dates in YYYY-MM-DD format');
+  }
+
+  console.log(`Backfilling exchange rates from ${from.toISOString().split('T')[0]} to ${to.toISOString().split('T')[0]}...`);
+
+  for (const base of bases) {
+    const result = await exchangeRateService.backfillRates(base, from, to);
+    console.log(`✓ ${base}: ${result.fetched} fetched, ${result.skipped} already stored, ${result.failed} failed`);
+  }
+
+  console.log('Exchange rate backfill complete');
+}
+
+main()
+  .catch((error) => {
+    console.error('Exchange rate backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    redis.disconnect();
+  });
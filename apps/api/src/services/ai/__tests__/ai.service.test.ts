@@ -0,0 +1,94 @@
+import { PrismaClient } from '@prisma/client';
+import { AIService, modelSettingsSchema } from '../ai.service';
+import { FakeLLMProvider } from '../llm-providers';
+
+// The shared rate service connects to Redis and the database when loaded
+jest.mock('../../currency/exchange-rate.service', () => ({ exchangeRateService: {} }));
+
+// Just the queries categorization makes, the organization has no provider chosen
+function createPrisma() {
+  return {
+    organization: { findUnique: jest.fn().mockResolvedValue({ aiProvider: null, aiModel: null }) },
+    transaction: { groupBy: jest.fn().mockResolvedValue([]) },
+    aICategorizationHistory: { createMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    aIUsage: { create: jest.fn().mockResolvedValue({}) }
+  };
+}
+
+const transactions = [
+  { id: 'tx1', description: 'Woolworths Sydney', amount: '54.20', type: 'EXPENSE' as const, date: new Date('2026-10-01') },
+  { id: 'tx2', description: 'Salary', amount: '3200.00', type: 'INCOME' as const, date: new Date('2026-10-02') }
+];
+
+describe('AIService.categorizeTransactions', () => {
+  const previousProvider = process.env.LLM_PROVIDER;
+
+  beforeAll(() => {
+    process.env.LLM_PROVIDER = 'openai';
+  });
+
+  afterAll(() => {
+    process.env.LLM_PROVIDER = previousProvider;
+  });
+
+  it('returns validated suggestions for the requested transactions only', async () => {
+    const prisma = createPrisma();
+    const provider = new FakeLLMProvider(() => JSON.stringify({
+      categorizations: [
+        { transactionId: 'tx1', suggestedCategory: 'Groceries', confidence: 0.92 },
+        { transactionId: 'tx2', suggestedCategory: 'Salary', confidence: 0.99, reasoning: 'Payroll' },
+        { transactionId: 'other', suggestedCategory: 'Shopping', confidence: 0.5 }
+      ]
+    }));
+    const service = new AIService(prisma as unknown as PrismaClient, [provider]);
+
+    const results = await service.categorizeTransactions(transactions, 'user1', 'org1');
+
+    expect(results.map(result => result.transactionId)).toEqual(['tx1', 'tx2']);
+    expect(provider.requests[0].json).toBe(true);
+    expect(prisma.aICategorizationHistory.createMany).toHaveBeenCalled();
+    expect(prisma.aIUsage.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ provider: 'openai', feature: 'categorize' })
+    }));
+  });
+
+  it('accepts JSON wrapped in a code fence', async () => {
+    const provider = new FakeLLMProvider(() =>
+      '```json\n{"categorizations":[{"transactionId":"tx1","suggestedCategory":"Groceries","confidence":0.8}]}\n```'
+    );
+    const service = new AIService(createPrisma() as unknown as PrismaClient, [provider]);
+
+    const results = await service.categorizeTransactions(transactions, 'user1', 'org1');
+
+    expect(results).toEqual([{ transactionId: 'tx1', suggestedCategory: 'Groceries', confidence: 0.8 }]);
+  });
+
+  it.each([
+    ['is not JSON', 'Groceries, probably'],
+    ['misses the categorizations array', '{"results":[]}'],
+    ['has a confidence above 1', '{"categorizations":[{"transactionId":"tx1","suggestedCategory":"Groceries","confidence":1.5}]}'],
+    ['has an empty category', '{"categorizations":[{"transactionId":"tx1","suggestedCategory":"","confidence":0.5}]}']
+  ])('rejects a response that %s', async (_, content) => {
+    const prisma = createPrisma();
+    const service = new AIService(prisma as unknown as PrismaClient, [new FakeLLMProvider(() => content)]);
+
+    await expect(service.categorizeTransactions(transactions, 'user1', 'org1')).rejects.toThrow('Failed to categorize transactions');
+    expect(prisma.aICategorizationHistory.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('modelSettingsSchema', () => {
+  it('accepts a selectable provider with an optional model', () => {
+    expect(modelSettingsSchema.parse({ provider: 'anthropic' })).toEqual({ provider: 'anthropic' });
+    expect(modelSettingsSchema.parse({ provider: 'local', model: null })).toEqual({ provider: 'local', model: null });
+  });
+
+  it('rejects the fake provider and unknown ones', () => {
+    expect(modelSettingsSchema.safeParse({ provider: 'fake' }).success).toBe(false);
+    expect(modelSettingsSchema.safeParse({ provider: 'gpt' }).success).toBe(false);
+  });
+
+  it('rejects an empty model name', () => {
+    expect(modelSettingsSchema.safeParse({ provider: 'openai', model: '' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { FakeLLMProvider, LLM_PROVIDER_NAMES, createLLMProvider } from '../llm-providers';
+import { LLMProviderName } from '../llm-providers';
+
+describe('FakeLLMProvider', () => {
+  it('answers JSON requests with an empty object by default', async () => {
+    const provider = new FakeLLMProvider();
+
+    const response = await provider.complete({
+      model: 'fake-model',
+      messages: [{ role: 'user', content: 'hello' }],
+      json: true
+    });
+
+    expect(response.content).toBe('{}');
+    expect(response.model).toBe('fake-model');
+  });
+
+  it('answers with the handler result and keeps every request', async () => {
+    const provider = new FakeLLMProvider(request => `echo: ${request.messages[0].content}`);
+
+    const response = await provider.complete({ model: 'm', messages: [{ role: 'user', content: 'abc' }] });
+
+    expect(response.content).toBe('echo: abc');
+    expect(response.usage).toEqual({ inputTokens: 3, outputTokens: 9 });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('stands in for the provider it is named after', () => {
+    expect(new FakeLLMProvider().name).toBe('openai');
+    expect(new FakeLLMProvider(undefined, 'anthropic').name).toBe('anthropic');
+    expect(new FakeLLMProvider().isConfigured()).toBe(true);
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('creates every selectable provider', () => {
+    for (const name of LLM_PROVIDER_NAMES) {
+      expect(createLLMProvider(name).name).toBe(name);
+    }
+  });
+
+  it('does not offer the fake provider', () => {
+    expect(LLM_PROVIDER_NAMES).not.toContain('fake');
+    expect(() => createLLMProvider('fake' as LLMProviderName)).toThrow('Unknown LLM provider: fake');
+  });
+});
@@ -0,0 +1,173 @@
+import { PrismaClient, Prisma, PricingPlan, AIUsage } from '@prisma/client';
+import { startOfMonth, addMonths, format } from 'date-fns';
+
+export type AIFeature = 'categorize' | 'insights' | 'budget' | 'ask';
+
+interface AIQuota {
+  requests: number | null; // null means unlimited
+  tokens: number | null;
+}
+
+// Monthly LLM allowance per plan, calls answered by the local categorizer are free
+export const AI_MONTHLY_QUOTAS: Record<PricingPlan, AIQuota> = {
+  STARTER: { requests: 100, tokens: 200000 },
+  FAMILY: { requests: 500, tokens: 1000000 },
+  PREMIUM: { requests: 2000, tokens: 5000000 },
+  ENTERPRISE: { requests: null, tokens: null }
+};
+
+// USD per million tokens, matched on the longest model name prefix
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 }
+};
+
+interface QuotaStatus {
+  plan: PricingPlan;
+  allowed: boolean;
+  requests: { used: number; limit: number | null };
+  tokens: { used: number; limit: number | null };
+  resetsAt: Date;
+}
+
+/**
+ * AI Usage Service
+ *
+ * Meters every LLM call per organization with its token counts and
+ * estimated cost, and checks the calendar-month quota of the
+ * organization's pricing plan before new calls are made.
+ */
+export class AIUsageService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record one LLM call
+   * Local providers are recorded at zero cost.
+   */
+  async record(usage: {
+    organizationId: string;
+    userId?: string;
+    feature: AIFeature;
+    provider: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+  }): Promise<AIUsage> {
+    const cost = ['openai', 'anthropic'].includes(usage.provider)
+      ? this.estimateCost(usage.model, usage.inputTokens, usage.outputTokens)
+      : 0;
+
+    return this.prisma.aIUsage.create({
+      data: { ...usage, cost: new Prisma.Decimal(cost.toFixed(6)) }
+    });
+  }
+
+  /**
+   * Usage of the current calendar month against the plan's quota
+   */
+  async getQuotaStatus(organizationId: string): Promise<QuotaStatus> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { plan: true }
+    });
+
+    const plan = organization?.plan || 'STARTER';
+    const quota = AI_MONTHLY_QUOTAS[plan];
+    const monthStart = startOfMonth(new Date());
+
+    const usage = await this.prisma.aIUsage.aggregate({
+      where: { organizationId, createdAt: { gte: monthStart } },
+      _count: true,
+      _sum: { inputTokens: true, outputTokens: true }
+    });
+
+    const requests = usage._count;
+    const tokens = (usage._sum.inputTokens || 0) + (usage._sum.outputTokens || 0);
+
+    return {
+      plan,
+      allowed: (quota.requests === null || requests < quota.requests) &&
+        (quota.tokens === null || tokens < quota.tokens),
+      requests: { used: requests, limit: quota.requests },
+      tokens: { used: tokens, limit: quota.tokens },
+      resetsAt: addMonths(monthStart, 1)
+    };
+  }
+
+  /**
+   * Usage report for a period, broken down by feature, model, user and day
+   */
+  async getReport(organizationId: string, from: Date, to: Date) {
+    const where = { organizationId, createdAt: { gte: from, lte: to } };
+    const sums = { cost: true, inputTokens: true, outputTokens: true } as const;
+
+    const [totals, byFeature, byModel, byUser, rows] = await Promise.all([
+      this.prisma.aIUsage.aggregate({ where, _count: true, _sum: sums }),
+      this.prisma.aIUsage.groupBy({ by: ['feature'], where, _count: true, _sum: sums }),
+      this.prisma.aIUsage.groupBy({ by: ['provider', 'model'], where, _count: true, _sum: sums }),
+      this.prisma.aIUsage.groupBy({ by: ['userId'], where, _count: true, _sum: sums }),
+      this.prisma.aIUsage.findMany({
+        where,
+        select: { createdAt: true, cost: true, inputTokens: true, outputTokens: true }
+      })
+    ]);
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: byUser.map(u => u.userId).filter((id): id is string => !!id) } },
+      select: { id: true, name: true, email: true }
+    });
+
+    const daily = new Map<string, { requests: number; tokens: number; cost: number }>();
+    for (const row of rows) {
+      const day = format(row.createdAt, 'yyyy-MM-dd');
+      const entry = daily.get(day) || { requests: 0, tokens: 0, cost: 0 };
+      entry.requests++;
+      entry.tokens += row.inputTokens + row.outputTokens;
+      entry.cost += row.cost.toNumber();
+      daily.set(day, entry);
+    }
+
+    const summarize = (group: { _count: number; _sum: { cost: Prisma.Decimal | null; inputTokens: number | null; outputTokens: number | null } }) => ({
+      requests: group._count,
+      inputTokens: group._sum.inputTokens || 0,
+      outputTokens: group._sum.outputTokens || 0,
+      cost: Math.round((group._sum.cost?.toNumber() || 0) * 10000) / 10000
+    });
+
+    return {
+      period: { from, to },
+      currency: 'USD',
+      totals: summarize(totals),
+      byFeature: byFeature.map(group => ({ feature: group.feature, ...summarize(group) })),
+      byModel: byModel.map(group => ({ provider: group.provider, model: group.model, ...summarize(group) })),
+      byUser: byUser.map(group => ({
+        user: users.find(u => u.id === group.userId) || null,
+        ...summarize(group)
+      })),
+      daily: Array.from(daily.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, entry]) => ({ date, ...entry, cost: Math.round(entry.cost * 10000) / 10000 })),
+      quota: await this.getQuotaStatus(organizationId)
+    };
+  }
+
+  private estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+    const prefix = Object.keys(MODEL_PRICES)
+      .filter(name => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+
+    if (!prefix) {
+      return 0;
+    }
+
+    const price = MODEL_PRICES[prefix];
+    return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+  }
+}
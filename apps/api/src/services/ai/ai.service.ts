@@ -0,0 +1,504 @@
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { logger } from '../../utils/logger';
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLM_PROVIDER_NAMES,
+  createLLMProvider
+} from './llm-providers';
+import { AIUsageService, AIFeature } from './ai-usage.service';
+import { FinanceQueryService, FinanceQuery, financeQuerySchema, PERIOD_PRESETS } from './finance-query.service';
+
+interface TransactionForCategorization {
+  id: string;
+  description: string;
+  amount: string;
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER';
+  date: Date;
+  currentCategory?: string;
+}
+
+export interface CategorizationResult {
+  transactionId: string;
+  suggestedCategory: string;
+  confidence: number;
+  reasoning?: string;
+}
+
+// Who a call is made for, so its usage is metered
+interface AICallContext {
+  organizationId: string;
+  userId: string;
+  feature: AIFeature;
+}
+
+export interface AIModelSettings {
+  provider: LLMProviderName;
+  model: string;
+}
+
+// Model output is untrusted until it matches these
+const categorizationResponseSchema = z.object({
+  categorizations: z.array(z.object({
+    transactionId: z.string(),
+    suggestedCategory: z.string().min(1),
+    confidence: z.number().min(0).max(1),
+    reasoning: z.string().optional()
+  }))
+});
+
+const budgetResponseSchema = z.object({
+  budget: z.record(z.number().nonnegative())
+});
+
+// Provider and model an organization may choose
+export const modelSettingsSchema = z.object({
+  provider: z.enum(LLM_PROVIDER_NAMES as [LLMProviderName, ...LLMProviderName[]]),
+  model: z.string().min(1).nullable().optional()
+});
+
+const askResponseSchema = z.object({
+  query: financeQuerySchema.nullable(),
+  reason: z.string().optional() // Why a question cannot be answered
+});
+
+/**
+ * AI Service
+ *
+ * Categorization, insights and budget suggestions on top of a pluggable
+ * LLM provider. Each organization picks its provider and model, falling
+ * back to LLM_PROVIDER and the provider's default model.
+ */
+export class AIService {
+  private providers: Map<LLMProviderName, LLMProvider>;
+  private usageService: AIUsageService;
+  private financeQueryService: FinanceQueryService;
+
+  /**
+   * @param providers - Replace environment-configured providers of the same name, e.g. with a FakeLLMProvider in tests
+   */
+  constructor(private prisma: PrismaClient, providers: LLMProvider[] = []) {
+    this.usageService = new AIUsageService(prisma);
+    this.financeQueryService = new FinanceQueryService(prisma);
+    this.providers = new Map(LLM_PROVIDER_NAMES.map(name => [name, createLLMProvider(name)]));
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+    }
+  }
+
+  /**
+   * Whether the organization's provider can be called
+   */
+  async isConfigured(organizationId: string): Promise<boolean> {
+    const { provider } = await this.getModelSettings(organizationId);
+    return this.providers.get(provider)!.isConfigured();
+  }
+
+  async getModelSettings(organizationId: string): Promise<AIModelSettings> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { aiProvider: true, aiModel: true }
+    });
+
+    const fallback = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName;
+    const provider = (organization?.aiProvider || fallback) as LLMProviderName;
+    if (!this.providers.has(provider)) {
+      throw new Error(`Unknown LLM provider: ${provider}`);
+    }
+
+    return {
+      provider,
+      model: organization?.aiModel || this.providers.get(provider)!.defaultModel
+    };
+  }
+
+  /**
+   * Choose the organization's provider and model
+   * A null model resets to the provider's default.
+   */
+  async updateModelSettings(
+    organizationId: string,
+    settings: { provider: LLMProviderName; model?: string | null }
+  ): Promise<AIModelSettings> {
+    await this.prisma.organization.update({
+      where: { id: organizationId },
+      data: { aiProvider: settings.provider, aiModel: settings.model || null }
+    });
+
+    return this.getModelSettings(organizationId);
+  }
+
+  async categorizeTransactions(
+    transactions: TransactionForCategorization[],
+    userId: string,
+    organizationId: string
+  ): Promise<CategorizationResult[]> {
+    try {
+      // Get user's historical categorization patterns for better context
+      const historicalCategories = await this.getUserCategorizationPatterns(userId);
+      
+      // Prepare the prompt
+      const prompt = this.buildCategorizationPrompt(transactions, historicalCategories);
+      
+      const { data, response } = await this.completeJson({ organizationId, userId, feature: 'categorize' }, {
+        messages: [
+          {
+            role: 'system',
+            content: `You are a financial transaction categorization expert. Categorize transactions based on their descriptions and amounts. 
+            For INCOME transactions, use categories like: Salary, Business, Investment, Rental, Gift, Other Income.
+            For EXPENSE transactions, use categories like: Rent, Mortgage, Groceries, Utilities, Transport, Healthcare, Education, Childcare, Entertainment, Shopping, Insurance, Taxes, Other.
+            Provide your response as a JSON array with transactionId, suggestedCategory, confidence (0-1), and reasoning.`
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        temperature: 0.3
+      }, categorizationResponseSchema);
+
+      // Drop suggestions for transactions that were not asked about
+      const requested = new Set(transactions.map(t => t.id));
+      const results: CategorizationResult[] = data.categorizations.filter(r => requested.has(r.transactionId));
+      
+      // Store categorization history
+      await this.storeCategorizationHistory(results, userId, organizationId, response.model, prompt);
+      
+      return results;
+    } catch (error) {
+      logger.error('AI categorization error:', error);
+      throw new Error('Failed to categorize transactions');
+    }
+  }
+
+  async generateFinancialInsights(
+    userId: string,
+    organizationId: string,
+    timeframe: 'monthly' | 'quarterly' | 'yearly' = 'monthly'
+  ): Promise<string> {
+    try {
+      // Get user's financial data
+      const financialSummary = await this.getFinancialSummary(userId, organizationId, timeframe);
+      
+      const response = await this.complete({ organizationId, userId, feature: 'insights' }, {
+        messages: [
+          {
+            role: 'system',
+            content: `You are a personal financial advisor. Analyze the user's financial data and provide actionable insights, 
+            identifying spending patterns, savings opportunities, and budget recommendations. Keep advice practical and specific.`
+          },
+          {
+            role: 'user',
+            content: `Analyze my ${timeframe} financial data and provide insights:\n${JSON.stringify(financialSummary, null, 2)}`
+          }
+        ],
+        temperature: 0.7,
+        maxTokens: 500
+      });
+
+      return response.content || 'Unable to generate insights';
+    } catch (error) {
+      logger.error('AI insights error:', error);
+      throw new Error('Failed to generate insights');
+    }
+  }
+
+  async suggestBudget(
+    userId: string,
+    organizationId: string,
+    income: number,
+    currency: string
+  ): Promise<Record<string, number>> {
+    try {
+      const historicalSpending = await this.getHistoricalSpending(userId, organizationId);
+      
+      const { data } = await this.completeJson({ organizationId, userId, feature: 'budget' }, {
+        messages: [
+          {
+            role: 'system',
+            content: `You are a budget planning expert. Based on the user's income and spending history, 
+            suggest a practical monthly budget allocation. Consider the 50/30/20 rule but adjust based on actual patterns.
+            Return a JSON object with a "budget" object that has category names as keys and suggested amounts as values.`
+          },
+          {
+            role: 'user',
+            content: `Monthly income: ${currency} ${income}\nHistorical spending:\n${JSON.stringify(historicalSpending, null, 2)}\n\nSuggest a monthly budget.`
+          }
+        ],
+        temperature: 0.3
+      }, budgetResponseSchema);
+
+      return data.budget;
+    } catch (error) {
+      logger.error('AI budget suggestion error:', error);
+      throw new Error('Failed to suggest budget');
+    }
+  }
+
+  /**
+   * Answer a question about the caller's finances
+   * The model only translates the question into a FinanceQuery; the query is
+   * validated and run by FinanceQueryService with the caller's scoping.
+   *
+   * @returns The answer with its supporting numbers and the query used, or
+   * the model's reason when the question cannot be expressed as a query
+   */
+  async ask(question: string, userId: string, organizationId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { familyId: true, preferredCurrency: true }
+    });
+
+    const caller = {
+      userId,
+      organizationId,
+      familyId: user?.familyId || null,
+      preferredCurrency: user?.preferredCurrency || 'AUD'
+    };
+    const vocabulary = await this.financeQueryService.getVocabulary(caller);
+
+    try {
+      const { data } = await this.completeJson({ organizationId, userId, feature: 'ask' }, {
+        messages: [
+          {
+            role: 'system',
+            content: `You translate questions about personal finances into a JSON query. Never write SQL or code.
+            Respond with {"query": {...}} or, when the question cannot be answered with this query, {"query": null, "reason": "..."}.
+            Query fields:
+            - measure: "total" | "count" | "average" | "list" | "net_worth"
+            - transactionType: "INCOME" | "EXPENSE" | null (spending is EXPENSE)
+            - categories, countries (ISO 3166 alpha-2), currencies, assetIds: arrays of values from the context, or null
+            - descriptionContains: merchant or text to match, or null
+            - period: {"preset": ${PERIOD_PRESETS.map(p => `"${p}"`).join(' | ')} | null, "from": "YYYY-MM-DD" | null, "to": "YYYY-MM-DD" | null}
+            - groupBy: "category" | "month" | "asset" | "country" | null
+            - reportingCurrency: ISO 4217 code the answer should be in, or null for the user's currency
+            - scope: "family" for questions about "we" or "our" when the user has a family, otherwise "personal"
+            Map places to the country of the assets, e.g. a city to its country code.`
+          },
+          {
+            role: 'user',
+            content: `Today: ${new Date().toISOString().split('T')[0]}\nContext:\n${JSON.stringify(vocabulary)}\n\nQuestion: ${question}`
+          }
+        ],
+        temperature: 0
+      }, askResponseSchema);
+
+      if (!data.query) {
+        return { answered: false as const, reason: data.reason || 'The question cannot be answered from your transactions' };
+      }
+
+      const query: FinanceQuery = data.query;
+      const result = await this.financeQueryService.run(query, caller);
+
+      return { answered: true as const, ...result, query };
+    } catch (error) {
+      logger.error('AI ask error:', error);
+      throw new Error('Failed to answer the question');
+    }
+  }
+
+  /**
+   * Send a completion to the organization's provider and model, metering its usage
+   */
+  private async complete(
+    context: AICallContext,
+    request: Omit<LLMRequest, 'model'>
+  ): Promise<LLMResponse> {
+    const settings = await this.getModelSettings(context.organizationId);
+    const provider = this.providers.get(settings.provider)!;
+
+    if (!provider.isConfigured()) {
+      throw new Error(`AI provider ${settings.provider} not configured`);
+    }
+
+    const response = await provider.complete({ ...request, model: settings.model });
+
+    // Metering failures must not lose a response that was already paid for
+    try {
+      await this.usageService.record({
+        ...context,
+        provider: provider.name,
+        model: response.model,
+        ...response.usage
+      });
+    } catch (error) {
+      logger.error('AI usage recording error:', error);
+    }
+
+    return response;
+  }
+
+  /**
+   * Send a completion that must answer with JSON matching a schema
+   */
+  private async completeJson<S extends z.ZodTypeAny>(
+    context: AICallContext,
+    request: Omit<LLMRequest, 'model' | 'json'>,
+    schema: S
+  ): Promise<{ data: z.infer<S>; response: LLMResponse }> {
+    const response = await this.complete(context, { ...request, json: true });
+
+    // Models without a JSON mode sometimes wrap the object in a code fence
+    const content = response.content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error(`AI response from ${response.model} is not valid JSON`);
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      logger.warn(`AI response from ${response.model} failed validation:`, result.error.errors);
+      throw new Error(`AI response from ${response.model} does not match the expected format`);
+    }
+
+    return { data: result.data, response };
+  }
+
+  private buildCategorizationPrompt(
+    transactions: TransactionForCategorization[],
+    historicalPatterns: any
+  ): string {
+    const transactionList = transactions.map(t => ({
+      id: t.id,
+      description: t.description,
+      amount: t.amount,
+      type: t.type,
+      date: t.date.toISOString().split('T')[0]
+    }));
+
+    return `Categorize these transactions based on their descriptions and types.
+Historical patterns for context: ${JSON.stringify(historicalPatterns)}
+
+Transactions to categorize:
+${JSON.stringify(transactionList, null, 2)}
+
+Return a JSON object with a "categorizations" array containing objects with transactionId, suggestedCategory, confidence (0-1), and reasoning.`;
+  }
+
+  private async getUserCategorizationPatterns(userId: string): Promise<any> {
+    // Get the most common categories used by the user
+    const patterns = await this.prisma.transaction.groupBy({
+      by: ['category', 'type'],
+      where: { userId },
+      _count: { category: true },
+      orderBy: { _count: { category: 'desc' } },
+      take: 20
+    });
+
+    return patterns.reduce((acc, pattern) => {
+      if (!acc[pattern.type]) acc[pattern.type] = [];
+      acc[pattern.type].push({
+        category: pattern.category,
+        count: pattern._count.category
+      });
+      return acc;
+    }, {} as Record<string, any[]>);
+  }
+
+  private async storeCategorizationHistory(
+    results: CategorizationResult[],
+    userId: string,
+    organizationId: string,
+    model: string,
+    prompt: string
+  ): Promise<void> {
+    const categorizationHistory = results.map(result => ({
+      transactionId: result.transactionId,
+      suggestedCategory: result.suggestedCategory,
+      confidence: result.confidence,
+      model,
+      prompt,
+      response: { reasoning: result.reasoning }
+    }));
+
+    await this.prisma.aICategorizationHistory.createMany({
+      data: categorizationHistory
+    });
+  }
+
+  private async getFinancialSummary(
+    userId: string,
+    organizationId: string,
+    timeframe: 'monthly' | 'quarterly' | 'yearly'
+  ): Promise<any> {
+    const now = new Date();
+    let startDate: Date;
+    
+    switch (timeframe) {
+      case 'monthly':
+        startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+        break;
+      case 'quarterly':
+        startDate = new Date(now.getFullYear(), now.getMonth() - 3, 1);
+        break;
+      case 'yearly':
+        startDate = new Date(now.getFullYear() - 1, now.getMonth(), 1);
+        break;
+    }
+
+    // Get transactions summary
+    const transactions = await this.prisma.transaction.groupBy({
+      by: ['type', 'category'],
+      where: {
+        userId,
+        organizationId,
+        date: { gte: startDate }
+      },
+      _sum: { amount: true },
+      _count: true
+    });
+
+    // Get assets summary
+    const assets = await this.prisma.asset.groupBy({
+      by: ['type', 'currency'],
+      where: { userId, organizationId },
+      _sum: { amount: true },
+      _count: true
+    });
+
+    return {
+      timeframe,
+      startDate: startDate.toISOString().split('T')[0],
+      endDate: now.toISOString().split('T')[0],
+      transactions,
+      assets,
+      totalIncome: transactions
+        .filter(t => t.type === 'INCOME')
+        .reduce((sum, t) => sum + (t._sum.amount?.toNumber() || 0), 0),
+      totalExpenses: transactions
+        .filter(t => t.type === 'EXPENSE')
+        .reduce((sum, t) => sum + (t._sum.amount?.toNumber() || 0), 0)
+    };
+  }
+
+  private async getHistoricalSpending(
+    userId: string,
+    organizationId: string
+  ): Promise<Record<string, number>> {
+    const threeMonthsAgo = new Date();
+    threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+
+    const spending = await this.prisma.transaction.groupBy({
+      by: ['category'],
+      where: {
+        userId,
+        organizationId,
+        type: 'EXPENSE',
+        transferId: null,
+        date: { gte: threeMonthsAgo }
+      },
+      _avg: { amount: true }
+    });
+
+    return spending.reduce((acc, item) => {
+      acc[item.category] = item._avg.amount?.toNumber() || 0;
+      return acc;
+    }, {} as Record<string, number>);
+  }
+}
\ No newline at end of file
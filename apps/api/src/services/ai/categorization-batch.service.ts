@@ -0,0 +1,89 @@
+import { PrismaClient } from '@prisma/client';
+import { AIService, CategorizationResult } from './ai.service';
+import { LocalCategorizerService } from './local-categorizer.service';
+
+// Local suggestions at or above this confidence skip the LLM provider
+const LOCAL_MIN_CONFIDENCE = parseFloat(process.env.LOCAL_CATEGORIZER_MIN_CONFIDENCE || '0.85');
+
+export interface BatchCategorization extends CategorizationResult {
+  source: 'local' | 'ai';
+}
+
+/**
+ * Categorization Batch Service
+ *
+ * Suggests categories for a batch of transactions, the given ones or the
+ * latest still in Other/Other Income. Confident local suggestions are used
+ * as they are and the rest go to the LLM provider when it is configured;
+ * without it, or with localOnly, every local suggestion is returned.
+ */
+export class CategorizationBatchService {
+  private aiService: AIService;
+  private localCategorizer: LocalCategorizerService;
+
+  constructor(private prisma: PrismaClient) {
+    this.aiService = new AIService(prisma);
+    this.localCategorizer = new LocalCategorizerService(prisma);
+  }
+
+  async categorize(
+    userId: string,
+    organizationId: string,
+    options: { transactionIds?: string[]; limit: number; localOnly?: boolean }
+  ): Promise<BatchCategorization[]> {
+    // Get uncategorized or specified transactions
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        userId,
+        organizationId,
+        ...(options.transactionIds ? { id: { in: options.transactionIds } } : {
+          OR: [
+            { category: 'Other' },
+            { category: 'Other Income' }
+          ]
+        })
+      },
+      select: {
+        id: true,
+        description: true,
+        amount: true,
+        type: true,
+        date: true,
+        category: true
+      },
+      take: options.limit,
+      orderBy: { date: 'desc' }
+    });
+
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    const aiConfigured = !options.localOnly && await this.aiService.isConfigured(organizationId);
+    const localResults = await this.localCategorizer.categorize(transactions, organizationId);
+    const localAccepted = aiConfigured
+      ? localResults.filter(r => r.confidence >= LOCAL_MIN_CONFIDENCE)
+      : localResults;
+    await this.localCategorizer.storeHistory(localAccepted);
+
+    const localIds = new Set(localAccepted.map(r => r.transactionId));
+    const remaining = transactions.filter(t => !localIds.has(t.id));
+
+    const aiResults = aiConfigured && remaining.length > 0
+      ? await this.aiService.categorizeTransactions(
+          remaining.map(t => ({
+            ...t,
+            amount: t.amount.toString(),
+            currentCategory: t.category
+          })) as any,
+          userId,
+          organizationId
+        )
+      : [];
+
+    return [
+      ...localAccepted.map(r => ({ ...r, source: 'local' as const })),
+      ...aiResults.map(r => ({ ...r, source: 'ai' as const }))
+    ];
+  }
+}
@@ -0,0 +1,328 @@
+import { PrismaClient, Prisma, Asset } from '@prisma/client';
+import {
+  startOfMonth,
+  endOfMonth,
+  startOfQuarter,
+  endOfQuarter,
+  startOfYear,
+  endOfYear,
+  subMonths,
+  subQuarters,
+  subYears,
+  subDays,
+  startOfDay,
+  endOfDay,
+  format
+} from 'date-fns';
+import { z } from 'zod';
+import { NetWorthService } from '../analytics/net-worth.service';
+import { exchangeRateService } from '../currency/exchange-rate.service';
+
+// Transactions loaded for one question
+const MAX_ROWS = 10000;
+const LIST_LIMIT = 20;
+
+export const PERIOD_PRESETS = [
+  'this_month',
+  'last_month',
+  'this_quarter',
+  'last_quarter',
+  'this_year',
+  'last_year',
+  'last_30_days',
+  'last_90_days',
+  'last_12_months',
+  'all_time'
+] as const;
+
+/**
+ * Structured query a model may produce from a question
+ * Only these fields exist, so nothing the model writes reaches the
+ * database except as a filter value.
+ */
+export const financeQuerySchema = z.object({
+  measure: z.enum(['total', 'count', 'average', 'list', 'net_worth']),
+  transactionType: z.enum(['INCOME', 'EXPENSE']).nullable().default(null),
+  categories: z.array(z.string()).nullable().default(null),
+  countries: z.array(z.string().length(2)).nullable().default(null),
+  currencies: z.array(z.string().length(3)).nullable().default(null),
+  assetIds: z.array(z.string()).nullable().default(null),
+  descriptionContains: z.string().nullable().default(null),
+  period: z.object({
+    preset: z.enum(PERIOD_PRESETS).nullable().default(null),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().default(null),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().default(null)
+  }).default({}),
+  groupBy: z.enum(['category', 'month', 'asset', 'country']).nullable().default(null),
+  reportingCurrency: z.string().length(3).nullable().default(null),
+  scope: z.enum(['personal', 'family']).default('personal')
+});
+
+export type FinanceQuery = z.infer<typeof financeQuerySchema>;
+
+interface QueryCaller {
+  userId: string;
+  organizationId: string;
+  familyId: string | null;
+  preferredCurrency: string;
+}
+
+interface FinanceQueryResult {
+  answer: string;
+  value: number;
+  currency: string;
+  period: { from: string | null; to: string };
+  transactionCount: number;
+  groups?: Array<{ key: string; value: number; count: number }>;
+  transactions?: Array<{ id: string; date: string; description: string | null; category: string; amount: number; currency: string; convertedAmount: number }>;
+}
+
+/**
+ * Finance Query Service
+ *
+ * Runs structured questions over the caller's transactions and assets.
+ * Every query is scoped to the assets the caller can see, "family" scope
+ * only widens net worth to the whole family. Amounts are converted into the
+ * reporting currency at the rate of each transaction's month.
+ */
+export class FinanceQueryService {
+  private netWorthService: NetWorthService;
+
+  constructor(private prisma: PrismaClient) {
+    this.netWorthService = new NetWorthService(prisma);
+  }
+
+  /**
+   * Names a model may use as filter values: the caller's categories,
+   * countries, currencies and assets
+   */
+  async getVocabulary(caller: QueryCaller) {
+    const assets = await this.getScopedAssets(caller);
+
+    const categories = await this.prisma.transaction.groupBy({
+      by: ['category'],
+      where: { organizationId: caller.organizationId, assetId: { in: assets.map(a => a.id) } },
+      _count: true,
+      orderBy: { _count: { category: 'desc' } },
+      take: 100
+    });
+
+    return {
+      categories: categories.map(c => c.category),
+      countries: Array.from(new Set(assets.map(a => a.country))),
+      currencies: Array.from(new Set(assets.map(a => a.currency))),
+      assets: assets.map(a => ({ id: a.id, name: a.name, type: a.type, country: a.country, currency: a.currency })),
+      hasFamily: !!caller.familyId
+    };
+  }
+
+  async run(query: FinanceQuery, caller: QueryCaller): Promise<FinanceQueryResult> {
+    const currency = (query.reportingCurrency || caller.preferredCurrency).toUpperCase();
+    const scope = query.scope === 'family' && caller.familyId ? 'family' : 'personal';
+
+    if (query.measure === 'net_worth') {
+      const netWorth = await this.netWorthService.calculateNetWorth(
+        { userId: caller.userId, organizationId: caller.organizationId, familyId: scope === 'family' ? caller.familyId! : undefined },
+        currency
+      );
+
+      return {
+        answer: `${scope === 'family' ? 'Your family\'s' : 'Your'} net worth is ${this.money(netWorth.netWorth, currency)}.`,
+        value: netWorth.netWorth,
+        currency,
+        period: { from: null, to: format(new Date(), 'yyyy-MM-dd') },
+        transactionCount: 0,
+        groups: Object.entries(netWorth.byCountry).map(([key, value]) => ({ key, value, count: 0 }))
+      };
+    }
+
+    const assets = (await this.getScopedAssets(caller)).filter(asset =>
+      (!query.countries || query.countries.some(c => c.toUpperCase() === asset.country.toUpperCase())) &&
+      (!query.currencies || query.currencies.some(c => c.toUpperCase() === asset.currency.toUpperCase())) &&
+      (!query.assetIds || query.assetIds.includes(asset.id))
+    );
+    const assetById = new Map(assets.map(asset => [asset.id, asset]));
+    const { from, to } = this.resolvePeriod(query.period);
+
+    const where: Prisma.TransactionWhereInput = {
+      organizationId: caller.organizationId,
+      assetId: { in: assets.map(a => a.id) },
+      transferId: null,
+      type: query.transactionType || { in: ['INCOME', 'EXPENSE'] },
+      date: { ...(from && { gte: from }), lte: to },
+      ...(query.categories && {
+        OR: query.categories.map(category => ({ category: { equals: category, mode: 'insensitive' as const } }))
+      }),
+      ...(query.descriptionContains && {
+        description: { contains: query.descriptionContains, mode: 'insensitive' as const }
+      })
+    };
+
+    const rows = await this.prisma.transaction.findMany({
+      where,
+      select: { id: true, type: true, date: true, description: true, category: true, amount: true, currency: true, assetId: true },
+      orderBy: { date: 'desc' },
+      take: MAX_ROWS
+    });
+
+    // One rate per currency and month keeps long periods to a few lookups
+    const rateKey = (row: { currency: string; date: Date }) => `${row.currency}|${format(row.date, 'yyyy-MM')}`;
+    const rates = new Map<string, number>();
+    await Promise.all(Array.from(new Set(rows.map(rateKey))).map(async key => {
+      const [rowCurrency, month] = key.split('|');
+      rates.set(key, await this.getMonthRate(rowCurrency, currency, month, caller.organizationId));
+    }));
+
+    const converted = [];
+    for (const row of rows) {
+      const amount = row.amount.toNumber() * rates.get(rateKey(row))!;
+      // Income adds and expenses subtract when both types are included
+      converted.push({ ...row, convertedAmount: query.transactionType || row.type === 'INCOME' ? amount : -amount });
+    }
+
+    const total = converted.reduce((sum, row) => sum + row.convertedAmount, 0);
+    let value: number;
+    switch (query.measure) {
+      case 'count':
+        value = converted.length;
+        break;
+      case 'average':
+        value = converted.length > 0 ? total / converted.length : 0;
+        break;
+      default:
+        value = total;
+    }
+
+    const result: FinanceQueryResult = {
+      answer: '',
+      value: Math.round(value * 100) / 100,
+      currency,
+      period: { from: from ? format(from, 'yyyy-MM-dd') : null, to: format(to, 'yyyy-MM-dd') },
+      transactionCount: converted.length
+    };
+
+    if (query.groupBy) {
+      const groups = new Map<string, { value: number; count: number }>();
+      for (const row of converted) {
+        const asset = assetById.get(row.assetId)!;
+        const key = {
+          category: row.category,
+          month: format(row.date, 'yyyy-MM'),
+          asset: asset.name,
+          country: asset.country
+        }[query.groupBy];
+        const group = groups.get(key) || { value: 0, count: 0 };
+        group.value += row.convertedAmount;
+        group.count++;
+        groups.set(key, group);
+      }
+      result.groups = Array.from(groups.entries())
+        .map(([key, group]) => ({ key, value: Math.round(group.value * 100) / 100, count: group.count }))
+        .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+    }
+
+    if (query.measure === 'list') {
+      result.transactions = [...converted]
+        .sort((a, b) => Math.abs(b.convertedAmount) - Math.abs(a.convertedAmount))
+        .slice(0, LIST_LIMIT)
+        .map(row => ({
+          id: row.id,
+          date: format(row.date, 'yyyy-MM-dd'),
+          description: row.description,
+          category: row.category,
+          amount: row.amount.toNumber(),
+          currency: row.currency,
+          convertedAmount: Math.round(Math.abs(row.convertedAmount) * 100) / 100
+        }));
+    }
+
+    result.answer = this.describe(query, result);
+    return result;
+  }
+
+  private describe(query: FinanceQuery, result: FinanceQueryResult): string {
+    const filters = [
+      query.categories && `on ${query.categories.join(', ')}`,
+      query.descriptionContains && `matching "${query.descriptionContains}"`,
+      query.countries && `in ${query.countries.join(', ')}`
+    ].filter(Boolean).join(' ');
+    const period = result.period.from ? `between ${result.period.from} and ${result.period.to}` : `up to ${result.period.to}`;
+    const what = query.transactionType === 'INCOME' ? 'income' : query.transactionType === 'EXPENSE' ? 'spending' : 'net cash flow';
+
+    switch (query.measure) {
+      case 'count':
+        return `${result.value} ${what} transactions ${filters} ${period}.`.replace(/\s+/g, ' ');
+      case 'average':
+        return `Average ${what} per transaction ${filters} ${period} was ${this.money(result.value, result.currency)} over ${result.transactionCount} transactions.`.replace(/\s+/g, ' ');
+      case 'list':
+        return `Largest ${what} transactions ${filters} ${period}, ${result.transactionCount} in total.`.replace(/\s+/g, ' ');
+      default:
+        return `Total ${what} ${filters} ${period} was ${this.money(result.value, result.currency)} across ${result.transactionCount} transactions.`.replace(/\s+/g, ' ');
+    }
+  }
+
+  private resolvePeriod(period: FinanceQuery['period']): { from: Date | null; to: Date } {
+    const now = new Date();
+
+    switch (period.preset) {
+      case 'this_month':
+        return { from: startOfMonth(now), to: endOfDay(now) };
+      case 'last_month':
+        return { from: startOfMonth(subMonths(now, 1)), to: endOfMonth(subMonths(now, 1)) };
+      case 'this_quarter':
+        return { from: startOfQuarter(now), to: endOfDay(now) };
+      case 'last_quarter':
+        return { from: startOfQuarter(subQuarters(now, 1)), to: endOfQuarter(subQuarters(now, 1)) };
+      case 'this_year':
+        return { from: startOfYear(now), to: endOfDay(now) };
+      case 'last_year':
+        return { from: startOfYear(subYears(now, 1)), to: endOfYear(subYears(now, 1)) };
+      case 'last_30_days':
+        return { from: startOfDay(subDays(now, 30)), to: endOfDay(now) };
+      case 'last_90_days':
+        return { from: startOfDay(subDays(now, 90)), to: endOfDay(now) };
+      case 'last_12_months':
+        return { from: startOfDay(subMonths(now, 12)), to: endOfDay(now) };
+      case 'all_time':
+        return { from: null, to: endOfDay(now) };
+    }
+
+    return {
+      from: period.from ? startOfDay(new Date(period.from)) : startOfMonth(now),
+      to: period.to ? endOfDay(new Date(period.to)) : endOfDay(now)
+    };
+  }
+
+  /**
+   * Assets whose transactions the caller may see: their own and the shared
+   * family assets. Other members' personal assets stay private, as in the
+   * transactions and assets routes.
+   */
+  private async getScopedAssets(caller: QueryCaller): Promise<Asset[]> {
+    return this.prisma.asset.findMany({
+      where: {
+        organizationId: caller.organizationId,
+        OR: [
+          { userId: caller.userId },
+          { family: { members: { some: { id: caller.userId } } } }
+        ]
+      }
+    });
+  }
+
+  /**
+   * Rate for a month, today's rate when the month has none
+   */
+  private async getMonthRate(from: string, to: string, month: string, organizationId: string): Promise<number> {
+    try {
+      return (await exchangeRateService.getQuote(from, to, { date: new Date(`${month}-01`), organizationId })).rate;
+    } catch (error) {
+      console.warn(`No ${from}/${to} rate for ${month}, using the latest:`, error instanceof Error ? error.message : error);
+      return (await exchangeRateService.getQuote(from, to, { organizationId })).rate;
+    }
+  }
+
+  private money(amount: number, currency: string): string {
+    return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+}
@@ -0,0 +1,253 @@
+import OpenAI from 'openai';
+import axios from 'axios';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'local'];
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON object as the response
+}
+
+export interface LLMResponse {
+  content: string;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+/**
+ * LLM Provider
+ *
+ * Sends one chat completion to a language model. Providers only translate
+ * the request and response format; prompts, response validation and
+ * history live in the AIService.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+
+  /**
+   * Whether the provider has what it needs (API key, server URL) to be called
+   */
+  isConfigured(): boolean;
+
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// Completions can take a while, especially on local hardware
+const REQUEST_TIMEOUT_MS = 60000;
+
+/**
+ * OpenAI provider through the official SDK
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly defaultModel = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
+  private client: OpenAI | null;
+
+  constructor(apiKey: string | undefined = process.env.OPENAI_API_KEY) {
+    this.client = apiKey ? new OpenAI({ apiKey, timeout: REQUEST_TIMEOUT_MS }) : null;
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.client) {
+      throw new Error('OpenAI provider not configured');
+    }
+
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: 'json_object' as const } })
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model,
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens || 0,
+        outputTokens: completion.usage?.completion_tokens || 0
+      }
+    };
+  }
+}
+
+/**
+ * Anthropic Messages API provider
+ *
+ * Works with any server exposing the same /v1/messages endpoint through
+ * ANTHROPIC_BASE_URL. There is no JSON mode, so JSON requests get an
+ * instruction appended to the system prompt.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel = process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest';
+
+  constructor(
+    private apiKey: string | undefined = process.env.ANTHROPIC_API_KEY,
+    private baseUrl: string = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.apiKey) {
+      throw new Error('Anthropic provider not configured');
+    }
+
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .concat(request.json ? ['Respond with a single JSON object and nothing else.'] : [])
+      .join('\n\n');
+
+    const response = await axios.post(
+      `${this.baseUrl}/v1/messages`,
+      {
+        model: request.model,
+        system: system || undefined,
+        messages: request.messages.filter(message => message.role !== 'system'),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens || 1024
+      },
+      {
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01',
+          'content-type': 'application/json'
+        },
+        timeout: REQUEST_TIMEOUT_MS
+      }
+    );
+
+    const text = (response.data?.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      content: text,
+      model: response.data?.model || request.model,
+      usage: {
+        inputTokens: response.data?.usage?.input_tokens || 0,
+        outputTokens: response.data?.usage?.output_tokens || 0
+      }
+    };
+  }
+}
+
+/**
+ * Local model server with an OpenAI-compatible chat completions endpoint,
+ * e.g. Ollama (http://localhost:11434) or the llama.cpp server
+ */
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly defaultModel = process.env.LOCAL_LLM_MODEL || 'llama3';
+
+  constructor(private baseUrl: string | undefined = process.env.LOCAL_LLM_URL) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.baseUrl) {
+      throw new Error('Local LLM provider not configured');
+    }
+
+    const response = await axios.post(
+      `${this.baseUrl.replace(/\/$/, '')}/v1/chat/completions`,
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: false,
+        ...(request.json && { response_format: { type: 'json_object' } })
+      },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    return {
+      content: response.data?.choices?.[0]?.message?.content || '',
+      model: response.data?.model || request.model,
+      usage: {
+        inputTokens: response.data?.usage?.prompt_tokens || 0,
+        outputTokens: response.data?.usage?.completion_tokens || 0
+      }
+    };
+  }
+}
+
+/**
+ * Deterministic provider for tests
+ *
+ * Stands in for a real provider by name and is only ever passed to the
+ * AIService constructor, so organizations cannot choose it. Answers with
+ * the handler's result, by default an empty JSON object for JSON requests
+ * and a fixed sentence otherwise. Every request is kept in `requests` for
+ * assertions.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly defaultModel = 'fake-model';
+  readonly requests: LLMRequest[] = [];
+
+  constructor(
+    private handler: (request: LLMRequest) => string = request =>
+      request.json ? '{}' : 'This is a fake response.',
+    readonly name: LLMProviderName = 'openai'
+  ) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    const content = this.handler(request);
+
+    return {
+      content,
+      model: request.model,
+      usage: {
+        inputTokens: request.messages.reduce((sum, message) => sum + message.content.length, 0),
+        outputTokens: content.length
+      }
+    };
+  }
+}
+
+/**
+ * Create a provider by name
+ *   openai     - OPENAI_API_KEY, default model OPENAI_MODEL (gpt-3.5-turbo)
+ *   anthropic  - ANTHROPIC_API_KEY, optional ANTHROPIC_BASE_URL, default model ANTHROPIC_MODEL
+ *   local      - OpenAI-compatible server at LOCAL_LLM_URL, default model LOCAL_LLM_MODEL (llama3)
+ */
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'local':
+      return new LocalLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
@@ -0,0 +1,230 @@
+import { PrismaClient, TransactionType } from '@prisma/client';
+import { logger } from '../../utils/logger';
+
+export const LOCAL_CATEGORIZER_MODEL = 'local-naive-bayes';
+
+// Retrain at most this often per organization unless feedback invalidates the model
+const MODEL_TTL_MS = 15 * 60 * 1000;
+const MAX_TRAINING_EXAMPLES = 5000;
+// Categories backed by fewer accepted examples get proportionally lower confidence
+const FULL_CONFIDENCE_EXAMPLES = 5;
+
+// Tokens that say nothing about the category
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'to', 'of', 'pos', 'eftpos', 'visa', 'debit', 'credit', 'card',
+  'purchase', 'payment', 'transfer', 'ref', 'reference', 'txn', 'pty', 'ltd', 'inc', 'www', 'com'
+]);
+
+interface CategoryCounts {
+  examples: number;
+  tokens: Map<string, number>;
+  totalTokens: number;
+}
+
+interface NaiveBayesModel {
+  categories: Map<string, CategoryCounts>;
+  vocabulary: Set<string>;
+  examples: number;
+}
+
+interface TrainedModels {
+  byType: Map<TransactionType, NaiveBayesModel>;
+  trainedAt: number;
+}
+
+export interface LocalCategorization {
+  transactionId: string;
+  suggestedCategory: string;
+  confidence: number;
+  reasoning?: string;
+}
+
+// Shared across service instances so feedback from any route retrains the model
+const models = new Map<string, TrainedModels>();
+
+/**
+ * Local Categorizer Service
+ *
+ * Multinomial naive Bayes over description tokens, trained per
+ * organization and transaction type on accepted categorization history
+ * (accepted AI suggestions and manual category edits). Needs no API key or
+ * network, so it backs categorization when no LLM provider is configured
+ * and answers confident cases before the provider is asked.
+ */
+export class LocalCategorizerService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Suggest categories for transactions
+   * Transactions with no known tokens get no suggestion.
+   */
+  async categorize(
+    transactions: Array<{ id: string; description: string | null; type: TransactionType }>,
+    organizationId: string
+  ): Promise<LocalCategorization[]> {
+    const trained = await this.getModels(organizationId);
+    const results: LocalCategorization[] = [];
+
+    for (const tx of transactions) {
+      const model = trained.byType.get(tx.type);
+      if (!model) continue;
+
+      const prediction = this.predict(model, this.tokenize(tx.description));
+      if (!prediction) continue;
+
+      results.push({
+        transactionId: tx.id,
+        suggestedCategory: prediction.category,
+        confidence: Math.round(prediction.confidence * 100) / 100,
+        reasoning: `Matches ${prediction.examples} previously accepted ${prediction.category} transactions`
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Store suggestions in the categorization history so feedback on them
+   * is recorded like feedback on LLM suggestions
+   */
+  async storeHistory(results: LocalCategorization[]): Promise<void> {
+    if (results.length === 0) return;
+
+    await this.prisma.aICategorizationHistory.createMany({
+      data: results.map(result => ({
+        transactionId: result.transactionId,
+        suggestedCategory: result.suggestedCategory,
+        confidence: result.confidence,
+        model: LOCAL_CATEGORIZER_MODEL,
+        response: { reasoning: result.reasoning }
+      }))
+    });
+  }
+
+  /**
+   * Record a category the user set by hand as an accepted example
+   */
+  async recordManualCategory(
+    transactionId: string,
+    organizationId: string,
+    originalCategory: string,
+    category: string
+  ): Promise<void> {
+    await this.prisma.aICategorizationHistory.create({
+      data: {
+        transactionId,
+        originalCategory,
+        suggestedCategory: category,
+        confidence: 1,
+        accepted: true,
+        userFeedback: 'correct',
+        model: 'manual'
+      }
+    });
+
+    this.invalidate(organizationId);
+  }
+
+  /**
+   * Drop an organization's trained model so the next request retrains it
+   */
+  invalidate(organizationId: string): void {
+    models.delete(organizationId);
+  }
+
+  private async getModels(organizationId: string): Promise<TrainedModels> {
+    const cached = models.get(organizationId);
+    if (cached && Date.now() - cached.trainedAt < MODEL_TTL_MS) {
+      return cached;
+    }
+
+    const trained = await this.train(organizationId);
+    models.set(organizationId, trained);
+    return trained;
+  }
+
+  private async train(organizationId: string): Promise<TrainedModels> {
+    // The transaction's current category is the label, users may accept a
+    // suggestion with a different category than suggested
+    const history = await this.prisma.aICategorizationHistory.findMany({
+      where: { accepted: true, transaction: { organizationId } },
+      select: {
+        transactionId: true,
+        transaction: { select: { description: true, type: true, category: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_TRAINING_EXAMPLES
+    });
+
+    const byType = new Map<TransactionType, NaiveBayesModel>();
+    const seen = new Set<string>();
+
+    for (const { transactionId, transaction } of history) {
+      if (seen.has(transactionId)) continue;
+      seen.add(transactionId);
+
+      const tokens = this.tokenize(transaction.description);
+      if (tokens.length === 0) continue;
+
+      let model = byType.get(transaction.type);
+      if (!model) {
+        model = { categories: new Map(), vocabulary: new Set(), examples: 0 };
+        byType.set(transaction.type, model);
+      }
+
+      let counts = model.categories.get(transaction.category);
+      if (!counts) {
+        counts = { examples: 0, tokens: new Map(), totalTokens: 0 };
+        model.categories.set(transaction.category, counts);
+      }
+
+      counts.examples++;
+      model.examples++;
+      for (const token of tokens) {
+        counts.tokens.set(token, (counts.tokens.get(token) || 0) + 1);
+        counts.totalTokens++;
+        model.vocabulary.add(token);
+      }
+    }
+
+    logger.info(`Trained local categorizer for organization ${organizationId} on ${seen.size} examples`);
+
+    return { byType, trainedAt: Date.now() };
+  }
+
+  private predict(
+    model: NaiveBayesModel,
+    tokens: string[]
+  ): { category: string; confidence: number; examples: number } | null {
+    const known = tokens.filter(token => model.vocabulary.has(token));
+    if (known.length === 0) {
+      return null;
+    }
+
+    // Log-likelihoods with Laplace smoothing, normalized with softmax
+    const scores: Array<{ category: string; score: number; examples: number }> = [];
+    for (const [category, counts] of model.categories) {
+      let score = Math.log(counts.examples / model.examples);
+      for (const token of known) {
+        score += Math.log(((counts.tokens.get(token) || 0) + 1) / (counts.totalTokens + model.vocabulary.size));
+      }
+      scores.push({ category, score, examples: counts.examples });
+    }
+
+    const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+    const total = scores.reduce((sum, s) => sum + Math.exp(s.score - best.score), 0);
+
+    const support = Math.min(1, best.examples / FULL_CONFIDENCE_EXAMPLES);
+
+    return { category: best.category, confidence: support / total, examples: best.examples };
+  }
+
+  // Letters of any script, so Mongolian descriptions are learned too
+  private tokenize(description: string | null): string[] {
+    return (description || '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+  }
+}
@@ -1,5 +1,6 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import { startOfMonth, endOfMonth, subMonths, format } from 'date-fns';
+import { NetWorthService } from './net-worth.service';
 
 interface TimeRange {
   startDate: Date;
@@ -33,7 +34,11 @@ interface FinancialHealthScore {
 }
 
 export class AnalyticsService {
-  constructor(private prisma: PrismaClient) {}
+  private netWorthService: NetWorthService;
+
+  constructor(private prisma: PrismaClient) {
+    this.netWorthService = new NetWorthService(prisma);
+  }
 
   async getSpendingByCategory(
     userId: string,
@@ -46,6 +51,7 @@ export class AnalyticsService {
         userId,
         organizationId,
         type: 'EXPENSE',
+        transferId: null,
         date: {
           gte: timeRange.startDate,
           lte: timeRange.endDate
@@ -90,6 +96,7 @@ export class AnalyticsService {
             userId,
             organizationId,
             type: 'INCOME',
+            transferId: null,
             date: {
               gte: monthStart,
               lte: monthEnd
@@ -102,6 +109,7 @@ export class AnalyticsService {
             userId,
             organizationId,
             type: 'EXPENSE',
+            transferId: null,
             date: {
               gte: monthStart,
               lte: monthEnd
@@ -131,12 +139,18 @@ export class AnalyticsService {
   ): Promise<FinancialHealthScore> {
     const threeMonthsAgo = subMonths(new Date(), 3);
     
-    // Get recent financial data
-    const [recentTransactions, totalAssets, totalDebt] = await Promise.all([
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredCurrency: true }
+    });
+
+    // Get recent financial data, with asset totals converted to one currency
+    const [recentTransactions, netWorth] = await Promise.all([
       this.prisma.transaction.findMany({
         where: {
           userId,
           organizationId,
+          transferId: null,
           date: { gte: threeMonthsAgo }
         },
         select: {
@@ -146,22 +160,10 @@ export class AnalyticsService {
           category: true
         }
       }),
-      this.prisma.asset.aggregate({
-        where: {
-          userId,
-          organizationId,
-          type: { notIn: ['DEBT'] }
-        },
-        _sum: { amount: true }
-      }),
-      this.prisma.asset.aggregate({
-        where: {
-          userId,
-          organizationId,
-          type: 'DEBT'
-        },
-        _sum: { amount: true }
-      })
+      this.netWorthService.calculateNetWorth(
+        { userId, organizationId },
+        user?.preferredCurrency || 'AUD'
+      )
     ]);
 
     // Calculate monthly averages
@@ -185,12 +187,12 @@ export class AnalyticsService {
       recentTransactions.filter(t => t.type === 'INCOME')
     );
     
-    const debtAmount = totalDebt._sum.amount?.toNumber() || 0;
+    const debtAmount = netWorth.totalLiabilities;
     const debtToIncome = monthlyIncome > 0 
       ? (debtAmount / (monthlyIncome * 12)) * 100 
       : 100;
     
-    const liquidAssets = totalAssets._sum.amount?.toNumber() || 0;
+    const liquidAssets = netWorth.totalAssets;
     const emergencyFund = monthlyExpenses > 0 
       ? (liquidAssets / monthlyExpenses) 
       : 0;
@@ -277,6 +279,7 @@ export class AnalyticsService {
         userId,
         organizationId,
         type: 'EXPENSE',
+        transferId: null,
         date: {
           gte: timeRange.startDate,
           lte: timeRange.endDate
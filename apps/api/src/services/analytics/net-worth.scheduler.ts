@@ -0,0 +1,41 @@
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { NetWorthService } from './net-worth.service';
+
+const DEFAULT_INTERVAL_MINUTES = 24 * 60;
+
+/**
+ * Record every user's and family's net worth snapshot on a timer
+ *
+ * Snapshots are unique per owner, day and currency and a later run on the
+ * same day replaces the earlier one, so several API instances only cost
+ * duplicate work. Interval is NET_WORTH_SNAPSHOT_INTERVAL_MINUTES
+ * (default 1440, daily), 0 disables it.
+ */
+export function startNetWorthSnapshotScheduler(): NodeJS.Timeout | null {
+  const minutes = parseInt(process.env.NET_WORTH_SNAPSHOT_INTERVAL_MINUTES || '', 10);
+  const interval = isNaN(minutes) ? DEFAULT_INTERVAL_MINUTES : minutes;
+
+  if (interval <= 0) {
+    logger.info('Net worth snapshot scheduler disabled');
+    return null;
+  }
+
+  const service = new NetWorthService(prisma);
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await service.snapshotAll();
+    } catch (error) {
+      logger.error('Net worth snapshot scheduler failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  return setInterval(run, interval * 60 * 1000);
+}
@@ -0,0 +1,285 @@
+import { PrismaClient, Prisma, Asset, NetWorthSnapshot } from '@prisma/client';
+import { startOfDay, endOfDay, subMonths, format } from 'date-fns';
+import { exchangeRateService } from '../currency/exchange-rate.service';
+import { logger } from '../../utils/logger';
+
+interface NetWorthScope {
+  userId: string;
+  organizationId: string;
+  familyId?: string; // When set, covers the whole family instead of a single user
+}
+
+interface NetWorthBreakdown {
+  currency: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  byCountry: Record<string, number>;
+  byType: Record<string, number>;
+}
+
+interface NetWorthPoint {
+  date: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+}
+
+interface NetWorthHistory {
+  currency: string;
+  from: Date;
+  to: Date;
+  current: NetWorthBreakdown;
+  series: NetWorthPoint[];
+}
+
+/**
+ * Net Worth Service
+ *
+ * Converts every asset into a single reporting currency before summing,
+ * subtracting DEBT assets, and keeps one snapshot per day per user/family
+ * so net worth can be charted over time.
+ */
+export class NetWorthService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Calculate the current net worth for a user or family
+   * Breakdowns are signed (debts are negative) so each one sums to netWorth
+   *
+   * @param scope - User, or family when familyId is set
+   * @param currency - Reporting currency (e.g., "AUD")
+   */
+  async calculateNetWorth(scope: NetWorthScope, currency: string): Promise<NetWorthBreakdown> {
+    const assets = await this.getScopedAssets(scope);
+
+    const assetItems = assets.filter(a => a.type !== 'DEBT');
+    const debtItems = assets.filter(a => a.type === 'DEBT');
+
+    const [totalAssets, totalLiabilities, byCountry, byType] = await Promise.all([
+      this.sumConverted(assetItems, currency, scope.organizationId),
+      this.sumConverted(debtItems, currency, scope.organizationId),
+      this.sumGrouped(assets, a => a.country, currency, scope.organizationId),
+      this.sumGrouped(assets, a => a.type, currency, scope.organizationId)
+    ]);
+
+    return {
+      currency,
+      totalAssets,
+      // Debts are summed as negative amounts, report the liability as positive
+      totalLiabilities: Math.abs(totalLiabilities),
+      netWorth: totalAssets + totalLiabilities,
+      byCountry,
+      byType
+    };
+  }
+
+  /**
+   * Persist today's snapshot, replacing any snapshot already taken today
+   * in the same currency
+   */
+  async recordSnapshot(scope: NetWorthScope, currency: string): Promise<NetWorthSnapshot> {
+    const breakdown = await this.calculateNetWorth(scope, currency);
+    const date = startOfDay(new Date());
+
+    const data = {
+      totalAssets: new Prisma.Decimal(breakdown.totalAssets.toFixed(2)),
+      totalLiabilities: new Prisma.Decimal(breakdown.totalLiabilities.toFixed(2)),
+      netWorth: new Prisma.Decimal(breakdown.netWorth.toFixed(2)),
+      byCountry: breakdown.byCountry,
+      byType: breakdown.byType
+    };
+
+    // One row per owner, day and currency, enforced by unique indexes
+    return this.prisma.netWorthSnapshot.upsert({
+      where: scope.familyId
+        ? { familyId_date_currency: { familyId: scope.familyId, date, currency } }
+        : { userId_date_currency: { userId: scope.userId, date, currency } },
+      update: data,
+      create: {
+        ...data,
+        ...this.snapshotOwner(scope),
+        date,
+        currency,
+        organizationId: scope.organizationId
+      }
+    });
+  }
+
+  /**
+   * Get the net worth time series for a date range
+   * Snapshots come from the daily scheduler; today's point is the current
+   * net worth so the series always ends with current data. Days snapshotted
+   * in another currency are converted at that day's rate.
+   */
+  async getNetWorthHistory(
+    scope: NetWorthScope,
+    options: { from?: Date; to?: Date; currency: string }
+  ): Promise<NetWorthHistory> {
+    const to = endOfDay(options.to || new Date());
+    const from = startOfDay(options.from || subMonths(to, 12));
+    const { currency } = options;
+
+    const current = await this.calculateNetWorth(scope, currency);
+
+    const snapshots = await this.prisma.netWorthSnapshot.findMany({
+      where: {
+        ...this.snapshotOwner(scope),
+        date: { gte: from, lte: to }
+      },
+      orderBy: { date: 'asc' }
+    });
+
+    // Prefer the snapshot taken in the requested currency for each day
+    const byDay = new Map<string, NetWorthSnapshot>();
+    for (const snapshot of snapshots) {
+      const day = format(snapshot.date, 'yyyy-MM-dd');
+      const chosen = byDay.get(day);
+      if (!chosen || (chosen.currency !== currency && snapshot.currency === currency)) {
+        byDay.set(day, snapshot);
+      }
+    }
+
+    const series: NetWorthPoint[] = [];
+    const today = format(new Date(), 'yyyy-MM-dd');
+    for (const [day, snapshot] of byDay) {
+      if (day === today) {
+        continue;
+      }
+
+      const rate = snapshot.currency === currency
+        ? 1
+        : (await exchangeRateService.getQuote(snapshot.currency, currency, {
+            date: snapshot.date,
+            organizationId: scope.organizationId
+          })).rate;
+
+      series.push({
+        date: day,
+        totalAssets: snapshot.totalAssets.toNumber() * rate,
+        totalLiabilities: snapshot.totalLiabilities.toNumber() * rate,
+        netWorth: snapshot.netWorth.toNumber() * rate
+      });
+    }
+
+    if (from <= new Date() && new Date() <= to) {
+      series.push({
+        date: today,
+        totalAssets: current.totalAssets,
+        totalLiabilities: current.totalLiabilities,
+        netWorth: current.netWorth
+      });
+    }
+
+    return { currency, from, to, current, series };
+  }
+
+  /**
+   * Record today's snapshot for every user and family
+   * Run daily by the net worth snapshot scheduler.
+   */
+  async snapshotAll(): Promise<void> {
+    const users = await this.prisma.user.findMany({
+      select: { id: true, organizationId: true, preferredCurrency: true }
+    });
+
+    for (const user of users) {
+      try {
+        await this.recordSnapshot(
+          { userId: user.id, organizationId: user.organizationId },
+          user.preferredCurrency
+        );
+      } catch (error) {
+        logger.error(`Net worth snapshot failed for user ${user.id}:`, error);
+      }
+    }
+
+    const families = await this.prisma.family.findMany({
+      select: { id: true, organizationId: true, createdById: true }
+    });
+
+    for (const family of families) {
+      try {
+        const creator = await this.prisma.user.findUnique({
+          where: { id: family.createdById },
+          select: { preferredCurrency: true }
+        });
+
+        await this.recordSnapshot(
+          { userId: family.createdById, organizationId: family.organizationId, familyId: family.id },
+          creator?.preferredCurrency || 'AUD'
+        );
+      } catch (error) {
+        logger.error(`Net worth snapshot failed for family ${family.id}:`, error);
+      }
+    }
+  }
+
+  private async getScopedAssets(scope: NetWorthScope): Promise<Asset[]> {
+    if (scope.familyId) {
+      // Shared family assets plus each member's personal assets
+      return this.prisma.asset.findMany({
+        where: {
+          organizationId: scope.organizationId,
+          OR: [
+            { familyId: scope.familyId },
+            { user: { familyId: scope.familyId } }
+          ]
+        }
+      });
+    }
+
+    return this.prisma.asset.findMany({
+      where: {
+        organizationId: scope.organizationId,
+        OR: [
+          { userId: scope.userId },
+          { family: { members: { some: { id: scope.userId } } } }
+        ]
+      }
+    });
+  }
+
+  private snapshotOwner(scope: NetWorthScope): { userId: string | null; familyId: string | null } {
+    return scope.familyId
+      ? { userId: null, familyId: scope.familyId }
+      : { userId: scope.userId, familyId: null };
+  }
+
+  private async sumConverted(assets: Asset[], currency: string, organizationId: string): Promise<number> {
+    return exchangeRateService.convertMultiple(
+      assets.map(asset => ({
+        amount: this.signedAmount(asset),
+        currency: asset.currency
+      })),
+      currency,
+      organizationId
+    );
+  }
+
+  private async sumGrouped(
+    assets: Asset[],
+    key: (asset: Asset) => string,
+    currency: string,
+    organizationId: string
+  ): Promise<Record<string, number>> {
+    const groups = new Map<string, Asset[]>();
+    for (const asset of assets) {
+      const group = groups.get(key(asset)) || [];
+      group.push(asset);
+      groups.set(key(asset), group);
+    }
+
+    const result: Record<string, number> = {};
+    for (const [group, items] of groups) {
+      result[group] = await this.sumConverted(items, currency, organizationId);
+    }
+
+    return result;
+  }
+
+  private signedAmount(asset: Asset): number {
+    const amount = asset.amount.toNumber();
+    return asset.type === 'DEBT' ? -Math.abs(amount) : amount;
+  }
+}
@@ -0,0 +1,206 @@
+import { PrismaClient, BankConnection } from '@prisma/client';
+import { addDays, addMinutes, subDays } from 'date-fns';
+import { BankingService } from '../banking.service';
+import { SandboxBankProvider, signSandboxWebhook } from '../sandbox-provider';
+import { encrypt } from '../../../utils/crypto';
+import { syncQueue } from '../../jobs/queues';
+
+// Queues connect to Redis when loaded
+jest.mock('../../jobs/queues', () => ({ syncQueue: { add: jest.fn() } }));
+// Failed syncs are logged on purpose here
+jest.mock('../../../utils/logger', () => ({ logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn() } }));
+
+// Every connection in these tests talks to the sandbox bank
+const sandbox = new SandboxBankProvider();
+jest.mock('../bank-providers', () => ({ getBankProvider: () => sandbox }));
+
+const START = new Date('2026-03-10T12:00:00Z');
+
+// Just the queries a sync makes, transactions are kept in memory
+function createPrisma(connection: BankConnection) {
+  const stored: Array<{ id: string; externalId: string; assetId: string; date: Date }> = [];
+
+  return {
+    stored,
+    bankConnection: {
+      findFirst: jest.fn(async () => connection),
+      findMany: jest.fn(async () => [connection]),
+      update: jest.fn(async ({ data }) => Object.assign(connection, data))
+    },
+    asset: {
+      findFirst: jest.fn(async ({ where }) => ({ id: `asset_${where.externalId}`, currency: 'AUD', ledgerMode: false })),
+      update: jest.fn(async () => ({}))
+    },
+    categorizationRule: { findMany: jest.fn(async () => []) },
+    transaction: {
+      findFirst: jest.fn(async ({ where }) =>
+        stored.find(tx => tx.externalId === where.externalId && tx.assetId === where.assetId) || null),
+      findMany: jest.fn(async () => []),
+      create: jest.fn(async ({ data }) => {
+        const created = { id: `tx${stored.length + 1}`, ...data };
+        stored.push(created);
+        return created;
+      })
+    }
+  };
+}
+
+async function connect(username = 'sandbox_user') {
+  const { accessToken, externalId, accounts } = await sandbox.connect('user1', { username });
+  const connection = {
+    id: 'conn1',
+    provider: 'sandbox',
+    externalId,
+    status: 'active',
+    accessToken: encrypt(accessToken),
+    metadata: { accounts },
+    syncCursors: null,
+    consecutiveFailures: 0,
+    lastError: null,
+    nextSyncAt: null,
+    userId: 'user1',
+    organizationId: 'org1'
+  } as unknown as BankConnection;
+
+  const prisma = createPrisma(connection);
+  return { accessToken, accounts, connection, prisma, service: new BankingService(prisma as unknown as PrismaClient) };
+}
+
+function newest(stored: Array<{ assetId: string; date: Date }>, assetId: string): string {
+  return new Date(Math.max(...stored.filter(tx => tx.assetId === assetId).map(tx => tx.date.getTime()))).toISOString();
+}
+
+describe('BankingService sync against the sandbox bank', () => {
+  beforeEach(() => {
+    // Only the clock is faked, the sandbox derives its history from it
+    jest.useFakeTimers({ now: START, doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'queueMicrotask'] });
+    delete process.env.BANK_SYNC_INTERVAL_MINUTES;
+    delete process.env.BANK_SYNC_MAX_FAILURES;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('imports the last 30 days and moves each cursor to the newest transaction', async () => {
+    const { accounts, connection, prisma, service } = await connect();
+
+    const result = await service.syncBankTransactions('conn1', 'user1', 'org1');
+
+    expect(result.errors).toBe(0);
+    expect(prisma.stored.length).toBeGreaterThan(0);
+    expect(result.imported).toBe(prisma.stored.length);
+    expect(prisma.stored.every(tx => tx.date >= subDays(START, 30))).toBe(true);
+    for (const account of accounts) {
+      expect((connection.syncCursors as any)[account.id].lastTransactionDate).toBe(newest(prisma.stored, `asset_${account.id}`));
+    }
+    expect(connection.nextSyncAt).toEqual(addMinutes(START, 360));
+  });
+
+  it('refetches a few days before the cursor and stores every transaction once', async () => {
+    const { accessToken, accounts, connection, prisma, service } = await connect();
+    await service.syncBankTransactions('conn1', 'user1', 'org1');
+    const cursors = { ...(connection.syncCursors as any) };
+
+    const later = addDays(START, 5);
+    jest.setSystemTime(later);
+    const fetch = jest.spyOn(sandbox, 'getTransactions');
+    await service.syncBankTransactions('conn1', 'user1', 'org1');
+
+    for (const account of accounts) {
+      expect(fetch).toHaveBeenCalledWith(accessToken, account.id, subDays(new Date(cursors[account.id].lastTransactionDate), 3), later);
+    }
+    fetch.mockRestore();
+
+    const expected = [];
+    for (const account of accounts) {
+      expected.push(...(await sandbox.getTransactions(accessToken, account.id, subDays(START, 30), later)).map(tx => tx.id));
+    }
+    expect(prisma.stored.map(tx => tx.externalId).sort()).toEqual(expected.sort());
+  });
+
+  it('holds the cursor back at a transaction that failed to import', async () => {
+    const { accessToken, accounts, connection, prisma, service } = await connect();
+    const everyday = accounts[0];
+    const [failing] = (await sandbox.getTransactions(accessToken, everyday.id, subDays(START, 30), START)).slice(-2);
+
+    const create = prisma.transaction.create.getMockImplementation()!;
+    prisma.transaction.create.mockImplementation(async (args: any) => {
+      if (args.data.externalId === failing.id) throw new Error('Database unavailable');
+      return create(args);
+    });
+
+    const result = await service.syncBankTransactions('conn1', 'user1', 'org1');
+
+    expect(result.errors).toBe(1);
+    expect((connection.syncCursors as any)[everyday.id].lastTransactionDate).toBe(failing.date.toISOString());
+
+    prisma.transaction.create.mockImplementation(create);
+    const retry = await service.syncBankTransactions('conn1', 'user1', 'org1');
+
+    expect(retry.imported).toBe(1);
+    expect(prisma.stored.some(tx => tx.externalId === failing.id)).toBe(true);
+  });
+
+  it('backs off after failures and marks the connection errored once it keeps failing', async () => {
+    const { connection, service } = await connect('sandbox_down');
+
+    await expect(service.syncBankTransactions('conn1', 'user1', 'org1')).rejects.toThrow('Sandbox bank is unavailable');
+
+    expect(connection).toEqual(expect.objectContaining({
+      consecutiveFailures: 1,
+      lastError: 'Sandbox bank is unavailable',
+      nextSyncAt: addMinutes(START, 720),
+      status: 'active'
+    }));
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      await expect(service.syncBankTransactions('conn1', 'user1', 'org1')).rejects.toThrow();
+    }
+
+    // The wait doubles with each failure up to a day
+    expect(connection).toEqual(expect.objectContaining({
+      consecutiveFailures: 5,
+      nextSyncAt: addMinutes(START, 24 * 60),
+      status: 'error'
+    }));
+  });
+});
+
+describe('BankingService webhooks from the sandbox bank', () => {
+  const previousSecret = process.env.SANDBOX_BANK_WEBHOOK_SECRET;
+
+  afterEach(() => {
+    process.env.SANDBOX_BANK_WEBHOOK_SECRET = previousSecret;
+    (syncQueue.add as jest.Mock).mockClear();
+  });
+
+  it('queues a sync for new transactions and records revoked access', async () => {
+    process.env.SANDBOX_BANK_WEBHOOK_SECRET = 'test-secret';
+    const { connection, service } = await connect();
+
+    const available = Buffer.from(JSON.stringify({ type: 'transactions.available', connectionId: connection.externalId }));
+    const affected = await service.handleWebhook('sandbox', available, { 'x-sandbox-signature': signSandboxWebhook(available) });
+
+    expect(affected).toBe(1);
+    expect(syncQueue.add).toHaveBeenCalledWith({ connectionId: 'conn1', userId: 'user1', organizationId: 'org1' }, { attempts: 1 });
+
+    const revoked = Buffer.from(JSON.stringify({ type: 'connection.revoked', connectionId: connection.externalId }));
+    await service.handleWebhook('sandbox', revoked, { 'x-sandbox-signature': signSandboxWebhook(revoked) });
+
+    expect(connection.status).toBe('disconnected');
+  });
+
+  it('rejects unsigned calls and all calls while no secret is set', async () => {
+    process.env.SANDBOX_BANK_WEBHOOK_SECRET = 'test-secret';
+    const { connection, service } = await connect();
+    const body = Buffer.from(JSON.stringify({ type: 'connection.revoked', connectionId: connection.externalId }));
+
+    await expect(service.handleWebhook('sandbox', body, { 'x-sandbox-signature': 'forged' })).rejects.toThrow('Invalid webhook signature');
+
+    const signature = signSandboxWebhook(body);
+    delete process.env.SANDBOX_BANK_WEBHOOK_SECRET;
+    await expect(service.handleWebhook('sandbox', body, { 'x-sandbox-signature': signature })).rejects.toThrow('Invalid webhook');
+    expect(connection.status).toBe('active');
+  });
+});
@@ -0,0 +1,88 @@
+import { DataSource } from '@prisma/client';
+
+export interface BankAccount {
+  id: string; // Stable, linked assets keep it as externalId
+  name: string;
+  type: string;
+  balance: number;
+  currency: string;
+  accountNumber: string; // Last 4 digits only
+}
+
+export interface BankTransaction {
+  id: string; // Stable across fetches, syncs skip ids they already stored
+  date: Date;
+  description: string;
+  amount: number; // Always positive, type gives the direction
+  type: 'credit' | 'debit';
+  category?: string;
+  balance?: number; // Account balance after this transaction
+}
+
+export type BankCredentials = Record<string, string | undefined>;
+
+export interface BankConnectResult {
+  accessToken: string;
+  refreshToken?: string;
+  externalId?: string; // The provider's id of the connection, webhooks refer to it
+  accounts: BankAccount[];
+}
+
+export interface BankProviderInfo {
+  name: string; // Institution name shown to users and in asset names
+  country: string; // ISO 3166 alpha-2
+  logo?: string;
+  authType: string; // Which credentials form the app shows, e.g. 'credentials' or 'basiq'
+  dataSource: DataSource; // Recorded on the assets of linked accounts
+  listed?: boolean; // False keeps aggregators out of the supported bank list
+}
+
+// Changes a provider pushes instead of waiting for the next scheduled sync
+export type BankWebhookEvent =
+  | { type: 'transactions.available'; connectionId: string }
+  | { type: 'connection.error'; connectionId: string; message: string }
+  | { type: 'connection.revoked'; connectionId: string };
+
+/**
+ * Bank Provider
+ *
+ * Plugin contract between the BankingService and a bank or aggregator.
+ * Providers only talk to the bank and translate its data; connections,
+ * duplicate detection, categorization and balances live in the
+ * BankingService. Make a provider available with registerBankProvider().
+ *
+ * Errors are thrown as plain Errors with a message fit for the connection's
+ * lastError; thrown during a sync they count towards its failure backoff.
+ */
+export interface BankProvider {
+  /**
+   * Stored on every BankConnection, must not change once connections exist
+   */
+  readonly id: string;
+  readonly info: BankProviderInfo;
+
+  /**
+   * Link a bank login, throws when the bank refuses it
+   * @param userId - User the connection is for, some aggregators key their users by it
+   * @param credentials - Fields of the provider's authType form
+   */
+  connect(userId: string, credentials: BankCredentials): Promise<BankConnectResult>;
+
+  getAccounts(accessToken: string): Promise<BankAccount[]>;
+
+  /**
+   * Transactions of one account dated from `from` to `to`, newest first
+   * The first transaction's balance becomes the account's reported balance.
+   * Syncs ask again for a few days before the newest transaction they saw,
+   * so transactions the bank posts late are still picked up.
+   */
+  getTransactions(accessToken: string, accountId: string, from: Date, to: Date): Promise<BankTransaction[]>;
+
+  refreshToken?(refreshToken: string): Promise<{ accessToken: string; refreshToken: string }>;
+
+  /**
+   * Verify and read a webhook call, throws when it is not from the provider
+   * Only providers that push changes implement it.
+   */
+  parseWebhook?(body: Buffer, headers: Record<string, string | string[] | undefined>): BankWebhookEvent[];
+}
@@ -0,0 +1,345 @@
+import axios from 'axios';
+import { logger } from '../../utils/logger';
+import { BankAccount, BankTransaction, BankProvider, BankProviderInfo } from './bank-provider';
+import { SandboxBankProvider } from './sandbox-provider';
+
+// Mock implementation for Commonwealth Bank
+// In production, this would use the actual CommBank API
+export class CommonwealthBankProvider implements BankProvider {
+  readonly id = 'commonwealth';
+  readonly info: BankProviderInfo = {
+    name: 'Commonwealth Bank',
+    country: 'AU',
+    logo: '/bank-logos/cba.png',
+    authType: 'credentials',
+    dataSource: 'CUSTOM_BANK'
+  };
+  private baseUrl = process.env.COMMBANK_API_URL || 'https://api.commbank.com.au/sandbox';
+  
+  async connect(userId: string, credentials: { username: string; password: string }) {
+    // In production, implement OAuth flow
+    // This is a mock implementation
+    try {
+      // Simulate API call
+      const mockResponse = {
+        accessToken: 'mock_commbank_token_' + Date.now(),
+        accounts: [
+          {
+            id: 'cba_acc_1',
+            name: 'Smart Access',
+            type: 'savings',
+            balance: 5234.56,
+            currency: 'AUD',
+            accountNumber: '4567'
+          },
+          {
+            id: 'cba_acc_2',
+            name: 'NetBank Saver',
+            type: 'savings',
+            balance: 15678.90,
+            currency: 'AUD',
+            accountNumber: '8901'
+          }
+        ]
+      };
+      
+      return mockResponse;
+    } catch (error) {
+      logger.error('CommBank connection error:', error);
+      throw new Error('Failed to connect to Commonwealth Bank');
+    }
+  }
+  
+  async getAccounts(accessToken: string): Promise<BankAccount[]> {
+    // Mock implementation
+    return [
+      {
+        id: 'cba_acc_1',
+        name: 'Smart Access',
+        type: 'savings',
+        balance: 5234.56,
+        currency: 'AUD',
+        accountNumber: '4567'
+      }
+    ];
+  }
+  
+  async getTransactions(
+    accessToken: string, 
+    accountId: string, 
+    from: Date, 
+    to: Date
+  ): Promise<BankTransaction[]> {
+    // Mock implementation - return sample transactions
+    const transactions: BankTransaction[] = [
+      {
+        id: 'cba_tx_1',
+        date: new Date('2024-01-15'),
+        description: 'Woolworths Sydney',
+        amount: 125.43,
+        type: 'debit',
+        category: 'Groceries',
+        balance: 5109.13
+      },
+      {
+        id: 'cba_tx_2',
+        date: new Date('2024-01-14'),
+        description: 'Salary Payment',
+        amount: 3500.00,
+        type: 'credit',
+        category: 'Income',
+        balance: 5234.56
+      },
+      {
+        id: 'cba_tx_3',
+        date: new Date('2024-01-13'),
+        description: 'Transport NSW',
+        amount: 45.80,
+        type: 'debit',
+        category: 'Transport',
+        balance: 1734.56
+      }
+    ];
+    
+    return transactions.filter(t => t.date >= from && t.date <= to);
+  }
+}
+
+// Mock implementation for Khan Bank (Mongolia)
+export class KhanBankProvider implements BankProvider {
+  readonly id = 'khanbank';
+  readonly info: BankProviderInfo = {
+    name: 'Khan Bank',
+    country: 'MN',
+    logo: '/bank-logos/khan.png',
+    authType: 'credentials',
+    dataSource: 'CUSTOM_BANK'
+  };
+  private baseUrl = process.env.KHANBANK_API_URL || 'https://api.khanbank.com/sandbox';
+  
+  async connect(userId: string, credentials: { username: string; password: string }) {
+    // Mock implementation
+    try {
+      const mockResponse = {
+        accessToken: 'mock_khan_token_' + Date.now(),
+        accounts: [
+          {
+            id: 'khan_acc_1',
+            name: 'Current Account',
+            type: 'checking',
+            balance: 2500000, // MNT
+            currency: 'MNT',
+            accountNumber: '1234'
+          },
+          {
+            id: 'khan_acc_2',
+            name: 'Savings Account',
+            type: 'savings',
+            balance: 5000000, // MNT
+            currency: 'MNT',
+            accountNumber: '5678'
+          }
+        ]
+      };
+      
+      return mockResponse;
+    } catch (error) {
+      logger.error('Khan Bank connection error:', error);
+      throw new Error('Failed to connect to Khan Bank');
+    }
+  }
+  
+  async getAccounts(accessToken: string): Promise<BankAccount[]> {
+    return [
+      {
+        id: 'khan_acc_1',
+        name: 'Current Account',
+        type: 'checking',
+        balance: 2500000,
+        currency: 'MNT',
+        accountNumber: '1234'
+      }
+    ];
+  }
+  
+  async getTransactions(
+    accessToken: string, 
+    accountId: string, 
+    from: Date, 
+    to: Date
+  ): Promise<BankTransaction[]> {
+    const transactions: BankTransaction[] = [
+      {
+        id: 'khan_tx_1',
+        date: new Date('2024-01-15'),
+        description: 'Nomin Supermarket',
+        amount: 85000,
+        type: 'debit',
+        category: 'Groceries',
+        balance: 2415000
+      },
+      {
+        id: 'khan_tx_2',
+        date: new Date('2024-01-10'),
+        description: 'Salary Deposit',
+        amount: 1500000,
+        type: 'credit',
+        category: 'Income',
+        balance: 2500000
+      }
+    ];
+    
+    return transactions.filter(t => t.date >= from && t.date <= to);
+  }
+}
+
+// Basiq provider for Australian banks (real implementation)
+export class BasiqProvider implements BankProvider {
+  readonly id = 'basiq';
+  readonly info: BankProviderInfo = {
+    name: 'Australian Bank',
+    country: 'AU',
+    authType: 'basiq',
+    dataSource: 'BASIQ',
+    listed: false // Its banks are listed through /banking/basiq/institutions
+  };
+  private baseUrl = 'https://au-api.basiq.io';
+  private apiKey = process.env.BASIQ_API_KEY || '';
+  
+  async connect(userId: string, credentials: { institutionId: string; loginId: string; password: string }) {
+    if (!this.apiKey) {
+      throw new Error('Basiq API key not configured');
+    }
+    
+    try {
+      // Get auth token
+      const authResponse = await axios.post(
+        `${this.baseUrl}/token`,
+        'scope=SERVER_ACCESS',
+        {
+          headers: {
+            'Authorization': `Basic ${Buffer.from(this.apiKey + ':').toString('base64')}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'basiq-version': '3.0'
+          }
+        }
+      );
+      
+      const serverToken = authResponse.data.access_token;
+      
+      // Create user consent
+      const consentResponse = await axios.post(
+        `${this.baseUrl}/users/${userId}/consents`,
+        {
+          institution: { id: credentials.institutionId },
+          credentials: {
+            loginId: credentials.loginId,
+            password: credentials.password
+          }
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${serverToken}`,
+            'Content-Type': 'application/json',
+            'basiq-version': '3.0'
+          }
+        }
+      );
+      
+      // Wait for connection to be established
+      // In production, implement proper polling or webhooks
+      await new Promise(resolve => setTimeout(resolve, 5000));
+      
+      // Get accounts
+      const accountsResponse = await axios.get(
+        `${this.baseUrl}/users/${userId}/accounts`,
+        {
+          headers: {
+            'Authorization': `Bearer ${serverToken}`,
+            'basiq-version': '3.0'
+          }
+        }
+      );
+      
+      const accounts = accountsResponse.data.data.map((acc: any) => ({
+        id: acc.id,
+        name: acc.name,
+        type: acc.accountType,
+        balance: acc.balance,
+        currency: acc.currency,
+        accountNumber: acc.accountNo.slice(-4)
+      }));
+      
+      return {
+        accessToken: serverToken,
+        accounts
+      };
+    } catch (error: any) {
+      logger.error('Basiq connection error:', error.response?.data || error);
+      throw new Error('Failed to connect via Basiq');
+    }
+  }
+  
+  async getAccounts(accessToken: string): Promise<BankAccount[]> {
+    // Implementation would fetch from Basiq
+    return [];
+  }
+  
+  async getTransactions(
+    accessToken: string, 
+    accountId: string, 
+    from: Date, 
+    to: Date
+  ): Promise<BankTransaction[]> {
+    // Implementation would fetch from Basiq
+    return [];
+  }
+}
+
+let providers: Map<string, BankProvider> | null = null;
+
+function registry(): Map<string, BankProvider> {
+  if (!providers) {
+    providers = new Map<string, BankProvider>();
+    const builtIn: BankProvider[] = [new CommonwealthBankProvider(), new KhanBankProvider(), new BasiqProvider()];
+    if (isSandboxEnabled()) {
+      builtIn.push(new SandboxBankProvider());
+    }
+    for (const provider of builtIn) {
+      providers.set(provider.id, provider);
+    }
+  }
+  return providers;
+}
+
+/**
+ * The sandbox provider is on outside production unless BANK_SANDBOX_ENABLED
+ * says otherwise
+ */
+function isSandboxEnabled(): boolean {
+  const setting = process.env.BANK_SANDBOX_ENABLED;
+  return setting ? setting === 'true' : process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Make a provider available for new and existing connections
+ * A provider with the id of an existing one replaces it.
+ */
+export function registerBankProvider(provider: BankProvider): void {
+  registry().set(provider.id, provider);
+}
+
+/**
+ * Get a provider by id, or null when none is registered under it
+ *   commonwealth  - Commonwealth Bank (mock data)
+ *   khanbank      - Khan Bank (mock data)
+ *   basiq         - Australian banks through Basiq, BASIQ_API_KEY
+ *   sandbox       - Generated accounts and transactions, see SandboxBankProvider
+ */
+export function getBankProvider(id: string): BankProvider | null {
+  return registry().get(id) || null;
+}
+
+export function listBankProviders(): BankProvider[] {
+  return Array.from(registry().values());
+}
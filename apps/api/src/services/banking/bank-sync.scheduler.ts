@@ -0,0 +1,63 @@
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { syncQueue } from '../jobs/queues';
+import { getBankSyncSettings } from './banking.service';
+
+// Due connections are looked for at least this often, so a sync is never
+// late by a whole interval
+const MAX_CHECK_MINUTES = 15;
+
+/**
+ * Queue a sync of every active bank connection that is due
+ *
+ * A connection is due when it never synced or its nextSyncAt has passed;
+ * syncs move nextSyncAt forward by the interval, failures back off further.
+ * The job id is tied to nextSyncAt, so several API instances queue each
+ * due sync once. Interval is BANK_SYNC_INTERVAL_MINUTES (default 360),
+ * 0 disables it.
+ */
+export function startBankSyncScheduler(): NodeJS.Timeout | null {
+  const { intervalMinutes } = getBankSyncSettings();
+
+  if (intervalMinutes <= 0) {
+    logger.info('Bank sync scheduler disabled');
+    return null;
+  }
+
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const connections = await prisma.bankConnection.findMany({
+        where: {
+          status: 'active',
+          OR: [{ nextSyncAt: null }, { nextSyncAt: { lte: new Date() } }]
+        },
+        select: { id: true, userId: true, organizationId: true, nextSyncAt: true }
+      });
+
+      for (const connection of connections) {
+        await syncQueue.add(
+          { connectionId: connection.id, userId: connection.userId, organizationId: connection.organizationId },
+          {
+            jobId: `scheduled:${connection.id}:${connection.nextSyncAt?.getTime() ?? 'first'}`,
+            // Failures are retried by the schedule's own backoff
+            attempts: 1
+          }
+        );
+      }
+      if (connections.length) {
+        logger.info(`Bank sync: ${connections.length} connections queued`);
+      }
+    } catch (error) {
+      logger.error('Bank sync scheduler failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  return setInterval(run, Math.min(intervalMinutes, MAX_CHECK_MINUTES) * 60 * 1000);
+}
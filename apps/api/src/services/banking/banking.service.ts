@@ -1,327 +1,70 @@
 import { PrismaClient, BankConnection } from '@prisma/client';
-import axios from 'axios';
+import { addMinutes, subDays } from 'date-fns';
 import { encrypt, decrypt } from '../../utils/crypto';
 import { logger } from '../../utils/logger';
+import { LedgerService } from '../ledger/ledger.service';
+import { CategorizationRuleService } from '../rules/categorization-rule.service';
+import { DuplicateDetectionService } from '../duplicates/duplicate-detection.service';
+import { syncQueue } from '../jobs/queues';
+import { BankCredentials } from './bank-provider';
+import { getBankProvider } from './bank-providers';
 
-interface BankAccount {
-  id: string;
-  name: string;
-  type: string;
-  balance: number;
-  currency: string;
-  accountNumber: string; // Last 4 digits only
-}
+// Days fetched on an account's first sync
+const INITIAL_SYNC_DAYS = 30;
+// Days refetched before an account's cursor, banks post some transactions late
+const SYNC_OVERLAP_DAYS = 3;
+const DEFAULT_SYNC_INTERVAL_MINUTES = 360;
+const DEFAULT_MAX_SYNC_FAILURES = 5;
+const MAX_BACKOFF_MINUTES = 24 * 60;
 
-interface BankTransaction {
-  id: string;
-  date: Date;
-  description: string;
-  amount: number;
-  type: 'credit' | 'debit';
-  category?: string;
-  balance?: number;
-}
+// Where the last sync of an account stopped, keyed by the provider's account id
+type SyncCursor = {
+  lastTransactionDate: string;
+  syncedAt: string;
+};
 
-interface BankProvider {
-  connect(userId: string, credentials: any): Promise<{ accessToken: string; accounts: BankAccount[] }>;
-  getAccounts(accessToken: string): Promise<BankAccount[]>;
-  getTransactions(accessToken: string, accountId: string, from: Date, to: Date): Promise<BankTransaction[]>;
-  refreshToken?(refreshToken: string): Promise<{ accessToken: string; refreshToken: string }>;
+export interface BankSyncSettings {
+  intervalMinutes: number; // 0 turns scheduled syncs off
+  maxFailures: number;
 }
 
-// Mock implementation for Commonwealth Bank
-// In production, this would use the actual CommBank API
-class CommonwealthBankProvider implements BankProvider {
-  private baseUrl = process.env.COMMBANK_API_URL || 'https://api.commbank.com.au/sandbox';
-  
-  async connect(userId: string, credentials: { username: string; password: string }) {
-    // In production, implement OAuth flow
-    // This is a mock implementation
-    try {
-      // Simulate API call
-      const mockResponse = {
-        accessToken: 'mock_commbank_token_' + Date.now(),
-        accounts: [
-          {
-            id: 'cba_acc_1',
-            name: 'Smart Access',
-            type: 'savings',
-            balance: 5234.56,
-            currency: 'AUD',
-            accountNumber: '4567'
-          },
-          {
-            id: 'cba_acc_2',
-            name: 'NetBank Saver',
-            type: 'savings',
-            balance: 15678.90,
-            currency: 'AUD',
-            accountNumber: '8901'
-          }
-        ]
-      };
-      
-      return mockResponse;
-    } catch (error) {
-      logger.error('CommBank connection error:', error);
-      throw new Error('Failed to connect to Commonwealth Bank');
-    }
-  }
-  
-  async getAccounts(accessToken: string): Promise<BankAccount[]> {
-    // Mock implementation
-    return [
-      {
-        id: 'cba_acc_1',
-        name: 'Smart Access',
-        type: 'savings',
-        balance: 5234.56,
-        currency: 'AUD',
-        accountNumber: '4567'
-      }
-    ];
-  }
-  
-  async getTransactions(
-    accessToken: string, 
-    accountId: string, 
-    from: Date, 
-    to: Date
-  ): Promise<BankTransaction[]> {
-    // Mock implementation - return sample transactions
-    const transactions: BankTransaction[] = [
-      {
-        id: 'cba_tx_1',
-        date: new Date('2024-01-15'),
-        description: 'Woolworths Sydney',
-        amount: 125.43,
-        type: 'debit',
-        category: 'Groceries',
-        balance: 5109.13
-      },
-      {
-        id: 'cba_tx_2',
-        date: new Date('2024-01-14'),
-        description: 'Salary Payment',
-        amount: 3500.00,
-        type: 'credit',
-        category: 'Income',
-        balance: 5234.56
-      },
-      {
-        id: 'cba_tx_3',
-        date: new Date('2024-01-13'),
-        description: 'Transport NSW',
-        amount: 45.80,
-        type: 'debit',
-        category: 'Transport',
-        balance: 1734.56
-      }
-    ];
-    
-    return transactions.filter(t => t.date >= from && t.date <= to);
-  }
-}
-
-// Mock implementation for Khan Bank (Mongolia)
-class KhanBankProvider implements BankProvider {
-  private baseUrl = process.env.KHANBANK_API_URL || 'https://api.khanbank.com/sandbox';
-  
-  async connect(userId: string, credentials: { username: string; password: string }) {
-    // Mock implementation
-    try {
-      const mockResponse = {
-        accessToken: 'mock_khan_token_' + Date.now(),
-        accounts: [
-          {
-            id: 'khan_acc_1',
-            name: 'Current Account',
-            type: 'checking',
-            balance: 2500000, // MNT
-            currency: 'MNT',
-            accountNumber: '1234'
-          },
-          {
-            id: 'khan_acc_2',
-            name: 'Savings Account',
-            type: 'savings',
-            balance: 5000000, // MNT
-            currency: 'MNT',
-            accountNumber: '5678'
-          }
-        ]
-      };
-      
-      return mockResponse;
-    } catch (error) {
-      logger.error('Khan Bank connection error:', error);
-      throw new Error('Failed to connect to Khan Bank');
-    }
-  }
-  
-  async getAccounts(accessToken: string): Promise<BankAccount[]> {
-    return [
-      {
-        id: 'khan_acc_1',
-        name: 'Current Account',
-        type: 'checking',
-        balance: 2500000,
-        currency: 'MNT',
-        accountNumber: '1234'
-      }
-    ];
-  }
-  
-  async getTransactions(
-    accessToken: string, 
-    accountId: string, 
-    from: Date, 
-    to: Date
-  ): Promise<BankTransaction[]> {
-    const transactions: BankTransaction[] = [
-      {
-        id: 'khan_tx_1',
-        date: new Date('2024-01-15'),
-        description: 'Nomin Supermarket',
-        amount: 85000,
-        type: 'debit',
-        category: 'Groceries',
-        balance: 2415000
-      },
-      {
-        id: 'khan_tx_2',
-        date: new Date('2024-01-10'),
-        description: 'Salary Deposit',
-        amount: 1500000,
-        type: 'credit',
-        category: 'Income',
-        balance: 2500000
-      }
-    ];
-    
-    return transactions.filter(t => t.date >= from && t.date <= to);
-  }
-}
-
-// Basiq provider for Australian banks (real implementation)
-class BasiqProvider implements BankProvider {
-  private baseUrl = 'https://au-api.basiq.io';
-  private apiKey = process.env.BASIQ_API_KEY || '';
-  
-  async connect(userId: string, credentials: { institutionId: string; loginId: string; password: string }) {
-    if (!this.apiKey) {
-      throw new Error('Basiq API key not configured');
-    }
-    
-    try {
-      // Get auth token
-      const authResponse = await axios.post(
-        `${this.baseUrl}/token`,
-        'scope=SERVER_ACCESS',
-        {
-          headers: {
-            'Authorization': `Basic ${Buffer.from(this.apiKey + ':').toString('base64')}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'basiq-version': '3.0'
-          }
-        }
-      );
-      
-      const serverToken = authResponse.data.access_token;
-      
-      // Create user consent
-      const consentResponse = await axios.post(
-        `${this.baseUrl}/users/${userId}/consents`,
-        {
-          institution: { id: credentials.institutionId },
-          credentials: {
-            loginId: credentials.loginId,
-            password: credentials.password
-          }
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${serverToken}`,
-            'Content-Type': 'application/json',
-            'basiq-version': '3.0'
-          }
-        }
-      );
-      
-      // Wait for connection to be established
-      // In production, implement proper polling or webhooks
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      
-      // Get accounts
-      const accountsResponse = await axios.get(
-        `${this.baseUrl}/users/${userId}/accounts`,
-        {
-          headers: {
-            'Authorization': `Bearer ${serverToken}`,
-            'basiq-version': '3.0'
-          }
-        }
-      );
-      
-      const accounts = accountsResponse.data.data.map((acc: any) => ({
-        id: acc.id,
-        name: acc.name,
-        type: acc.accountType,
-        balance: acc.balance,
-        currency: acc.currency,
-        accountNumber: acc.accountNo.slice(-4)
-      }));
-      
-      return {
-        accessToken: serverToken,
-        accounts
-      };
-    } catch (error: any) {
-      logger.error('Basiq connection error:', error.response?.data || error);
-      throw new Error('Failed to connect via Basiq');
-    }
-  }
-  
-  async getAccounts(accessToken: string): Promise<BankAccount[]> {
-    // Implementation would fetch from Basiq
-    return [];
-  }
-  
-  async getTransactions(
-    accessToken: string, 
-    accountId: string, 
-    from: Date, 
-    to: Date
-  ): Promise<BankTransaction[]> {
-    // Implementation would fetch from Basiq
-    return [];
-  }
+/**
+ * Scheduled sync settings from BANK_SYNC_INTERVAL_MINUTES (default 360)
+ * and BANK_SYNC_MAX_FAILURES (default 5)
+ */
+export function getBankSyncSettings(): BankSyncSettings {
+  const minutes = parseInt(process.env.BANK_SYNC_INTERVAL_MINUTES || '', 10);
+  const failures = parseInt(process.env.BANK_SYNC_MAX_FAILURES || '', 10);
+  return {
+    intervalMinutes: isNaN(minutes) ? DEFAULT_SYNC_INTERVAL_MINUTES : Math.max(minutes, 0),
+    maxFailures: isNaN(failures) || failures < 1 ? DEFAULT_MAX_SYNC_FAILURES : failures
+  };
 }
 
 export class BankingService {
-  private providers: Map<string, BankProvider>;
+  private ledgerService: LedgerService;
+  private ruleService: CategorizationRuleService;
+  private duplicateService: DuplicateDetectionService;
   
   constructor(private prisma: PrismaClient) {
-    this.providers = new Map<string, BankProvider>([
-      ['commonwealth', new CommonwealthBankProvider()],
-      ['khanbank', new KhanBankProvider()],
-      ['basiq', new BasiqProvider()]
-    ]);
+    this.ledgerService = new LedgerService(prisma);
+    this.ruleService = new CategorizationRuleService(prisma);
+    this.duplicateService = new DuplicateDetectionService(prisma);
   }
   
   async connectBank(
     userId: string,
     organizationId: string,
     provider: string,
-    credentials: any
+    credentials: BankCredentials
   ): Promise<BankConnection> {
-    const bankProvider = this.providers.get(provider);
+    const bankProvider = getBankProvider(provider);
     if (!bankProvider) {
       throw new Error(`Unsupported bank provider: ${provider}`);
     }
     
     try {
-      const { accessToken, accounts } = await bankProvider.connect(userId, credentials);
+      const { accessToken, refreshToken, externalId, accounts } = await bankProvider.connect(userId, credentials);
       
       // Store encrypted tokens
       const encryptedToken = encrypt(accessToken);
@@ -330,9 +73,11 @@ export class BankingService {
       const connection = await this.prisma.bankConnection.create({
         data: {
           provider,
-          institutionName: this.getInstitutionName(provider),
+          externalId,
+          institutionName: bankProvider.info.name,
           status: 'active',
           accessToken: encryptedToken,
+          refreshToken: refreshToken ? encrypt(refreshToken) : undefined,
           metadata: { accounts } as any,
           userId,
           organizationId,
@@ -344,13 +89,15 @@ export class BankingService {
       await Promise.all(accounts.map(account => 
         this.prisma.asset.create({
           data: {
-            name: `${account.name} (${this.getInstitutionName(provider)})`,
+            name: `${account.name} (${bankProvider.info.name})`,
             type: 'CASH',
             subtype: account.type,
-            country: this.getCountryForProvider(provider),
+            country: bankProvider.info.country,
             currency: account.currency,
             amount: account.balance,
-            dataSource: provider === 'basiq' ? 'BASIQ' : 'CUSTOM_BANK',
+            reportedBalance: account.balance,
+            reportedBalanceAt: new Date(),
+            dataSource: bankProvider.info.dataSource,
             externalId: account.id,
             metadata: {
               bankConnectionId: connection.id,
@@ -373,7 +120,7 @@ export class BankingService {
     connectionId: string,
     userId: string,
     organizationId: string
-  ): Promise<{ imported: number; errors: number }> {
+  ): Promise<{ imported: number; errors: number; duplicates: number }> {
     const connection = await this.prisma.bankConnection.findFirst({
       where: {
         id: connectionId,
@@ -386,16 +133,45 @@ export class BankingService {
       throw new Error('Bank connection not found');
     }
     
-    const provider = this.providers.get(connection.provider);
+    try {
+      const result = await this.syncConnection(connection);
+      await this.recordSyncSuccess(connection, result.cursors);
+      return { imported: result.imported, errors: result.errors, duplicates: result.duplicates };
+    } catch (error) {
+      await this.recordSyncFailure(connection, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pull new transactions of every linked account
+   * Each account is fetched from a few days before its cursor, or the last
+   * 30 days on its first sync; transactions already stored are skipped by
+   * their bank id. Throws when no account could be synced.
+   */
+  private async syncConnection(connection: BankConnection): Promise<{
+    imported: number;
+    errors: number;
+    duplicates: number;
+    cursors: Record<string, SyncCursor>;
+  }> {
+    const { userId, organizationId } = connection;
+    const provider = getBankProvider(connection.provider);
     if (!provider) {
       throw new Error('Provider not available');
     }
     
     const accessToken = decrypt(connection.accessToken!);
     const accounts = (connection.metadata as any).accounts || [];
+    const cursors = { ...(connection.syncCursors as Record<string, SyncCursor> | null) };
+    
+    const rules = await this.ruleService.getActiveRules(userId, organizationId);
     
     let imported = 0;
     let errors = 0;
+    let flagged = 0;
+    let failedAccounts = 0;
+    let lastAccountError: unknown;
     
     for (const account of accounts) {
       try {
@@ -409,9 +185,10 @@ export class BankingService {
         
         if (!asset) continue;
         
-        // Fetch transactions from last 30 days
-        const from = new Date();
-        from.setDate(from.getDate() - 30);
+        const cursor = cursors[account.id];
+        const from = cursor
+          ? subDays(new Date(cursor.lastTransactionDate), SYNC_OVERLAP_DAYS)
+          : subDays(new Date(), INITIAL_SYNC_DAYS);
         const to = new Date();
         
         const transactions = await provider.getTransactions(
@@ -422,6 +199,8 @@ export class BankingService {
         );
         
         // Import transactions
+        const matchedIds = new Set<string>();
+        let oldestFailed: Date | null = null;
         for (const tx of transactions) {
           try {
             // Check for duplicate
@@ -433,10 +212,43 @@ export class BankingService {
             });
             
             if (!existing) {
-              await this.prisma.transaction.create({
+              const type = tx.type === 'credit' ? 'INCOME' : 'EXPENSE';
+              
+              // The same payment may already be there from a file import
+              const match = await this.duplicateService.findMatch({
+                assetId: asset.id,
+                type,
+                amount: tx.amount,
+                date: tx.date,
+                description: tx.description,
+                externalId: tx.id
+              }, { excludeIds: matchedIds });
+              
+              if (match) {
+                matchedIds.add(match.original.id);
+                // The same transaction without a bank id takes this one, later syncs then match it exactly
+                if (match.sameTransaction && !match.original.externalId) {
+                  await this.prisma.transaction.update({
+                    where: { id: match.original.id },
+                    data: { externalId: tx.id }
+                  });
+                  continue;
+                }
+              }
+              
+              const ruleOutcome = this.ruleService.apply(rules, {
+                type,
+                amount: tx.amount,
+                description: tx.description,
+                assetId: asset.id
+              });
+              
+              const created = await this.prisma.transaction.create({
                 data: {
-                  type: tx.type === 'credit' ? 'INCOME' : 'EXPENSE',
-                  category: tx.category || 'Other',
+                  type,
+                  category: ruleOutcome?.category || tx.category || 'Other',
+                  tags: ruleOutcome?.tags,
+                  counterparty: ruleOutcome?.counterparty,
                   amount: tx.amount,
                   currency: asset.currency,
                   description: tx.description,
@@ -449,41 +261,173 @@ export class BankingService {
                 }
               });
               imported++;
+              
+              if (match) {
+                await this.duplicateService.flag(created, match, 'sync');
+                flagged++;
+              }
             }
           } catch (error) {
             errors++;
+            if (!oldestFailed || tx.date < oldestFailed) {
+              oldestFailed = tx.date;
+            }
             logger.error('Transaction import error:', error);
           }
         }
         
-        // Update asset balance
+        // Update asset balance, ledger-mode assets keep the bank's figure
+        // only for reconciliation and derive amount from the transactions
         if (transactions.length > 0) {
           const latestTx = transactions[0];
           if (latestTx.balance) {
             await this.prisma.asset.update({
               where: { id: asset.id },
               data: {
-                amount: latestTx.balance,
+                ...(!asset.ledgerMode && { amount: latestTx.balance }),
+                reportedBalance: latestTx.balance,
+                reportedBalanceAt: new Date(),
                 lastSyncedAt: new Date()
               }
             });
           }
         }
+
+        if (asset.ledgerMode) {
+          await this.ledgerService.syncBalance(asset.id);
+          const reconciliation = await this.ledgerService.reconcile(
+            await this.prisma.asset.findUniqueOrThrow({ where: { id: asset.id } })
+          );
+          if (reconciliation.status === 'discrepancy') {
+            logger.warn(`Ledger balance for asset ${asset.id} differs from bank by ${reconciliation.difference} ${asset.currency}`);
+          }
+        }
+
+        // An empty window keeps the cursor where it was, a failed row holds it
+        // back so the next sync fetches that row again
+        const latest = oldestFailed || transactions.reduce<Date | null>(
+          (max, tx) => (!max || tx.date > max ? tx.date : max),
+          cursor ? new Date(cursor.lastTransactionDate) : null
+        );
+        if (latest) {
+          cursors[account.id] = {
+            lastTransactionDate: latest.toISOString(),
+            syncedAt: to.toISOString()
+          };
+        }
       } catch (error) {
         errors++;
+        failedAccounts++;
+        lastAccountError = error;
         logger.error('Account sync error:', error);
       }
     }
+
+    if (accounts.length > 0 && failedAccounts === accounts.length) {
+      throw lastAccountError instanceof Error ? lastAccountError : new Error('All accounts failed to sync');
+    }
     
-    // Update last sync time
+    return { imported, errors, duplicates: flagged, cursors };
+  }
+
+  private async recordSyncSuccess(connection: BankConnection, cursors: Record<string, SyncCursor>): Promise<void> {
+    const { intervalMinutes } = getBankSyncSettings();
+    const now = new Date();
+
     await this.prisma.bankConnection.update({
-      where: { id: connectionId },
-      data: { lastSyncAt: new Date() }
+      where: { id: connection.id },
+      data: {
+        lastSyncAt: now,
+        syncCursors: cursors,
+        nextSyncAt: intervalMinutes > 0 ? addMinutes(now, intervalMinutes) : null,
+        consecutiveFailures: 0,
+        lastError: null,
+        // A manual sync that works again brings a failed connection back
+        ...(connection.status === 'error' && { status: 'active' })
+      }
     });
-    
-    return { imported, errors };
+  }
+
+  /**
+   * Push the next scheduled sync back, doubling the wait with each failure
+   * in a row, and mark the connection as errored once it keeps failing
+   */
+  private async recordSyncFailure(connection: BankConnection, error: unknown): Promise<void> {
+    const { intervalMinutes, maxFailures } = getBankSyncSettings();
+    const failures = connection.consecutiveFailures + 1;
+    const backoff = Math.min(
+      intervalMinutes * 2 ** failures,
+      Math.max(intervalMinutes, MAX_BACKOFF_MINUTES)
+    );
+
+    try {
+      await this.prisma.bankConnection.update({
+        where: { id: connection.id },
+        data: {
+          consecutiveFailures: failures,
+          lastError: error instanceof Error ? error.message : String(error),
+          nextSyncAt: intervalMinutes > 0 ? addMinutes(new Date(), backoff) : null,
+          ...(failures >= maxFailures && connection.status === 'active' && { status: 'error' })
+        }
+      });
+      if (failures >= maxFailures) {
+        logger.warn(`Bank connection ${connection.id} failed to sync ${failures} times in a row`);
+      }
+    } catch (updateError) {
+      logger.error('Failed to record bank sync failure:', updateError);
+    }
   }
   
+  /**
+   * Act on a provider's webhook call
+   * New transactions queue a sync of the connections they belong to, broken
+   * or revoked access is recorded on the connection. Returns the number of
+   * connections affected.
+   */
+  async handleWebhook(
+    providerId: string,
+    body: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<number> {
+    const provider = getBankProvider(providerId);
+    if (!provider?.parseWebhook) {
+      throw new Error(`Unsupported bank provider: ${providerId}`);
+    }
+
+    const events = provider.parseWebhook(body, headers);
+    let affected = 0;
+
+    for (const event of events) {
+      const connections = await this.prisma.bankConnection.findMany({
+        where: {
+          provider: providerId,
+          externalId: event.connectionId,
+          status: { not: 'disconnected' }
+        }
+      });
+
+      for (const connection of connections) {
+        if (event.type === 'transactions.available') {
+          if (connection.status !== 'active') continue;
+          await syncQueue.add(
+            { connectionId: connection.id, userId: connection.userId, organizationId: connection.organizationId },
+            { attempts: 1 }
+          );
+        } else {
+          await this.prisma.bankConnection.update({
+            where: { id: connection.id },
+            data: event.type === 'connection.revoked'
+              ? { status: 'disconnected', lastError: 'Access was revoked at the bank' }
+              : { status: 'error', lastError: event.message }
+          });
+        }
+        affected++;
+      }
+    }
+
+    return affected;
+  }
+
   async disconnectBank(
     connectionId: string,
     userId: string,
@@ -520,22 +464,4 @@ export class BankingService {
       orderBy: { createdAt: 'desc' }
     });
   }
-  
-  private getInstitutionName(provider: string): string {
-    const names: Record<string, string> = {
-      commonwealth: 'Commonwealth Bank',
-      khanbank: 'Khan Bank',
-      basiq: 'Australian Bank'
-    };
-    return names[provider] || provider;
-  }
-  
-  private getCountryForProvider(provider: string): string {
-    const countries: Record<string, string> = {
-      commonwealth: 'AU',
-      khanbank: 'MN',
-      basiq: 'AU'
-    };
-    return countries[provider] || 'AU';
-  }
-}
\ No newline at end of file
+}
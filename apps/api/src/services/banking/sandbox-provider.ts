@@ -0,0 +1,322 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  BankAccount,
+  BankTransaction,
+  BankCredentials,
+  BankConnectResult,
+  BankProvider,
+  BankProviderInfo,
+  BankWebhookEvent
+} from './bank-provider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days of history a new sandbox connection already has
+const HISTORY_DAYS = 120;
+// Card purchases show up this long after their date, like real pending ones
+const POSTING_DELAY_DAYS = 2;
+const WEBHOOK_SIGNATURE_HEADER = 'x-sandbox-signature';
+
+type SandboxScenario = 'ok' | 'flaky' | 'down' | 'expired';
+type AccountKind = 'everyday' | 'savings' | 'card';
+
+interface SandboxSession {
+  scenario: SandboxScenario;
+  seed: string;
+  createdAt: number;
+}
+
+interface Merchant {
+  description: string;
+  category: string;
+  min: number;
+  max: number;
+}
+
+const MERCHANTS: Merchant[] = [
+  { description: 'Woolworths Sydney', category: 'Groceries', min: 18, max: 180 },
+  { description: 'Coles Express', category: 'Groceries', min: 8, max: 95 },
+  { description: 'ALDI Stores', category: 'Groceries', min: 25, max: 140 },
+  { description: 'Opal Transport NSW', category: 'Transport', min: 3.2, max: 17.8 },
+  { description: 'Uber *Trip', category: 'Transport', min: 12, max: 48 },
+  { description: 'Shell Coles Express Fuel', category: 'Transport', min: 45, max: 110 },
+  { description: 'Bourke St Bakery', category: 'Dining', min: 6, max: 24 },
+  { description: 'Guzman y Gomez', category: 'Dining', min: 14, max: 38 },
+  { description: 'Uber *Eats', category: 'Dining', min: 22, max: 65 },
+  { description: 'Chemist Warehouse', category: 'Health', min: 9, max: 70 },
+  { description: 'Kmart', category: 'Shopping', min: 10, max: 120 },
+  { description: 'JB Hi-Fi', category: 'Shopping', min: 29, max: 450 },
+  { description: 'Netflix.com', category: 'Entertainment', min: 18.99, max: 18.99 },
+  { description: 'Spotify P2', category: 'Entertainment', min: 13.99, max: 13.99 }
+];
+
+const ACCOUNTS: { kind: AccountKind; name: string; type: string; opening: [number, number] }[] = [
+  { kind: 'everyday', name: 'Sandbox Everyday', type: 'checking', opening: [1500, 6000] },
+  { kind: 'savings', name: 'Sandbox Saver', type: 'savings', opening: [5000, 40000] },
+  { kind: 'card', name: 'Sandbox Credit Card', type: 'credit', opening: [-2500, -200] }
+];
+
+/**
+ * Sandbox Bank Provider
+ *
+ * A bank that lives in memory, for developing and testing syncs, webhooks
+ * and error handling without real credentials. Every connection gets three
+ * accounts with a realistic history: salary, rent and bills on the
+ * everyday account, monthly interest on the saver and card purchases that
+ * post two days late. Transactions are derived from the connection's seed
+ * and the day, so the same ids come back on every fetch and new ones
+ * appear as days pass.
+ *
+ * The username picks how the bank behaves:
+ *   sandbox_fail     - Login is refused
+ *   sandbox_flaky    - A third of transaction fetches time out
+ *   sandbox_down     - Every transaction fetch fails
+ *   sandbox_expired  - The access token stops working right after connecting
+ * Anything else connects normally.
+ *
+ * Webhooks are signed with SANDBOX_BANK_WEBHOOK_SECRET, see signSandboxWebhook(),
+ * and all rejected while it is not set.
+ */
+export class SandboxBankProvider implements BankProvider {
+  readonly id = 'sandbox';
+  readonly info: BankProviderInfo = {
+    name: 'Sandbox Bank',
+    country: 'AU',
+    authType: 'credentials',
+    dataSource: 'CUSTOM_BANK'
+  };
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async connect(userId: string, credentials: BankCredentials): Promise<BankConnectResult> {
+    const username = credentials.username || '';
+    if (username === 'sandbox_fail') {
+      throw new Error('Sandbox bank refused the login');
+    }
+
+    const scenarios: SandboxScenario[] = ['flaky', 'down', 'expired'];
+    const session: SandboxSession = {
+      scenario: scenarios.find(scenario => username === `sandbox_${scenario}`) || 'ok',
+      seed: randomBytes(6).toString('hex'),
+      createdAt: this.now().getTime()
+    };
+
+    return {
+      accessToken: encodeSession(session),
+      externalId: `sandbox_conn_${session.seed}`,
+      accounts: this.accounts(session)
+    };
+  }
+
+  async getAccounts(accessToken: string): Promise<BankAccount[]> {
+    const session = this.session(accessToken);
+    return this.accounts(session);
+  }
+
+  async getTransactions(accessToken: string, accountId: string, from: Date, to: Date): Promise<BankTransaction[]> {
+    const session = this.session(accessToken);
+
+    if (session.scenario === 'down') {
+      throw new Error('Sandbox bank is unavailable');
+    }
+    if (session.scenario === 'flaky' && Math.random() < 1 / 3) {
+      throw new Error('Sandbox bank timed out');
+    }
+
+    const account = ACCOUNTS.find(candidate => accountId === accountIdFor(session, candidate.kind));
+    if (!account) {
+      throw new Error(`Unknown sandbox account: ${accountId}`);
+    }
+
+    return this.history(session, account.kind)
+      .filter(tx => tx.date >= from && tx.date <= to)
+      .reverse();
+  }
+
+  parseWebhook(body: Buffer, headers: Record<string, string | string[] | undefined>): BankWebhookEvent[] {
+    if (!process.env.SANDBOX_BANK_WEBHOOK_SECRET) {
+      throw new Error('Invalid webhook: sandbox webhooks are not configured');
+    }
+
+    const signature = headers[WEBHOOK_SIGNATURE_HEADER];
+    const expected = Buffer.from(signSandboxWebhook(body));
+    if (
+      typeof signature !== 'string' ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), expected)
+    ) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(body.toString('utf8'));
+    } catch {
+      throw new Error('Invalid webhook payload');
+    }
+
+    const events: BankWebhookEvent[] = [];
+    for (const event of Array.isArray(payload) ? payload : [payload]) {
+      if (typeof event?.connectionId !== 'string') continue;
+      if (event.type === 'transactions.available' || event.type === 'connection.revoked') {
+        events.push({ type: event.type, connectionId: event.connectionId });
+      } else if (event.type === 'connection.error') {
+        events.push({ type: event.type, connectionId: event.connectionId, message: String(event.message || 'Sandbox connection error') });
+      }
+    }
+    return events;
+  }
+
+  private session(accessToken: string): SandboxSession {
+    const session = decodeSession(accessToken);
+    if (session.scenario === 'expired') {
+      throw new Error('Sandbox access token expired');
+    }
+    return session;
+  }
+
+  private accounts(session: SandboxSession): BankAccount[] {
+    return ACCOUNTS.map(account => {
+      const history = this.history(session, account.kind);
+      const last = history[history.length - 1];
+      return {
+        id: accountIdFor(session, account.kind),
+        name: account.name,
+        type: account.type,
+        balance: last?.balance ?? openingBalance(session, account.kind),
+        currency: 'AUD',
+        accountNumber: String(1000 + Math.floor(random(`${session.seed}:${account.kind}:number`)() * 9000))
+      };
+    });
+  }
+
+  /**
+   * Posted transactions of an account up to now, oldest first
+   */
+  private history(session: SandboxSession, kind: AccountKind): BankTransaction[] {
+    const now = this.now();
+    const start = Math.floor(session.createdAt / DAY_MS) - HISTORY_DAYS;
+    const end = Math.floor(now.getTime() / DAY_MS);
+
+    const drafts: Omit<BankTransaction, 'balance'>[] = [];
+    for (let day = start; day <= end; day++) {
+      for (const draft of draftsForDay(session, kind, day)) {
+        const postedAt = draft.date.getTime() + (kind === 'card' && draft.type === 'debit' ? POSTING_DELAY_DAYS * DAY_MS : 0);
+        if (draft.date <= now && postedAt <= now.getTime()) {
+          drafts.push(draft);
+        }
+      }
+    }
+
+    let balance = openingBalance(session, kind);
+    return drafts.map(draft => {
+      balance = round(balance + (draft.type === 'credit' ? draft.amount : -draft.amount));
+      return { ...draft, balance };
+    });
+  }
+}
+
+/**
+ * Signature the sandbox expects in the x-sandbox-signature header
+ * of a webhook call with this body
+ */
+export function signSandboxWebhook(body: string | Buffer): string {
+  const secret = process.env.SANDBOX_BANK_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('SANDBOX_BANK_WEBHOOK_SECRET is not set');
+  }
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function encodeSession(session: SandboxSession): string {
+  return `sandbox.${session.scenario}.${session.seed}.${session.createdAt}`;
+}
+
+function decodeSession(accessToken: string): SandboxSession {
+  const [prefix, scenario, seed, createdAt] = accessToken.split('.');
+  if (prefix !== 'sandbox' || !seed || isNaN(Number(createdAt))) {
+    throw new Error('Invalid sandbox access token');
+  }
+  return { scenario: scenario as SandboxScenario, seed, createdAt: Number(createdAt) };
+}
+
+function accountIdFor(session: SandboxSession, kind: AccountKind): string {
+  return `sandbox_${session.seed}_${kind}`;
+}
+
+function openingBalance(session: SandboxSession, kind: AccountKind): number {
+  const [min, max] = ACCOUNTS.find(account => account.kind === kind)!.opening;
+  return round(min + random(`${session.seed}:${kind}:opening`)() * (max - min));
+}
+
+/**
+ * Transactions an account has on one day (days since the epoch, UTC)
+ */
+function draftsForDay(session: SandboxSession, kind: AccountKind, day: number): Omit<BankTransaction, 'balance'>[] {
+  const next = random(`${session.seed}:${kind}:${day}`);
+  const date = new Date(day * DAY_MS);
+  const dayOfMonth = date.getUTCDate();
+  const lastOfMonth = new Date(date.getTime() + DAY_MS).getUTCDate() === 1;
+  const drafts: Omit<BankTransaction, 'balance'>[] = [];
+
+  const add = (description: string, category: string, amount: number, type: 'credit' | 'debit') => {
+    drafts.push({
+      id: `${accountIdFor(session, kind)}_${date.toISOString().slice(0, 10).replace(/-/g, '')}_${drafts.length + 1}`,
+      // Spread over the day in order, ids stay stable whatever the hour
+      date: new Date(date.getTime() + (8 + drafts.length * 2 + Math.floor(next() * 2)) * 60 * 60 * 1000),
+      description,
+      amount: round(amount),
+      type,
+      category
+    });
+  };
+
+  if (kind === 'everyday') {
+    if (dayOfMonth === 1 || dayOfMonth === 15) add('Salary Sandbox Pty Ltd', 'Income', 2450 + next() * 200, 'credit');
+    if (dayOfMonth === 3) add('Rent Ray White Realty', 'Housing', 1950, 'debit');
+    if (dayOfMonth === 2) add('Transfer to Sandbox Saver', 'Transfer', 500, 'debit');
+    if (dayOfMonth === 12) add('Origin Energy', 'Utilities', 95 + next() * 90, 'debit');
+    if (dayOfMonth === 18) add('Telstra Mobile', 'Utilities', 65, 'debit');
+    if (dayOfMonth === 25) add('Sandbox Credit Card Payment', 'Transfer', cardPayment(session, day), 'debit');
+
+    const purchases = Math.floor(next() * 2);
+    for (let i = 0; i < purchases; i++) {
+      const merchant = MERCHANTS[Math.floor(next() * MERCHANTS.length)];
+      add(merchant.description, merchant.category, merchant.min + next() * (merchant.max - merchant.min), 'debit');
+    }
+  } else if (kind === 'savings') {
+    if (dayOfMonth === 2) add('Transfer from Sandbox Everyday', 'Transfer', 500, 'credit');
+    if (lastOfMonth) add('Interest Credit', 'Income', 15 + next() * 45, 'credit');
+  } else {
+    if (dayOfMonth === 25) add('Payment Received Thank You', 'Transfer', cardPayment(session, day), 'credit');
+
+    const purchases = next() < 0.6 ? 1 + Math.floor(next() * 2) : 0;
+    for (let i = 0; i < purchases; i++) {
+      const merchant = MERCHANTS[Math.floor(next() * MERCHANTS.length)];
+      add(merchant.description, merchant.category, merchant.min + next() * (merchant.max - merchant.min), 'debit');
+    }
+  }
+
+  return drafts;
+}
+
+// Both sides of the monthly card payment carry the same amount
+function cardPayment(session: SandboxSession, day: number): number {
+  return 1200 + random(`${session.seed}:card-payment:${day}`)() * 800;
+}
+
+/**
+ * Deterministic random numbers in [0, 1) for a key (mulberry32)
+ */
+function random(key: string): () => number {
+  let state = createHash('sha256').update(key).digest().readUInt32BE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
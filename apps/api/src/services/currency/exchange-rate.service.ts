@@ -1,20 +1,45 @@
+import { Prisma } from '@prisma/client';
 import { redis } from '../../lib/redis';
-import axios from 'axios';
+import { prisma } from '../../lib/prisma';
+import { RateSource, createRateSources } from './rate-sources';
+
+export const SUPPORTED_CURRENCIES = ['AUD', 'MNT', 'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'KRW', 'THB', 'VND'];
+
+// Provider name reported for organization-pinned rates
+export const OVERRIDE_PROVIDER = 'override';
+
+interface RateQuote {
+  rate: number;
+  provider: string; // Rate source name, or "override" for organization-pinned rates
+  date: string; // YYYY-MM-DD the rate applies to
+}
+
+interface RateOptions {
+  date?: Date; // Convert at this day's rate instead of today's
+  organizationId?: string; // Apply this organization's manual overrides
+}
 
 /**
  * Exchange Rate Service
  *
- * Fetches and caches currency exchange rates from a free API.
+ * Fetches and caches currency exchange rates from a chain of rate sources,
+ * trying each in order until one answers (see EXCHANGE_RATE_SOURCE).
  * Supports 160+ currencies including AUD, MNT, USD, EUR, GBP, JPY.
  *
- * Free API: https://open.exchangerate-api.com (1500 requests/month)
+ * Today's rates are cached in Redis. Every fetched day is also stored in the
+ * ExchangeRate table so historical amounts can be converted at the rate of
+ * the day they happened (see getRateOn). Organizations can pin their own rate
+ * for a currency pair and date range, which wins over every source.
+ *
+ * Default source: https://open.exchangerate-api.com (1500 requests/month)
  * Data source: European Central Bank (ECB)
  */
 export class ExchangeRateService {
-  private readonly API_BASE_URL = 'https://open.exchangerate-api.com/v6';
   private readonly CACHE_TTL = 24 * 60 * 60; // 24 hours in seconds
   private readonly CACHE_PREFIX = 'exchange_rates';
 
+  constructor(private sources: RateSource[] = createRateSources()) {}
+
   /**
    * Get exchange rate from one currency to another
    * @param from - Source currency code (e.g., "MNT")
@@ -22,21 +47,54 @@ export class ExchangeRateService {
    * @returns Exchange rate (e.g., 0.000416 for MNT to AUD)
    */
   async getRate(from: string, to: string): Promise<number> {
+    return (await this.getQuote(from, to)).rate;
+  }
+
+  /**
+   * Get the exchange rate that applied on a given day
+   * Falls back to the nearest previous stored day when no source has a
+   * rate for that day, then to the nearest later stored day, then to today's
+   * rate.
+   *
+   * @param from - Source currency code (e.g., "MNT")
+   * @param to - Target currency code (e.g., "AUD")
+   * @param date - Day the rate should apply to (e.g., a transaction date)
+   * @returns Exchange rate on that day
+   */
+  async getRateOn(from: string, to: string, date: Date): Promise<number> {
+    return (await this.getQuote(from, to, { date })).rate;
+  }
+
+  /**
+   * Get an exchange rate together with the provider that supplied it
+   * Organization overrides are checked first, then today's cached rates or
+   * the stored/fetched rates for the requested day.
+   *
+   * @param from - Source currency code
+   * @param to - Target currency code
+   * @param options - Optional date and organization
+   * @returns Rate, provider name and the day the rate applies to
+   */
+  async getQuote(from: string, to: string, options: RateOptions = {}): Promise<RateQuote> {
+    const day = this.toRateDate(options.date || new Date());
+
     // If same currency, rate is 1
     if (from === to) {
-      return 1.0;
+      return { rate: 1.0, provider: 'identity', date: this.formatDay(day) };
     }
 
-    // Get all rates for the source currency
-    const rates = await this.getRates(from);
+    if (options.organizationId) {
+      const override = await this.findOverride(options.organizationId, from, to, day);
+      if (override) {
+        return override;
+      }
+    }
 
-    // Return the rate for the target currency
-    const rate = rates[to];
-    if (!rate) {
-      throw new Error(`Exchange rate not available for ${from} to ${to}`);
+    if (!options.date) {
+      return this.getLatestQuote(from, to);
     }
 
-    return rate;
+    return this.getHistoricalQuote(from, to, day);
   }
 
   /**
@@ -44,10 +102,11 @@ export class ExchangeRateService {
    * @param amount - Amount to convert
    * @param from - Source currency code
    * @param to - Target currency code
+   * @param options - Optional day to convert at (defaults to today) and organization
    * @returns Converted amount
    */
-  async convert(amount: number, from: string, to: string): Promise<number> {
-    const rate = await this.getRate(from, to);
+  async convert(amount: number, from: string, to: string, options: RateOptions = {}): Promise<number> {
+    const { rate } = await this.getQuote(from, to, options);
     return amount * rate;
   }
 
@@ -59,6 +118,14 @@ export class ExchangeRateService {
    * @returns Object with currency codes as keys and rates as values
    */
   async getRates(baseCurrency: string): Promise<Record<string, number>> {
+    return (await this.getLatestRates(baseCurrency)).rates;
+  }
+
+  /**
+   * Get today's rates for a base currency and the provider that supplied them
+   * @private
+   */
+  private async getLatestRates(baseCurrency: string): Promise<{ rates: Record<string, number>; provider: string }> {
     const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
     const cacheKey = `${this.CACHE_PREFIX}:${baseCurrency}:${today}`;
 
@@ -66,16 +133,18 @@ export class ExchangeRateService {
       // Try to get from cache first
       const cached = await redis.get(cacheKey);
       if (cached) {
-        return JSON.parse(cached);
+        const provider = await redis.get(`${cacheKey}:provider`);
+        return { rates: JSON.parse(cached), provider: provider || 'cache' };
       }
 
-      // If not in cache, fetch from API
-      const rates = await this.fetchRatesFromAPI(baseCurrency);
+      // If not in cache, fetch from the rate sources and keep the day in the database
+      const result = await this.fetchAndStoreRates(baseCurrency, this.toRateDate(new Date()));
 
       // Cache the result
-      await redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(rates));
+      await redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(result.rates));
+      await redis.setex(`${cacheKey}:provider`, this.CACHE_TTL, result.provider);
 
-      return rates;
+      return result;
     } catch (error) {
       console.error(`Error fetching exchange rates for ${baseCurrency}:`, error);
 
@@ -87,7 +156,8 @@ export class ExchangeRateService {
       const fallbackCached = await redis.get(yesterdayCacheKey);
       if (fallbackCached) {
         console.warn(`Using yesterday's exchange rates for ${baseCurrency} as fallback`);
-        return JSON.parse(fallbackCached);
+        const provider = await redis.get(`${yesterdayCacheKey}:provider`);
+        return { rates: JSON.parse(fallbackCached), provider: provider || 'cache' };
       }
 
       throw new Error(`Failed to fetch exchange rates for ${baseCurrency} and no cached rates available`);
@@ -95,19 +165,234 @@ export class ExchangeRateService {
   }
 
   /**
-   * Fetch exchange rates from the API
+   * Get today's rate for a pair
+   * @private
+   */
+  private async getLatestQuote(from: string, to: string): Promise<RateQuote> {
+    // Get all rates for the source currency
+    const { rates, provider } = await this.getLatestRates(from);
+
+    // Return the rate for the target currency
+    const rate = rates[to];
+    if (!rate) {
+      throw new Error(`Exchange rate not available for ${from} to ${to}`);
+    }
+
+    return { rate, provider, date: new Date().toISOString().split('T')[0] };
+  }
+
+  /**
+   * Get the rate for a pair on a past day, stored or freshly fetched
+   * @private
+   */
+  private async getHistoricalQuote(from: string, to: string, day: Date): Promise<RateQuote> {
+    const stored = await this.findStoredRate(from, to, day);
+
+    if (stored && stored.date === this.formatDay(day)) {
+      return stored;
+    }
+
+    try {
+      const { rates, provider } = await this.fetchAndStoreRates(from, day);
+      if (rates[to]) {
+        return { rate: rates[to], provider, date: this.formatDay(day) };
+      }
+    } catch (error) {
+      console.warn(`Could not fetch ${from} rates for ${this.formatDay(day)}:`, error instanceof Error ? error.message : error);
+    }
+
+    // Days before the first stored rate, e.g. on a fresh install, use the closest rate there is
+    const fallback = stored || await this.findStoredRate(from, to, day, 'after') || await this.getLatestQuote(from, to);
+    console.warn(`Using ${from}/${to} rate from ${fallback.date} for ${this.formatDay(day)}`);
+    return fallback;
+  }
+
+  /**
+   * Fetch a day's rates from the first rate source that has them
+   * @private
+   */
+  private async fetchFromSources(
+    baseCurrency: string,
+    day: Date
+  ): Promise<{ rates: Record<string, number>; provider: string }> {
+    const failures: string[] = [];
+
+    for (const source of this.sources) {
+      try {
+        const rates = await source.getRates(baseCurrency, day);
+        return { rates, provider: source.name };
+      } catch (error) {
+        failures.push(`${source.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    throw new Error(`No rate source has ${baseCurrency} rates for ${this.formatDay(day)} (${failures.join('; ')})`);
+  }
+
+  /**
+   * Fetch a day's rates from the rate sources and persist them
+   * Storage failures are logged, not thrown, so conversions keep working
+   * while the database is unavailable.
+   * @private
+   */
+  private async fetchAndStoreRates(
+    baseCurrency: string,
+    day: Date
+  ): Promise<{ rates: Record<string, number>; provider: string }> {
+    const result = await this.fetchFromSources(baseCurrency, day);
+
+    try {
+      await this.storeRates(baseCurrency, day, result.rates, result.provider);
+    } catch (error) {
+      console.error(`Failed to store ${baseCurrency} rates for ${this.formatDay(day)}:`, error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Store a day's rates for a base currency, replacing existing rows
+   * @private
+   */
+  private async storeRates(
+    baseCurrency: string,
+    day: Date,
+    rates: Record<string, number>,
+    source: string
+  ): Promise<void> {
+    const quotes = Object.entries(rates).filter(([quote, rate]) => quote !== baseCurrency && rate > 0);
+
+    await prisma.$transaction([
+      prisma.exchangeRate.deleteMany({
+        where: { base: baseCurrency, date: day, quote: { in: quotes.map(([quote]) => quote) } }
+      }),
+      prisma.exchangeRate.createMany({
+        data: quotes.map(([quote, rate]) => ({
+          base: baseCurrency,
+          quote,
+          date: day,
+          rate: new Prisma.Decimal(rate),
+          source
+        }))
+      })
+    ]);
+  }
+
+  /**
+   * Find the closest stored rate on or before a day, or on or after it
+   * Also checks the inverse pair, so AUD->MNT can be answered from MNT->AUD.
+   * @private
+   */
+  private async findStoredRate(
+    from: string,
+    to: string,
+    day: Date,
+    direction: 'before' | 'after' = 'before'
+  ): Promise<RateQuote | null> {
+    const date = direction === 'before' ? { lte: day } : { gte: day };
+    const orderBy = { date: direction === 'before' ? 'desc' as const : 'asc' as const };
+
+    const [direct, inverse] = await Promise.all([
+      prisma.exchangeRate.findFirst({ where: { base: from, quote: to, date }, orderBy }),
+      prisma.exchangeRate.findFirst({ where: { base: to, quote: from, date }, orderBy })
+    ]);
+
+    const directIsCloser = direct && inverse && (direction === 'before' ? direct.date >= inverse.date : direct.date <= inverse.date);
+    if (direct && (!inverse || directIsCloser)) {
+      return { rate: direct.rate.toNumber(), provider: direct.source, date: this.formatDay(direct.date) };
+    }
+
+    if (inverse && !inverse.rate.isZero()) {
+      return { rate: 1 / inverse.rate.toNumber(), provider: inverse.source, date: this.formatDay(inverse.date) };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find an organization's pinned rate covering a day
+   * The most recently started range wins when ranges overlap.
    * @private
    */
-  private async fetchRatesFromAPI(baseCurrency: string): Promise<Record<string, number>> {
-    const response = await axios.get(`${this.API_BASE_URL}/latest/${baseCurrency}`, {
-      timeout: 5000, // 5 second timeout
+  private async findOverride(
+    organizationId: string,
+    from: string,
+    to: string,
+    day: Date
+  ): Promise<RateQuote | null> {
+    const override = await prisma.exchangeRateOverride.findFirst({
+      where: {
+        organizationId,
+        OR: [
+          { base: from, quote: to },
+          { base: to, quote: from }
+        ],
+        validFrom: { lte: day },
+        AND: [{ OR: [{ validTo: null }, { validTo: { gte: day } }] }]
+      },
+      orderBy: { validFrom: 'desc' }
     });
 
-    if (!response.data || !response.data.rates) {
-      throw new Error('Invalid response from exchange rate API');
+    if (!override || override.rate.isZero()) {
+      return null;
     }
 
-    return response.data.rates;
+    const rate = override.base === from ? override.rate.toNumber() : 1 / override.rate.toNumber();
+    return { rate, provider: OVERRIDE_PROVIDER, date: this.formatDay(day) };
+  }
+
+  /**
+   * Load historical rates for a base currency into the database
+   * Days that are already stored are skipped.
+   *
+   * @param baseCurrency - Base currency code
+   * @param from - First day to backfill
+   * @param to - Last day to backfill
+   * @returns Number of days fetched, skipped and failed
+   */
+  async backfillRates(
+    baseCurrency: string,
+    from: Date,
+    to: Date
+  ): Promise<{ fetched: number; skipped: number; failed: number }> {
+    const result = { fetched: 0, skipped: 0, failed: 0 };
+    const last = this.toRateDate(to);
+
+    for (let day = this.toRateDate(from); day <= last; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+      const existing = await prisma.exchangeRate.count({
+        where: { base: baseCurrency, date: day }
+      });
+
+      if (existing > 0) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const { rates, provider } = await this.fetchFromSources(baseCurrency, day);
+        await this.storeRates(baseCurrency, day, rates, provider);
+        result.fetched++;
+      } catch (error) {
+        result.failed++;
+        console.error(`✗ Failed to backfill ${baseCurrency} for ${this.formatDay(day)}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Normalize a date to the start of its UTC day, never later than today
+   * @private
+   */
+  private toRateDate(date: Date): Date {
+    const day = new Date(date.toISOString().split('T')[0]);
+    const today = new Date(new Date().toISOString().split('T')[0]);
+    return day > today ? today : day;
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().split('T')[0];
   }
 
   /**
@@ -115,11 +400,9 @@ export class ExchangeRateService {
    * This can be called by a cron job
    */
   async refreshRates(): Promise<void> {
-    const supportedCurrencies = ['AUD', 'MNT', 'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'KRW', 'THB', 'VND'];
-
     console.log('Starting exchange rate refresh...');
 
-    for (const currency of supportedCurrencies) {
+    for (const currency of SUPPORTED_CURRENCIES) {
       try {
         // This will fetch and cache the rates
         await this.getRates(currency);
@@ -160,18 +443,23 @@ export class ExchangeRateService {
    * Convert multiple amounts with different currencies to a single target currency
    * Useful for budget totals
    *
-   * @param amounts - Array of { amount, currency } objects
+   * @param amounts - Array of { amount, currency, date? } objects, dated items use that day's rate
    * @param targetCurrency - Target currency to convert to
+   * @param organizationId - Optional organization whose overrides apply
    * @returns Total amount in target currency
    */
   async convertMultiple(
-    amounts: Array<{ amount: number; currency: string }>,
-    targetCurrency: string
+    amounts: Array<{ amount: number; currency: string; date?: Date }>,
+    targetCurrency: string,
+    organizationId?: string
   ): Promise<number> {
     let total = 0;
 
     for (const item of amounts) {
-      const converted = await this.convert(item.amount, item.currency, targetCurrency);
+      const converted = await this.convert(item.amount, item.currency, targetCurrency, {
+        date: item.date,
+        organizationId
+      });
       total += converted;
     }
 
@@ -180,24 +468,29 @@ export class ExchangeRateService {
 
   /**
    * Get conversion details for display purposes
-   * Returns both the converted amount and the exchange rate used
+   * Returns the converted amount, the exchange rate used and which
+   * provider supplied it
    *
    * @param amount - Amount to convert
    * @param from - Source currency
    * @param to - Target currency
-   * @returns Object with convertedAmount and exchangeRate
+   * @param options - Optional day to convert at (defaults to today) and organization
+   * @returns Object with convertedAmount, exchangeRate, provider and rateDate
    */
   async getConversionDetails(
     amount: number,
     from: string,
-    to: string
-  ): Promise<{ convertedAmount: number; exchangeRate: number }> {
-    const exchangeRate = await this.getRate(from, to);
-    const convertedAmount = amount * exchangeRate;
+    to: string,
+    options: RateOptions = {}
+  ): Promise<{ convertedAmount: number; exchangeRate: number; provider: string; rateDate: string }> {
+    const quote = await this.getQuote(from, to, options);
+    const convertedAmount = amount * quote.rate;
 
     return {
       convertedAmount,
-      exchangeRate,
+      exchangeRate: quote.rate,
+      provider: quote.provider,
+      rateDate: quote.date,
     };
   }
 }
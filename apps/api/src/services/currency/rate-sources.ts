@@ -0,0 +1,281 @@
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import { parse } from 'csv-parse/sync';
+
+/**
+ * Rate Source
+ *
+ * Supplies daily exchange rates for a base currency. The ExchangeRateService
+ * persists whatever a source returns, so sources only need to answer for a
+ * single day and do not cache.
+ */
+export interface RateSource {
+  readonly name: string;
+
+  /**
+   * Get all rates for a base currency on a given day
+   * @param baseCurrency - Base currency code (e.g., "AUD")
+   * @param date - Day to get rates for (UTC)
+   * @returns Object with currency codes as keys and rates as values
+   */
+  getRates(baseCurrency: string, date: Date): Promise<Record<string, number>>;
+}
+
+/**
+ * open.exchangerate-api.com source
+ *
+ * The free endpoint only serves today's rates. Historical days need
+ * EXCHANGE_RATE_API_KEY for the v6 history endpoint.
+ */
+export class ExchangeRateApiSource implements RateSource {
+  readonly name = 'exchangerate-api';
+  private readonly API_BASE_URL = 'https://open.exchangerate-api.com/v6';
+  private readonly HISTORY_BASE_URL = 'https://v6.exchangerate-api.com/v6';
+
+  constructor(private apiKey: string | undefined = process.env.EXCHANGE_RATE_API_KEY) {}
+
+  async getRates(baseCurrency: string, date: Date): Promise<Record<string, number>> {
+    const day = date.toISOString().split('T')[0];
+    const today = new Date().toISOString().split('T')[0];
+
+    if (day >= today) {
+      const response = await axios.get(`${this.API_BASE_URL}/latest/${baseCurrency}`, {
+        timeout: 5000, // 5 second timeout
+      });
+
+      if (!response.data || !response.data.rates) {
+        throw new Error('Invalid response from exchange rate API');
+      }
+
+      return response.data.rates;
+    }
+
+    if (!this.apiKey) {
+      throw new Error(`Historical rates for ${day} require EXCHANGE_RATE_API_KEY`);
+    }
+
+    const [year, month, dayOfMonth] = day.split('-').map(Number);
+    const response = await axios.get(
+      `${this.HISTORY_BASE_URL}/${this.apiKey}/history/${baseCurrency}/${year}/${month}/${dayOfMonth}`,
+      { timeout: 5000 }
+    );
+
+    if (!response.data || !response.data.conversion_rates) {
+      throw new Error('Invalid response from exchange rate API');
+    }
+
+    return response.data.conversion_rates;
+  }
+}
+
+/**
+ * File-based source for local development and tests, no network needed
+ *
+ * Expects a JSON file keyed by day, then base currency:
+ *   { "2024-01-15": { "AUD": { "MNT": 2251.3, "USD": 0.66 } } }
+ *
+ * Bases missing from a day are derived through cross rates when another
+ * base on that day quotes them.
+ */
+export class FileRateSource implements RateSource {
+  readonly name = 'file';
+  private data: Record<string, Record<string, Record<string, number>>> | null = null;
+
+  constructor(private filePath: string) {}
+
+  async getRates(baseCurrency: string, date: Date): Promise<Record<string, number>> {
+    const day = date.toISOString().split('T')[0];
+    const dayRates = this.load()[day];
+
+    if (!dayRates) {
+      throw new Error(`No rates in ${this.filePath} for ${day}`);
+    }
+
+    if (dayRates[baseCurrency]) {
+      return { [baseCurrency]: 1, ...dayRates[baseCurrency] };
+    }
+
+    // Derive from another base that quotes this currency
+    for (const [otherBase, quotes] of Object.entries(dayRates)) {
+      const rates = crossRates(quotes, otherBase, baseCurrency);
+      if (rates) {
+        return rates;
+      }
+    }
+
+    throw new Error(`No rates in ${this.filePath} for ${baseCurrency} on ${day}`);
+  }
+
+  private load(): Record<string, Record<string, Record<string, number>>> {
+    if (!this.data) {
+      this.data = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+    }
+    return this.data!;
+  }
+}
+
+/**
+ * ECB-style CSV file source
+ *
+ * Reads the European Central Bank reference rate history layout
+ * (eurofxref-hist.csv): a Date column followed by one column per currency,
+ * each holding how much of that currency 1 EUR buys. Other bases are
+ * derived through EUR.
+ */
+export class EcbCsvRateSource implements RateSource {
+  readonly name = 'ecb-csv';
+  private data: Map<string, Record<string, number>> | null = null;
+
+  constructor(private filePath: string) {}
+
+  async getRates(baseCurrency: string, date: Date): Promise<Record<string, number>> {
+    const day = date.toISOString().split('T')[0];
+    const eurRates = this.load().get(day);
+
+    if (!eurRates) {
+      throw new Error(`No rates in ${this.filePath} for ${day}`);
+    }
+
+    const rates = crossRates(eurRates, 'EUR', baseCurrency);
+    if (!rates) {
+      throw new Error(`No rates in ${this.filePath} for ${baseCurrency} on ${day}`);
+    }
+
+    return rates;
+  }
+
+  private load(): Map<string, Record<string, number>> {
+    if (!this.data) {
+      const rows: Record<string, string>[] = parse(readFileSync(this.filePath, 'utf-8'), {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true
+      });
+
+      this.data = new Map();
+      for (const row of rows) {
+        const rates: Record<string, number> = {};
+        for (const [currency, value] of Object.entries(row)) {
+          const rate = parseFloat(value);
+          if (currency && currency !== 'Date' && !isNaN(rate)) {
+            rates[currency] = rate;
+          }
+        }
+        this.data.set(row.Date, rates);
+      }
+    }
+    return this.data;
+  }
+}
+
+/**
+ * Central bank feed source
+ *
+ * Reads a daily JSON feed of official rates quoted the way central banks
+ * publish them: units of the local currency per one unit of each foreign
+ * currency, e.g. Mongolbank's MNT rates:
+ *   { "rates": { "USD": 3450.12, "AUD": 2251.30 } }
+ *
+ * The feed URL may contain {date}, replaced with YYYY-MM-DD.
+ */
+export class CentralBankRateSource implements RateSource {
+  readonly name = 'central-bank';
+
+  constructor(
+    private feedUrl: string,
+    private localCurrency: string = 'MNT'
+  ) {}
+
+  async getRates(baseCurrency: string, date: Date): Promise<Record<string, number>> {
+    const day = date.toISOString().split('T')[0];
+    const response = await axios.get(this.feedUrl.replace('{date}', day), {
+      timeout: 5000,
+    });
+
+    if (!response.data || !response.data.rates) {
+      throw new Error('Invalid response from central bank feed');
+    }
+
+    // Turn "local per foreign" into "foreign per local" so the local currency is the pivot
+    const localRates: Record<string, number> = {};
+    for (const [currency, value] of Object.entries(response.data.rates)) {
+      const rate = Number(value);
+      if (rate > 0) {
+        localRates[currency] = 1 / rate;
+      }
+    }
+
+    const rates = crossRates(localRates, this.localCurrency, baseCurrency);
+    if (!rates) {
+      throw new Error(`Central bank feed has no ${baseCurrency} rate for ${day}`);
+    }
+
+    return rates;
+  }
+}
+
+/**
+ * Derive rates for a base currency from rates quoted against a pivot currency
+ * @param pivotRates - How much of each currency 1 unit of the pivot buys
+ * @returns Rates for the base currency, or null when the pivot does not quote it
+ */
+function crossRates(
+  pivotRates: Record<string, number>,
+  pivot: string,
+  baseCurrency: string
+): Record<string, number> | null {
+  const withPivot = { ...pivotRates, [pivot]: 1 };
+  const baseRate = withPivot[baseCurrency];
+
+  if (!baseRate) {
+    return null;
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [quote, rate] of Object.entries(withPivot)) {
+    rates[quote] = rate / baseRate;
+  }
+  return rates;
+}
+
+/**
+ * Create the rate source chain configured through EXCHANGE_RATE_SOURCE
+ *
+ * A comma-separated list tried in order, e.g. "central-bank,ecb-csv,api":
+ *   api           - exchangerate-api (default)
+ *   file          - JSON file at EXCHANGE_RATE_FILE
+ *   ecb-csv       - ECB CSV file at ECB_RATES_FILE
+ *   central-bank  - JSON feed at CENTRAL_BANK_RATES_URL quoted in CENTRAL_BANK_CURRENCY (default MNT)
+ */
+export function createRateSources(): RateSource[] {
+  const names = (process.env.EXCHANGE_RATE_SOURCE || 'api')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.map(name => {
+    switch (name) {
+      case 'api':
+        return new ExchangeRateApiSource();
+      case 'file':
+        return new FileRateSource(requireEnv('EXCHANGE_RATE_FILE', name));
+      case 'ecb-csv':
+        return new EcbCsvRateSource(requireEnv('ECB_RATES_FILE', name));
+      case 'central-bank':
+        return new CentralBankRateSource(
+          requireEnv('CENTRAL_BANK_RATES_URL', name),
+          process.env.CENTRAL_BANK_CURRENCY || 'MNT'
+        );
+      default:
+        throw new Error(`Unknown exchange rate source: ${name}`);
+    }
+  });
+}
+
+function requireEnv(key: string, source: string): string {
+  const value = process.env[key];
+  if (!value) {
+    throw new Error(`${key} must be set to use the ${source} exchange rate source`);
+  }
+  return value;
+}
@@ -0,0 +1,53 @@
+import { parseReceipt } from '../receipt-extractor';
+
+describe('parseReceipt', () => {
+  it('reads merchant, date, total and currency from a receipt', () => {
+    const text = `
+      TAX INVOICE
+      Bourke St Bakery
+      ABN 12 345 678 901
+      15/01/2024 08:42
+      Flat white          5.50
+      Sausage roll        7.20
+      Subtotal           12.70
+      GST                 1.15
+      TOTAL AUD          12.70
+      Cash               20.00
+      Change              7.30
+    `;
+
+    expect(parseReceipt(text)).toEqual({
+      merchant: 'Bourke St Bakery',
+      date: '2024-01-15',
+      total: 12.7,
+      currency: 'AUD',
+      confidence: 1
+    });
+  });
+
+  it('reads thousands separators and currency symbols', () => {
+    const proposal = parseReceipt('JB Hi-Fi\n2 Feb 2024\nTotal due  €1.249,00');
+
+    expect(proposal).toEqual(expect.objectContaining({ date: '2024-02-02', total: 1249, currency: 'EUR' }));
+  });
+
+  it('reads Mongolian receipts', () => {
+    const proposal = parseReceipt('Номин супермаркет\n2024.03.05\nТалх   2,500.00\nНийт дүн   12,500.00 ₮\nНӨАТ   1,136.36\nБэлэн   20,000.00');
+
+    expect(proposal).toEqual({
+      merchant: 'Номин супермаркет',
+      date: '2024-03-05',
+      total: 12500,
+      currency: 'MNT',
+      confidence: 1
+    });
+  });
+
+  it('falls back to the largest amount without a total line', () => {
+    expect(parseReceipt('Corner Store\nMilk 3.20\nBread 4.50').total).toBe(4.5);
+  });
+
+  it('lowers the confidence for what it could not find', () => {
+    expect(parseReceipt('12.00')).toEqual({ merchant: null, date: null, total: 12, currency: null, confidence: 0.33 });
+  });
+});
@@ -0,0 +1,251 @@
+import { PrismaClient, Prisma, Document, DocumentType } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { getDocumentStorage } from './storage';
+import { OCR_MIME_TYPES, isOcrEnabled, recognizeText, parseReceipt, ReceiptProposal } from './receipt-extractor';
+import { logger } from '../../utils/logger';
+
+interface UploadInput {
+  name?: string;
+  type: DocumentType;
+  assetId?: string;
+  transactionId?: string;
+}
+
+interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Proposed transaction, ready to be posted to /api/transactions
+interface TransactionProposal extends ReceiptProposal {
+  type: 'EXPENSE';
+  assetId: string | null;
+}
+
+/**
+ * Document Service
+ *
+ * Stores receipts, statements and other documents through the configured
+ * storage adapter and links them to assets or transactions. Receipt
+ * images are run through local OCR to propose a transaction from the
+ * merchant, date and total on them.
+ */
+export class DocumentService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Store an uploaded file
+   * Images are queued for OCR; the returned document has extractionStatus
+   * PENDING until extraction finishes.
+   *
+   * @returns The document, or null when a linked asset or transaction is not accessible
+   */
+  async upload(
+    userId: string,
+    organizationId: string,
+    file: UploadedFile,
+    input: UploadInput
+  ): Promise<Document | null> {
+    if (!(await this.canLink(userId, organizationId, input))) {
+      return null;
+    }
+
+    const storage = getDocumentStorage();
+    const safeName = file.originalname.replace(/[^\w.-]+/g, '_').slice(-100);
+    const storageKey = `${organizationId}/${userId}/${randomUUID()}-${safeName}`;
+
+    await storage.put(storageKey, file.buffer, file.mimetype);
+
+    const extract = isOcrEnabled() && OCR_MIME_TYPES.includes(file.mimetype);
+
+    const document = await this.prisma.document.create({
+      data: {
+        name: input.name || file.originalname,
+        type: input.type,
+        url: '', // Set below once the id is known
+        size: file.size,
+        mimeType: file.mimetype,
+        storage: storage.name,
+        storageKey,
+        userId,
+        assetId: input.assetId,
+        transactionId: input.transactionId,
+        extractionStatus: extract ? 'PENDING' : 'NONE'
+      }
+    });
+
+    const created = await this.prisma.document.update({
+      where: { id: document.id },
+      data: { url: `/api/documents/${document.id}/download` }
+    });
+
+    if (extract) {
+      // OCR can take seconds, the upload does not wait for it
+      this.extract(document.id, userId).catch(error =>
+        logger.error(`Document extraction failed for ${document.id}:`, error)
+      );
+    }
+
+    return created;
+  }
+
+  async getDocuments(
+    userId: string,
+    filters: { type?: DocumentType; assetId?: string; transactionId?: string } = {}
+  ): Promise<Document[]> {
+    return this.prisma.document.findMany({
+      where: {
+        userId,
+        ...(filters.type && { type: filters.type }),
+        ...(filters.assetId && { assetId: filters.assetId }),
+        ...(filters.transactionId && { transactionId: filters.transactionId })
+      },
+      include: {
+        asset: { select: { id: true, name: true } },
+        transaction: { select: { id: true, description: true, amount: true, currency: true, date: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  async getDocumentById(documentId: string, userId: string): Promise<Document | null> {
+    return this.prisma.document.findFirst({
+      where: { id: documentId, userId }
+    });
+  }
+
+  /**
+   * Read a document's file
+   * @returns The document and its content, or null when not found
+   */
+  async download(documentId: string, userId: string): Promise<{ document: Document; content: Buffer } | null> {
+    const document = await this.getDocumentById(documentId, userId);
+    if (!document || !document.storageKey) {
+      return null;
+    }
+
+    const content = await getDocumentStorage(document.storage).get(document.storageKey);
+    return { document, content };
+  }
+
+  /**
+   * Rename, retype or relink a document
+   */
+  async updateDocument(
+    documentId: string,
+    userId: string,
+    organizationId: string,
+    input: { name?: string; type?: DocumentType; assetId?: string | null; transactionId?: string | null }
+  ): Promise<Document> {
+    const document = await this.getDocumentById(documentId, userId);
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    if (!(await this.canLink(userId, organizationId, {
+      assetId: input.assetId || undefined,
+      transactionId: input.transactionId || undefined
+    }))) {
+      throw new Error('Asset or transaction not found');
+    }
+
+    return this.prisma.document.update({
+      where: { id: documentId },
+      data: input
+    });
+  }
+
+  async deleteDocument(documentId: string, userId: string): Promise<void> {
+    const document = await this.getDocumentById(documentId, userId);
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    await this.prisma.document.delete({ where: { id: documentId } });
+
+    if (document.storageKey) {
+      try {
+        await getDocumentStorage(document.storage).delete(document.storageKey);
+      } catch (error) {
+        // The row is gone, an orphaned file is only wasted space
+        logger.error(`Failed to delete stored file for document ${documentId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Run OCR over a document image and propose a transaction from it
+   * @returns The proposal, also stored on the document's extraction field
+   */
+  async extract(documentId: string, userId: string): Promise<TransactionProposal> {
+    const document = await this.getDocumentById(documentId, userId);
+    if (!document || !document.storageKey) {
+      throw new Error('Document not found');
+    }
+
+    if (!OCR_MIME_TYPES.includes(document.mimeType)) {
+      throw new Error(`OCR is not supported for ${document.mimeType} files`);
+    }
+
+    if (!isOcrEnabled()) {
+      throw new Error('OCR is disabled');
+    }
+
+    try {
+      const content = await getDocumentStorage(document.storage).get(document.storageKey);
+      const text = await recognizeText(content);
+      const proposal: TransactionProposal = {
+        ...parseReceipt(text),
+        type: 'EXPENSE',
+        assetId: document.assetId
+      };
+
+      await this.prisma.document.update({
+        where: { id: documentId },
+        data: {
+          extractionStatus: 'COMPLETED',
+          extractedText: text,
+          extraction: proposal as unknown as Prisma.InputJsonValue
+        }
+      });
+
+      return proposal;
+    } catch (error) {
+      await this.prisma.document.update({
+        where: { id: documentId },
+        data: { extractionStatus: 'FAILED' }
+      });
+      throw error;
+    }
+  }
+
+  private async canLink(
+    userId: string,
+    organizationId: string,
+    links: { assetId?: string; transactionId?: string }
+  ): Promise<boolean> {
+    const access = {
+      organizationId,
+      OR: [
+        { userId },
+        { family: { members: { some: { id: userId } } } }
+      ]
+    };
+
+    if (links.assetId) {
+      const asset = await this.prisma.asset.findFirst({ where: { id: links.assetId, ...access } });
+      if (!asset) return false;
+    }
+
+    if (links.transactionId) {
+      const transaction = await this.prisma.transaction.findFirst({
+        where: { id: links.transactionId, organizationId, asset: { OR: access.OR } }
+      });
+      if (!transaction) return false;
+    }
+
+    return true;
+  }
+}
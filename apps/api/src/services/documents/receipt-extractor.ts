@@ -0,0 +1,158 @@
+import { spawn } from 'child_process';
+import { parse, isValid } from 'date-fns';
+
+// Image types tesseract reads directly
+export const OCR_MIME_TYPES = ['image/png', 'image/jpeg', 'image/tiff', 'image/bmp', 'image/webp'];
+
+const OCR_TIMEOUT_MS = 60000;
+
+export interface ReceiptProposal {
+  merchant: string | null;
+  date: string | null; // YYYY-MM-DD
+  total: number | null;
+  currency: string | null;
+  confidence: number; // Share of merchant, date and total that were found
+}
+
+/**
+ * Whether OCR is enabled, set OCR_ENGINE=none to turn it off
+ */
+export function isOcrEnabled(): boolean {
+  return (process.env.OCR_ENGINE || 'tesseract') === 'tesseract';
+}
+
+/**
+ * Run the local tesseract binary over an image
+ * Uses TESSERACT_PATH (default "tesseract") and TESSERACT_LANG (default "eng").
+ */
+export function recognizeText(image: Buffer): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      process.env.TESSERACT_PATH || 'tesseract',
+      ['stdin', 'stdout', '-l', process.env.TESSERACT_LANG || 'eng'],
+      { timeout: OCR_TIMEOUT_MS }
+    );
+
+    const output: Buffer[] = [];
+    const errors: Buffer[] = [];
+    child.stdout.on('data', chunk => output.push(chunk));
+    child.stderr.on('data', chunk => errors.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(output).toString('utf8'));
+      } else {
+        reject(new Error(`tesseract exited with ${code}: ${Buffer.concat(errors).toString('utf8').trim()}`));
+      }
+    });
+
+    child.stdin.on('error', reject);
+    child.stdin.end(image);
+  });
+}
+
+// Word boundaries that also hold for Cyrillic, \b only knows ASCII letters
+const TOTAL_LINE = /(?<![\p{L}\d])(grand\s+total|total\s+due|amount\s+due|balance\s+due|total|amount|нийт)(?![\p{L}\d])/iu;
+const SUBTOTAL_LINE = /(?<![\p{L}\d])(sub\s*-?\s*total|gst|vat|tax|change|cash|tendered|discount|нөат|бэлэн|хариулт)(?![\p{L}\d])/iu;
+const AMOUNT = /(\d{1,3}(?:[ ,.]\d{3})*[.,]\d{2}|\d+[.,]\d{2})(?!\d)/g;
+const HEADER_NOISE = /\b(tax\s+invoice|receipt|invoice|abn|gst|tel|phone|www\.|http|welcome|order)\b/i;
+
+const DATE_PATTERNS: Array<{ regex: RegExp; formats: string[] }> = [
+  { regex: /\b(\d{4}[-/.]\d{1,2}[-/.]\d{1,2})\b/, formats: ['yyyy-MM-dd', 'yyyy/MM/dd', 'yyyy.MM.dd'] },
+  { regex: /\b(\d{1,2}[-/.]\d{1,2}[-/.]\d{4})\b/, formats: ['dd/MM/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'MM/dd/yyyy'] },
+  { regex: /\b(\d{1,2}[-/.]\d{1,2}[-/.]\d{2})\b/, formats: ['dd/MM/yy', 'dd-MM-yy', 'dd.MM.yy'] },
+  { regex: /\b(\d{1,2}\s+[A-Za-z]{3,9}\s+\d{4})\b/, formats: ['d MMM yyyy', 'd MMMM yyyy'] },
+  { regex: /\b([A-Za-z]{3,9}\s+\d{1,2},?\s+\d{4})\b/, formats: ['MMM d, yyyy', 'MMM d yyyy', 'MMMM d, yyyy', 'MMMM d yyyy'] }
+];
+
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/₮/, 'MNT'],
+  [/€/, 'EUR'],
+  [/£/, 'GBP'],
+  [/¥/, 'JPY'],
+  [/\b(AUD|USD|NZD|CAD|EUR|GBP|MNT|JPY|CNY|KRW|SGD)\b/, '$1']
+];
+
+/**
+ * Propose a transaction from receipt text
+ * The total is the amount on the last "total" line that is not a subtotal
+ * or tax line, falling back to the largest amount on the receipt.
+ */
+export function parseReceipt(text: string): ReceiptProposal {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const merchant = lines
+    .slice(0, 5)
+    .find(line => /[A-Za-zЀ-ӿ]{3}/.test(line) && !HEADER_NOISE.test(line) && !/\d[.,]\d{2}\b/.test(line)) || null;
+
+  let total: number | null = null;
+  for (const line of lines) {
+    if (TOTAL_LINE.test(line) && !SUBTOTAL_LINE.test(line)) {
+      const amounts = amountsIn(line);
+      if (amounts.length > 0) {
+        total = amounts[amounts.length - 1];
+      }
+    }
+  }
+  if (total === null) {
+    const all = lines.flatMap(amountsIn);
+    total = all.length > 0 ? Math.max(...all) : null;
+  }
+
+  let date: string | null = null;
+  for (const line of lines) {
+    date = dateIn(line);
+    if (date) break;
+  }
+
+  let currency: string | null = null;
+  for (const [pattern, code] of CURRENCY_SYMBOLS) {
+    const match = text.match(pattern);
+    if (match) {
+      currency = code === '$1' ? match[1] : code;
+      break;
+    }
+  }
+
+  const found = [merchant, date, total].filter(value => value !== null).length;
+
+  return {
+    merchant: merchant ? merchant.replace(/\s{2,}/g, ' ').slice(0, 100) : null,
+    date,
+    total,
+    currency,
+    confidence: Math.round((found / 3) * 100) / 100
+  };
+}
+
+function amountsIn(line: string): number[] {
+  return Array.from(line.matchAll(AMOUNT)).map(match => {
+    const raw = match[1].replace(/\s/g, '');
+    // The last separator is the decimal point, any others group thousands
+    const decimal = raw.charAt(raw.length - 3);
+    const whole = raw.slice(0, -3).replace(/[.,]/g, '');
+    return parseFloat(`${whole}${decimal === ',' || decimal === '.' ? '.' : ''}${raw.slice(-2)}`);
+  });
+}
+
+function dateIn(line: string): string | null {
+  for (const { regex, formats } of DATE_PATTERNS) {
+    const match = line.match(regex);
+    if (!match) continue;
+
+    for (const fmt of formats) {
+      const date = parse(match[1], fmt, new Date());
+      if (isValid(date) && date.getFullYear() > 2000 && date <= new Date()) {
+        return [
+          date.getFullYear(),
+          String(date.getMonth() + 1).padStart(2, '0'),
+          String(date.getDate()).padStart(2, '0')
+        ].join('-');
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,179 @@
+import axios from 'axios';
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Document Storage
+ *
+ * Keeps uploaded files by key. Keys are generated by the DocumentService
+ * and stored on the Document row together with the storage name, so
+ * documents stay readable after the configured storage changes.
+ */
+export interface DocumentStorage {
+  readonly name: string;
+
+  put(key: string, content: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Local disk storage under DOCUMENT_STORAGE_PATH (default ./uploads)
+ */
+export class LocalDiskStorage implements DocumentStorage {
+  readonly name = 'local';
+  private root: string;
+
+  constructor(root: string = process.env.DOCUMENT_STORAGE_PATH || './uploads') {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return file;
+  }
+}
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // S3-compatible services (MinIO, R2, Spaces), path-style addressing
+}
+
+/**
+ * S3 and S3-compatible object storage
+ *
+ * Signs plain REST requests with AWS Signature Version 4, so any service
+ * speaking the S3 API works through AWS_S3_ENDPOINT.
+ */
+export class S3Storage implements DocumentStorage {
+  readonly name = 's3';
+
+  constructor(private config: S3Config) {}
+
+  async put(key: string, content: Buffer, mimeType: string): Promise<void> {
+    await this.request('PUT', key, content, { 'content-type': mimeType });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+    return Buffer.from(response.data);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body: Buffer = Buffer.alloc(0),
+    headers: Record<string, string> = {}
+  ) {
+    const { bucket, region, accessKeyId, secretAccessKey, endpoint } = this.config;
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+    const url = endpoint
+      ? new URL(`${endpoint.replace(/\/$/, '')}/${bucket}/${encodedKey}`)
+      : new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodedKey}`);
+
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const day = amzDate.slice(0, 8);
+    const payloadHash = createHash('sha256').update(body).digest('hex');
+
+    const signedHeaders: Record<string, string> = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+
+    const canonicalHeaders = headerNames.map(name => `${name}:${signedHeaders[name].trim()}\n`).join('');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '', // No query string
+      canonicalHeaders,
+      headerNames.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+
+    let signingKey: Buffer = createHmac('sha256', `AWS4${secretAccessKey}`).update(day).digest();
+    for (const part of [region, 's3', 'aws4_request']) {
+      signingKey = createHmac('sha256', signingKey).update(part).digest();
+    }
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...requestHeaders } = signedHeaders;
+    return axios.request({
+      method,
+      url: url.toString(),
+      data: method === 'PUT' ? body : undefined,
+      responseType: 'arraybuffer',
+      timeout: 30000,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`
+      }
+    });
+  }
+}
+
+let storages: Map<string, DocumentStorage> | null = null;
+
+/**
+ * Get a storage adapter by name, or the one configured through DOCUMENT_STORAGE
+ *   local  - Local disk under DOCUMENT_STORAGE_PATH (default)
+ *   s3     - AWS_S3_BUCKET in AWS_REGION, or the S3-compatible AWS_S3_ENDPOINT
+ */
+export function getDocumentStorage(name: string = process.env.DOCUMENT_STORAGE || 'local'): DocumentStorage {
+  if (!storages) {
+    storages = new Map<string, DocumentStorage>([['local', new LocalDiskStorage()]]);
+
+    if (process.env.AWS_S3_BUCKET) {
+      storages.set('s3', new S3Storage({
+        bucket: process.env.AWS_S3_BUCKET,
+        region: process.env.AWS_REGION || 'us-east-1',
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+        endpoint: process.env.AWS_S3_ENDPOINT || undefined
+      }));
+    }
+  }
+
+  const storage = storages.get(name);
+  if (!storage) {
+    throw new Error(`Document storage not configured: ${name}`);
+  }
+  return storage;
+}
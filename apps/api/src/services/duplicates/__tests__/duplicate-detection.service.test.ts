@@ -0,0 +1,94 @@
+import { Prisma, Transaction } from '@prisma/client';
+import { scoreDuplicate, descriptionSimilarity, DuplicateIndex, IncomingTransaction, REVIEW_SCORE } from '../duplicate-detection.service';
+
+function existing(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'tx1',
+    type: 'EXPENSE',
+    amount: new Prisma.Decimal('54.20'),
+    date: new Date('2024-01-15T00:00:00Z'),
+    description: 'WOOLWORTHS SYDNEY',
+    externalId: null,
+    ...overrides
+  } as Transaction;
+}
+
+const incoming: IncomingTransaction = {
+  assetId: 'asset1',
+  type: 'EXPENSE',
+  amount: 54.2,
+  date: new Date('2024-01-15T00:00:00Z'),
+  description: 'EFTPOS Woolworths Sydney',
+  externalId: null
+};
+
+describe('descriptionSimilarity', () => {
+  it('ignores case, punctuation and card noise words', () => {
+    expect(descriptionSimilarity('EFTPOS Woolworths Sydney 1234', 'woolworths sydney')).toBe(1);
+  });
+
+  it('compares Cyrillic descriptions', () => {
+    expect(descriptionSimilarity('Гүйлгээ Номин супермаркет', 'ГҮЙЛГЭЭ НОМИН СУПЕРМАРКЕТ')).toBe(1);
+  });
+
+  it('scores unrelated descriptions low', () => {
+    expect(descriptionSimilarity('Netflix.com', 'Woolworths Sydney')).toBeLessThan(0.3);
+  });
+});
+
+describe('scoreDuplicate', () => {
+  it('treats the same day, amount and description as the same transaction', () => {
+    const match = scoreDuplicate(incoming, existing());
+
+    expect(match.score).toBe(1);
+    expect(match.sameTransaction).toBe(true);
+    expect(match.reasons).toEqual(['same amount', 'same date', 'same description']);
+  });
+
+  it('treats the same bank id as the same transaction whatever else differs', () => {
+    const match = scoreDuplicate({ ...incoming, amount: 10, externalId: 'b1' }, existing({ externalId: 'b1' }));
+
+    expect(match).toEqual(expect.objectContaining({ score: 1, sameTransaction: true, reasons: ['same bank id'] }));
+  });
+
+  it('queues a payment a day apart for review without calling it the same', () => {
+    const match = scoreDuplicate({ ...incoming, date: new Date('2024-01-16T00:00:00Z') }, existing());
+
+    expect(match.score).toBeGreaterThanOrEqual(REVIEW_SCORE);
+    expect(match.sameTransaction).toBe(false);
+  });
+
+  it('lowers the score when both sides carry different bank ids', () => {
+    const match = scoreDuplicate({ ...incoming, externalId: 'b2' }, existing({ externalId: 'b1' }));
+
+    expect(match.score).toBe(0.7);
+    expect(match.sameTransaction).toBe(false);
+    expect(match.reasons).toContain('different bank ids');
+  });
+
+  it('gives amounts within 1% half the amount weight', () => {
+    const match = scoreDuplicate({ ...incoming, amount: 54.5 }, existing());
+
+    expect(match.reasons).toContain('amount within 1%');
+    expect(match.score).toBe(0.8);
+  });
+});
+
+describe('DuplicateIndex', () => {
+  it('matches like findMatch and leaves out excluded transactions', () => {
+    const index = new DuplicateIndex([
+      existing(),
+      existing({ id: 'tx2', date: new Date('2024-01-30T00:00:00Z') }),
+      existing({ id: 'tx3', type: 'INCOME' })
+    ]);
+
+    expect(index.match(incoming)?.original.id).toBe('tx1');
+    expect(index.match(incoming, new Set(['tx1']))).toBeNull();
+  });
+
+  it('finds a transaction by bank id outside the date window', () => {
+    const index = new DuplicateIndex([existing({ externalId: 'b1', date: new Date('2023-06-01T00:00:00Z') })]);
+
+    expect(index.match({ ...incoming, externalId: 'b1' })?.sameTransaction).toBe(true);
+  });
+});
@@ -0,0 +1,441 @@
+import { PrismaClient, Prisma, DuplicateCandidate, DuplicateStatus, Transaction, TransactionType } from '@prisma/client';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { LedgerService } from '../ledger/ledger.service';
+
+// Matches at or above this score are queued for review
+export const REVIEW_SCORE = 0.75;
+
+// Bank and import dates of one payment drift by settlement days
+const DATE_WINDOW_DAYS = 3;
+// Fees and currency rounding can move the amount slightly
+const AMOUNT_TOLERANCE = 0.01;
+
+// Words that vary between two banks' lines for the same payment
+const NOISE_WORDS = new Set([
+  'pos', 'eftpos', 'visa', 'mastercard', 'debit', 'credit', 'card', 'purchase', 'payment',
+  'direct', 'dd', 'ref', 'reference', 'txn', 'value', 'date', 'tap', 'contactless'
+]);
+
+export interface IncomingTransaction {
+  assetId: string;
+  type: TransactionType;
+  amount: number;
+  date: Date;
+  description: string | null;
+  externalId?: string | null;
+}
+
+export interface DuplicateMatch {
+  original: Transaction;
+  score: number;
+  reasons: string[];
+  // Same bank id, or same day, amount and description: safe to skip or link without review
+  sameTransaction: boolean;
+}
+
+interface MatchScope {
+  // Transactions that cannot be the original, e.g. rows created earlier in the same import
+  excludeIds?: Set<string>;
+  excludeImportHistoryId?: string;
+}
+
+/**
+ * Normalize a description for comparison
+ * Keeps letters of any script, so Mongolian descriptions compare too.
+ */
+export function normalizeDescription(description: string | null): string {
+  return (description || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Similarity of two descriptions between 0 and 1
+ * A description that was trimmed or extended by the other bank still
+ * scores high, otherwise the Dice coefficient of character bigrams.
+ */
+export function descriptionSimilarity(a: string | null, b: string | null): number {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.startsWith(right) || right.startsWith(left)) return 0.9;
+
+  const bigrams = (text: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const bigram = text.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  let shared = 0;
+  for (const [bigram, count] of leftBigrams) {
+    shared += Math.min(count, rightBigrams.get(bigram) || 0);
+  }
+
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * Score how likely an incoming transaction repeats an existing one
+ * Amount weighs 0.4, date distance 0.3 and description 0.3. Different bank
+ * ids on both sides lower the score, since banks do not reuse ids.
+ * A high score alone never makes it the same transaction, the same fare
+ * paid on consecutive days scores above 0.9.
+ */
+export function scoreDuplicate(incoming: IncomingTransaction, existing: Transaction): DuplicateMatch {
+  const reasons: string[] = [];
+
+  if (incoming.externalId && existing.externalId === incoming.externalId) {
+    return { original: existing, score: 1, reasons: ['same bank id'], sameTransaction: true };
+  }
+
+  const existingAmount = existing.amount.toNumber();
+  const amountDifference = Math.abs(existingAmount - incoming.amount);
+  let amountScore = 0;
+  if (amountDifference < 0.005) {
+    amountScore = 1;
+    reasons.push('same amount');
+  } else if (amountDifference <= Math.abs(existingAmount) * AMOUNT_TOLERANCE) {
+    amountScore = 0.5;
+    reasons.push('amount within 1%');
+  }
+
+  const days = Math.abs(differenceInCalendarDays(incoming.date, existing.date));
+  const dateScore = days > DATE_WINDOW_DAYS ? 0 : 1 - days * 0.2;
+  if (dateScore > 0) {
+    reasons.push(days === 0 ? 'same date' : `${days} day${days === 1 ? '' : 's'} apart`);
+  }
+
+  const similarity = descriptionSimilarity(incoming.description, existing.description);
+  if (similarity >= 0.5) {
+    reasons.push(similarity === 1 ? 'same description' : 'similar description');
+  }
+
+  let score = 0.4 * amountScore + 0.3 * dateScore + 0.3 * similarity;
+  const differentBankIds = !!incoming.externalId && !!existing.externalId;
+  if (differentBankIds) {
+    score -= 0.3;
+    reasons.push('different bank ids');
+  }
+
+  return {
+    original: existing,
+    score: Math.max(0, Math.round(score * 100) / 100),
+    reasons,
+    sameTransaction: !differentBankIds && amountScore === 1 && days === 0 && similarity === 1
+  };
+}
+
+function bestMatch(incoming: IncomingTransaction, candidates: Transaction[], excludeIds?: Set<string>): DuplicateMatch | null {
+  let best: DuplicateMatch | null = null;
+  for (const candidate of candidates) {
+    if (excludeIds?.has(candidate.id)) continue;
+
+    const match = scoreDuplicate(incoming, candidate);
+    if (match.score >= REVIEW_SCORE && (!best || match.score > best.score)) {
+      best = match;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Existing transactions bucketed by bank id and day
+ */
+export class DuplicateIndex {
+  private byExternalId = new Map<string, Transaction>();
+  private byDay = new Map<string, Transaction[]>();
+
+  constructor(transactions: Transaction[]) {
+    for (const transaction of transactions) {
+      if (transaction.externalId) {
+        this.byExternalId.set(transaction.externalId, transaction);
+      }
+      const day = format(transaction.date, 'yyyy-MM-dd');
+      const bucket = this.byDay.get(day);
+      if (bucket) {
+        bucket.push(transaction);
+      } else {
+        this.byDay.set(day, [transaction]);
+      }
+    }
+  }
+
+  /**
+   * Same as DuplicateDetectionService.findMatch, without a query
+   */
+  match(incoming: IncomingTransaction, excludeIds?: Set<string>): DuplicateMatch | null {
+    const sameBankId = incoming.externalId && this.byExternalId.get(incoming.externalId);
+    if (sameBankId) {
+      return { original: sameBankId, score: 1, reasons: ['same bank id'], sameTransaction: true };
+    }
+
+    const candidates: Transaction[] = [];
+    for (let offset = -DATE_WINDOW_DAYS; offset <= DATE_WINDOW_DAYS; offset++) {
+      for (const transaction of this.byDay.get(format(addDays(incoming.date, offset), 'yyyy-MM-dd')) || []) {
+        if (transaction.type === incoming.type &&
+            Math.abs(transaction.amount.toNumber() - incoming.amount) <= incoming.amount * AMOUNT_TOLERANCE + 0.005) {
+          candidates.push(transaction);
+        }
+      }
+    }
+
+    return bestMatch(incoming, candidates, excludeIds);
+  }
+}
+
+/**
+ * Duplicate Detection Service
+ *
+ * Finds transactions that repeat one already on the asset, such as the
+ * same payment arriving from bank sync and a CSV import, or an import
+ * whose dates moved by a day. Matches marked sameTransaction are skipped or linked by the
+ * caller; likely ones are queued so the user can merge or dismiss them.
+ */
+export class DuplicateDetectionService {
+  private ledgerService: LedgerService;
+
+  constructor(private prisma: PrismaClient) {
+    this.ledgerService = new LedgerService(prisma);
+  }
+
+  /**
+   * Best existing match for an incoming transaction
+   * @returns The match, or null when nothing scores at least REVIEW_SCORE
+   */
+  async findMatch(incoming: IncomingTransaction, scope: MatchScope = {}): Promise<DuplicateMatch | null> {
+    const candidates = await this.prisma.transaction.findMany({
+      where: {
+        assetId: incoming.assetId,
+        type: incoming.type,
+        date: {
+          gte: addDays(incoming.date, -DATE_WINDOW_DAYS - 1),
+          lte: addDays(incoming.date, DATE_WINDOW_DAYS + 1)
+        },
+        amount: {
+          gte: new Prisma.Decimal(incoming.amount * (1 - AMOUNT_TOLERANCE)).toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN),
+          lte: new Prisma.Decimal(incoming.amount * (1 + AMOUNT_TOLERANCE)).toDecimalPlaces(2, Prisma.Decimal.ROUND_UP)
+        },
+        ...(scope.excludeImportHistoryId && {
+          OR: [{ importHistoryId: null }, { importHistoryId: { not: scope.excludeImportHistoryId } }]
+        })
+      }
+    });
+
+    return bestMatch(incoming, candidates, scope.excludeIds);
+  }
+
+  /**
+   * Load an asset's transactions around a date range for matching in memory
+   * Bulk imports use this instead of querying once per row; transactions
+   * with one of the given bank ids are included whatever their date.
+   */
+  async buildIndex(
+    assetId: string,
+    from: Date,
+    to: Date,
+    externalIds: string[],
+    excludeImportHistoryId?: string
+  ): Promise<DuplicateIndex> {
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        assetId,
+        AND: [
+          {
+            OR: [
+              { date: { gte: addDays(from, -DATE_WINDOW_DAYS - 1), lte: addDays(to, DATE_WINDOW_DAYS + 1) } },
+              ...(externalIds.length > 0 ? [{ externalId: { in: externalIds } }] : [])
+            ]
+          },
+          ...(excludeImportHistoryId
+            ? [{ OR: [{ importHistoryId: null }, { importHistoryId: { not: excludeImportHistoryId } }] }]
+            : [])
+        ]
+      }
+    });
+
+    return new DuplicateIndex(transactions);
+  }
+
+  /**
+   * Queue a created transaction for review against the one it may repeat
+   */
+  async flag(
+    transaction: Transaction,
+    match: DuplicateMatch,
+    source: 'import' | 'sync'
+  ): Promise<DuplicateCandidate> {
+    return this.prisma.duplicateCandidate.upsert({
+      where: {
+        transactionId_originalId: { transactionId: transaction.id, originalId: match.original.id }
+      },
+      update: { score: match.score, reasons: match.reasons },
+      create: {
+        transactionId: transaction.id,
+        originalId: match.original.id,
+        score: match.score,
+        reasons: match.reasons,
+        source,
+        assetId: transaction.assetId,
+        userId: transaction.userId,
+        organizationId: transaction.organizationId
+      }
+    });
+  }
+
+  /**
+   * Queue many created transactions at once, inside the caller's transaction
+   */
+  async flagMany(
+    client: Prisma.TransactionClient,
+    flags: Array<{ transaction: Transaction; match: DuplicateMatch }>,
+    source: 'import' | 'sync'
+  ): Promise<number> {
+    if (flags.length === 0) {
+      return 0;
+    }
+
+    const result = await client.duplicateCandidate.createMany({
+      data: flags.map(({ transaction, match }) => ({
+        transactionId: transaction.id,
+        originalId: match.original.id,
+        score: match.score,
+        reasons: match.reasons,
+        source,
+        assetId: transaction.assetId,
+        userId: transaction.userId,
+        organizationId: transaction.organizationId
+      })),
+      skipDuplicates: true
+    });
+
+    return result.count;
+  }
+
+  async getCandidates(
+    userId: string,
+    organizationId: string,
+    filters: { status?: DuplicateStatus; assetId?: string } = {}
+  ) {
+    return this.prisma.duplicateCandidate.findMany({
+      where: {
+        organizationId,
+        status: filters.status || 'PENDING',
+        ...(filters.assetId && { assetId: filters.assetId }),
+        asset: {
+          OR: [
+            { userId },
+            { family: { members: { some: { id: userId } } } }
+          ]
+        }
+      },
+      include: { transaction: true, original: true },
+      orderBy: [{ score: 'desc' }, { createdAt: 'desc' }]
+    });
+  }
+
+  /**
+   * Merge the copy into the original and delete it
+   * The original keeps its values and takes over what only the copy has:
+   * bank id, counterparty, tags, receipts and goal contributions.
+   * Imported and synced rows never moved the asset amount, so only
+   * ledger-mode balances need recomputing.
+   */
+  async merge(candidateId: string, userId: string, organizationId: string): Promise<DuplicateCandidate> {
+    const candidate = await this.getPending(candidateId, userId, organizationId);
+    const duplicate = candidate.transaction!;
+    const original = candidate.original;
+
+    if (duplicate.transferId) {
+      throw new Error('Transfer legs can only be deleted through /api/transfers');
+    }
+
+    if (duplicate.reconciliationId) {
+      const reconciliation = await this.prisma.reconciliation.findUnique({ where: { id: duplicate.reconciliationId } });
+      if (reconciliation?.status === 'COMPLETED') {
+        throw new Error('Transaction is locked by a completed statement reconciliation');
+      }
+    }
+
+    const [, , , merged] = await this.prisma.$transaction([
+      this.prisma.transaction.update({
+        where: { id: original.id },
+        data: {
+          externalId: original.externalId || duplicate.externalId,
+          counterparty: original.counterparty || duplicate.counterparty,
+          description: original.description || duplicate.description,
+          tags: Array.from(new Set([...original.tags, ...duplicate.tags]))
+        }
+      }),
+      this.prisma.document.updateMany({
+        where: { transactionId: duplicate.id },
+        data: { transactionId: original.id }
+      }),
+      this.prisma.goalContribution.updateMany({
+        where: { transactionId: duplicate.id },
+        data: { transactionId: original.id }
+      }),
+      this.prisma.duplicateCandidate.update({
+        where: { id: candidate.id },
+        data: { status: 'MERGED', resolvedAt: new Date() }
+      }),
+      // Other candidates of the copy have nothing left to review
+      this.prisma.duplicateCandidate.deleteMany({
+        where: { transactionId: duplicate.id, id: { not: candidate.id } }
+      }),
+      this.prisma.transaction.delete({ where: { id: duplicate.id } })
+    ]);
+
+    await this.ledgerService.syncBalance(original.assetId);
+
+    return merged;
+  }
+
+  /**
+   * Keep both transactions, they are distinct
+   */
+  async dismiss(candidateId: string, userId: string, organizationId: string): Promise<DuplicateCandidate> {
+    const candidate = await this.getPending(candidateId, userId, organizationId);
+
+    return this.prisma.duplicateCandidate.update({
+      where: { id: candidate.id },
+      data: { status: 'DISMISSED', resolvedAt: new Date() }
+    });
+  }
+
+  private async getPending(candidateId: string, userId: string, organizationId: string) {
+    const candidate = await this.prisma.duplicateCandidate.findFirst({
+      where: {
+        id: candidateId,
+        organizationId,
+        asset: {
+          OR: [
+            { userId },
+            { family: { members: { some: { id: userId } } } }
+          ]
+        }
+      },
+      include: { transaction: true, original: true }
+    });
+
+    if (!candidate) {
+      throw new Error('Duplicate not found');
+    }
+
+    if (candidate.status !== 'PENDING' || !candidate.transaction) {
+      throw new Error('Duplicate already resolved');
+    }
+
+    return candidate;
+  }
+}
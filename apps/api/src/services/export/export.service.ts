@@ -0,0 +1,214 @@
+import { PrismaClient, Asset, Transaction } from '@prisma/client';
+import { format } from 'date-fns';
+
+export type ExportFormat = 'ofx' | 'qfx' | 'qif';
+
+interface ExportOptions {
+  assetId: string;
+  format: ExportFormat;
+  from?: Date;
+  to?: Date;
+}
+
+interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+  transactionCount: number;
+}
+
+type ExportTransaction = Transaction & { transfer: { fromAssetId: string } | null };
+
+/**
+ * Export Service
+ *
+ * Writes an asset's transactions as OFX/QFX or QIF for desktop finance
+ * tools. Amounts are signed from the account holder's side, money in is
+ * positive, and the FITID is the bank's id when the transaction came from
+ * one so re-importing the file dedupes exactly.
+ */
+export class ExportService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * @returns The file, or null when the asset is not accessible
+   */
+  async exportTransactions(
+    userId: string,
+    organizationId: string,
+    options: ExportOptions
+  ): Promise<ExportFile | null> {
+    const asset = await this.prisma.asset.findFirst({
+      where: {
+        id: options.assetId,
+        organizationId,
+        OR: [
+          { userId },
+          { family: { members: { some: { id: userId } } } }
+        ]
+      }
+    });
+
+    if (!asset) {
+      return null;
+    }
+
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        assetId: asset.id,
+        ...((options.from || options.to) && {
+          date: {
+            ...(options.from && { gte: options.from }),
+            ...(options.to && { lte: options.to })
+          }
+        })
+      },
+      include: { transfer: { select: { fromAssetId: true } } },
+      orderBy: { date: 'asc' }
+    });
+
+    const baseName = `${asset.name.replace(/[^\w-]+/g, '_')}-${format(new Date(), 'yyyyMMdd')}`;
+
+    if (options.format === 'qif') {
+      return {
+        fileName: `${baseName}.qif`,
+        mimeType: 'application/qif',
+        content: this.toQIF(asset, transactions),
+        transactionCount: transactions.length
+      };
+    }
+
+    return {
+      fileName: `${baseName}.${options.format}`,
+      mimeType: options.format === 'qfx' ? 'application/vnd.intu.qfx' : 'application/x-ofx',
+      content: this.toOFX(asset, transactions, options),
+      transactionCount: transactions.length
+    };
+  }
+
+  /**
+   * OFX 1.0.2 SGML, the variant Quicken and most desktop tools read as QFX too
+   */
+  private toOFX(asset: Asset, transactions: ExportTransaction[], options: ExportOptions): string {
+    const now = this.ofxDate(new Date());
+    const start = options.from || transactions[0]?.date || new Date();
+    const end = options.to || new Date();
+    const creditCard = asset.type === 'DEBT';
+
+    const entries = transactions.map(tx => {
+      const amount = this.signedAmount(asset, tx);
+      return [
+        '<STMTTRN>',
+        `<TRNTYPE>${tx.type === 'TRANSFER' ? 'XFER' : amount >= 0 ? 'CREDIT' : 'DEBIT'}`,
+        `<DTPOSTED>${this.ofxDate(tx.date)}`,
+        `<TRNAMT>${amount.toFixed(2)}`,
+        `<FITID>${this.escape(tx.externalId || tx.id)}`,
+        `<NAME>${this.escape((tx.counterparty || tx.description || tx.category).slice(0, 32))}`,
+        ...(tx.description ? [`<MEMO>${this.escape(tx.description.slice(0, 255))}`] : []),
+        '</STMTTRN>'
+      ].join('\n');
+    });
+
+    const account = creditCard
+      ? ['<CCACCTFROM>', `<ACCTID>${this.escape(asset.externalId || asset.id)}`, '</CCACCTFROM>']
+      : ['<BANKACCTFROM>', '<BANKID>000000', `<ACCTID>${this.escape(asset.externalId || asset.id)}`, '<ACCTTYPE>CHECKING', '</BANKACCTFROM>'];
+
+    const [messages, response, statement] = creditCard
+      ? ['CREDITCARDMSGSRSV1', 'CCSTMTTRNRS', 'CCSTMTRS']
+      : ['BANKMSGSRSV1', 'STMTTRNRS', 'STMTRS'];
+
+    // Debt is stored as the amount owed, statements show it as a negative balance
+    const balance = creditCard ? -asset.amount.toNumber() : asset.amount.toNumber();
+
+    return [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      'VERSION:102',
+      'SECURITY:NONE',
+      'ENCODING:UTF-8',
+      'CHARSET:NONE',
+      'COMPRESSION:NONE',
+      'OLDFILEUID:NONE',
+      'NEWFILEUID:NONE',
+      '',
+      '<OFX>',
+      '<SIGNONMSGSRSV1>',
+      '<SONRS>',
+      '<STATUS>',
+      '<CODE>0',
+      '<SEVERITY>INFO',
+      '</STATUS>',
+      `<DTSERVER>${now}`,
+      '<LANGUAGE>ENG',
+      '</SONRS>',
+      '</SIGNONMSGSRSV1>',
+      `<${messages}>`,
+      `<${response}>`,
+      '<TRNUID>1',
+      '<STATUS>',
+      '<CODE>0',
+      '<SEVERITY>INFO',
+      '</STATUS>',
+      `<${statement}>`,
+      `<CURDEF>${asset.currency}`,
+      ...account,
+      '<BANKTRANLIST>',
+      `<DTSTART>${this.ofxDate(start)}`,
+      `<DTEND>${this.ofxDate(end)}`,
+      ...entries,
+      '</BANKTRANLIST>',
+      '<LEDGERBAL>',
+      `<BALAMT>${balance.toFixed(2)}`,
+      `<DTASOF>${now}`,
+      '</LEDGERBAL>',
+      `</${statement}>`,
+      `</${response}>`,
+      `</${messages}>`,
+      '</OFX>',
+      ''
+    ].join('\n');
+  }
+
+  private toQIF(asset: Asset, transactions: ExportTransaction[]): string {
+    const type = asset.type === 'DEBT' ? 'CCard' : asset.type === 'CASH' ? 'Bank' : 'Oth A';
+
+    const records = transactions.map(tx => {
+      const amount = this.signedAmount(asset, tx);
+      return [
+        `D${format(tx.date, 'MM/dd/yyyy')}`,
+        `T${amount.toFixed(2)}`,
+        ...(tx.counterparty || tx.description ? [`P${(tx.counterparty || tx.description)!.replace(/\r?\n/g, ' ')}`] : []),
+        ...(tx.description && tx.counterparty ? [`M${tx.description.replace(/\r?\n/g, ' ')}`] : []),
+        `L${tx.category}`,
+        ...(tx.reconciliationId ? ['CR'] : []),
+        '^'
+      ].join('\n');
+    });
+
+    return [`!Type:${type}`, ...records, ''].join('\n');
+  }
+
+  /**
+   * Money in is positive, from the account holder's side
+   */
+  private signedAmount(asset: Asset, tx: ExportTransaction): number {
+    const amount = tx.amount.toNumber();
+
+    if (tx.type === 'INCOME') return amount;
+    if (tx.type === 'EXPENSE') return -amount;
+    if (tx.transfer) return tx.transfer.fromAssetId === asset.id ? -amount : amount;
+    return 0;
+  }
+
+  private ofxDate(date: Date): string {
+    return `${format(date, 'yyyyMMddHHmmss')}.000`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\r?\n/g, ' ');
+  }
+}
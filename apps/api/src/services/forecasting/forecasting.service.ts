@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { merchantKey, monthlyEquivalent } from '../recurring/recurring-detection.service';
 import { 
   startOfMonth, 
   endOfMonth, 
@@ -220,22 +221,40 @@ export class ForecastingService {
   ): Promise<any> {
     const startDate = startOfMonth(subMonths(new Date(), months));
     
-    const transactions = await this.prisma.transaction.groupBy({
-      by: ['type'],
-      where: {
-        userId,
-        organizationId,
-        date: { gte: startDate }
-      },
-      _sum: { amount: true },
-      _count: true
-    });
+    const [transactions, fixedCosts] = await Promise.all([
+      this.prisma.transaction.findMany({
+        where: {
+          userId,
+          organizationId,
+          type: { in: ['INCOME', 'EXPENSE'] },
+          transferId: null,
+          date: { gte: startDate }
+        },
+        select: { type: true, amount: true, description: true, assetId: true }
+      }),
+      // Accepted recurring detections are known fixed income and costs
+      this.prisma.detectedRecurrence.findMany({
+        where: { userId, organizationId, status: 'ACCEPTED' }
+      })
+    ]);
+    
+    const fixedKeys = new Set(fixedCosts.map(d => `${d.assetId}|${d.type}|${d.merchantKey}`));
+    const isFixed = (tx: typeof transactions[number]) =>
+      fixedKeys.has(`${tx.assetId}|${tx.type}|${merchantKey(tx.description)}`);
+    
+    // Everything not covered by a fixed recurrence is averaged as before
+    const sumVariable = (type: string) => transactions
+      .filter(tx => tx.type === type && !isFixed(tx))
+      .reduce((sum, tx) => sum + tx.amount.toNumber(), 0);
+    const sumFixed = (type: string) => fixedCosts
+      .filter(d => d.type === type)
+      .reduce((sum, d) => sum + monthlyEquivalent(d.averageAmount.toNumber(), d.frequency, d.interval), 0);
     
-    const income = transactions.find(t => t.type === 'INCOME')?._sum.amount?.toNumber() || 0;
-    const expenses = transactions.find(t => t.type === 'EXPENSE')?._sum.amount?.toNumber() || 0;
+    const fixedMonthlyIncome = sumFixed('INCOME');
+    const fixedMonthlyExpenses = sumFixed('EXPENSE');
     
-    const avgMonthlyIncome = income / months;
-    const avgMonthlyExpenses = expenses / months;
+    const avgMonthlyIncome = sumVariable('INCOME') / months + fixedMonthlyIncome;
+    const avgMonthlyExpenses = sumVariable('EXPENSE') / months + fixedMonthlyExpenses;
     const avgNetSavings = avgMonthlyIncome - avgMonthlyExpenses;
     
     // Calculate variance for confidence
@@ -247,6 +266,8 @@ export class ForecastingService {
       avgMonthlyIncome,
       avgMonthlyExpenses,
       avgNetSavings,
+      fixedMonthlyIncome,
+      fixedMonthlyExpenses,
       incomeVariance,
       expenseVariance,
       monthlyData
@@ -342,6 +363,7 @@ export class ForecastingService {
             userId,
             organizationId,
             type: 'INCOME',
+            transferId: null,
             date: { gte: monthStart, lte: monthEnd }
           },
           _sum: { amount: true }
@@ -351,6 +373,7 @@ export class ForecastingService {
             userId,
             organizationId,
             type: 'EXPENSE',
+            transferId: null,
             date: { gte: monthStart, lte: monthEnd }
           },
           _sum: { amount: true }
@@ -396,6 +419,11 @@ export class ForecastingService {
       insights.push('Your expenses vary significantly. Consider creating a budget to stabilize spending.');
     }
     
+    // Fixed cost insight
+    if (historicalData.fixedMonthlyExpenses > historicalData.avgMonthlyIncome * 0.5) {
+      insights.push('Fixed recurring costs take more than half of your income. Review subscriptions and contracts.');
+    }
+    
     return insights;
   }
 
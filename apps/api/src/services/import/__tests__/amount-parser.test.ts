@@ -0,0 +1,90 @@
+import { parseAmount, interpretAmount, decimalSeparatorFor } from '../amount-parser';
+
+describe('parseAmount', () => {
+  it.each([
+    ['1,234.56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['1 234,56', 1234.56],
+    ["1'234.56", 1234.56],
+    ['12,50', 12.5],
+    ['1,234', 1234],
+    ['1.234.567', 1234567],
+    ['(54.20)', -54.2],
+    ['54.20-', -54.2],
+    ['−54.20', -54.2],
+    ['-$54.20', -54.2],
+    ['54.20 DR', -54.2],
+    ['54.20 CR', 54.2],
+    ['AUD 1,000.00', 1000],
+    ['1 000 ₮', 1000],
+    [42.5, 42.5]
+  ])('reads %p as %p', (input, expected) => {
+    expect(parseAmount(input).value).toBeCloseTo(expected, 2);
+  });
+
+  it('uses the given decimal separator for ambiguous values', () => {
+    expect(parseAmount('1,234').value).toBe(1234);
+    expect(parseAmount('1,234', ',').value).toBeCloseTo(1.234, 3);
+    expect(parseAmount('1.234', '.').value).toBeCloseTo(1.234, 3);
+  });
+
+  it('explains what it did', () => {
+    expect(parseAmount('(1.234,56 €)').notes).toEqual(['parentheses read as negative', 'removed "€"', 'decimal comma']);
+  });
+
+  it.each(['', 'n/a', null, undefined])('gives NaN for %p', input => {
+    expect(parseAmount(input).value).toBeNaN();
+  });
+});
+
+describe('decimalSeparatorFor', () => {
+  it('reads the separator from the locale', () => {
+    expect(decimalSeparatorFor('en-AU')).toBe('.');
+    expect(decimalSeparatorFor('de-DE')).toBe(',');
+  });
+});
+
+describe('interpretAmount', () => {
+  const mapping = { date: 'Date', description: 'Description' };
+
+  it('takes debit and credit columns over an amount column', () => {
+    const row = { Debit: '54.20', Credit: '', Amount: '999' };
+
+    expect(interpretAmount(row, { ...mapping, amount: 'Amount', debit: 'Debit', credit: 'Credit' })).toEqual(
+      expect.objectContaining({ amount: -54.2, type: 'expense', source: 'debit' })
+    );
+  });
+
+  it('treats debit columns as money out however they are signed', () => {
+    const result = interpretAmount({ Debit: '-54.20', Credit: '' }, { ...mapping, debit: 'Debit', credit: 'Credit' });
+
+    expect(result.amount).toBe(-54.2);
+  });
+
+  it('inverts the sign for positive_is_expense', () => {
+    const result = interpretAmount({ Amount: '54.20' }, { ...mapping, amount: 'Amount', signConvention: 'positive_is_expense' });
+
+    expect(result).toEqual(expect.objectContaining({ amount: -54.2, type: 'expense' }));
+  });
+
+  it('lets a type column decide the sign', () => {
+    const withType = { ...mapping, amount: 'Amount', type: 'Type' };
+
+    expect(interpretAmount({ Amount: '54.20', Type: 'DR' }, withType).amount).toBe(-54.2);
+    expect(interpretAmount({ Amount: '-3200', Type: 'Deposit' }, withType).amount).toBe(3200);
+    // "cr" and "dr" only count as the whole value, so "Transcript" leaves the sign alone
+    expect(interpretAmount({ Amount: '-10', Type: 'Transcript' }, withType).amount).toBe(-10);
+  });
+
+  it('reads amounts in the mapping locale', () => {
+    const result = interpretAmount({ Amount: '1.234' }, { ...mapping, amount: 'Amount', numberLocale: 'de-DE' });
+
+    expect(result.amount).toBe(1234);
+  });
+
+  it('reports rows without an amount', () => {
+    expect(interpretAmount({ Amount: '' }, { ...mapping, amount: 'Amount' })).toEqual(
+      expect.objectContaining({ amount: null, error: 'No amount found' })
+    );
+  });
+});
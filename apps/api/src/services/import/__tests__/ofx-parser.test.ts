@@ -0,0 +1,97 @@
+import { OfxParser, OFX_DEFAULT_MAPPING } from '../ofx-parser';
+
+// OFX 1.x SGML, leaf elements are not closed
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+ENCODING:USASCII
+CHARSET:1252
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>AUD
+<BANKACCTFROM><BANKID>062000<ACCTID>12345678<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000[+10:AEST]
+<TRNAMT>-54.20
+<FITID>202401150001
+<NAME>WOOLWORTHS SYDNEY
+<MEMO>Card purchase
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240116
+<TRNAMT>3200.00
+<FITID>202401160001
+<NAME>SALARY ACME &amp; CO
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>8123.45<DTASOF>20240131</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+// OFX 2.x XML with a bank and a credit card statement
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <BANKMSGSRSV1><STMTTRNRS><STMTRS>
+    <CURDEF>EUR</CURDEF>
+    <BANKACCTFROM><ACCTID>DE001</ACCTID><ACCTTYPE>SAVINGS</ACCTTYPE></BANKACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN><TRNTYPE>INT</TRNTYPE><DTPOSTED>20240131</DTPOSTED><TRNAMT>12,50</TRNAMT><FITID>i1</FITID><NAME>Zinsen</NAME></STMTTRN>
+    </BANKTRANLIST>
+  </STMTRS></STMTTRNRS></BANKMSGSRSV1>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>EUR</CURDEF>
+    <CCACCTFROM><ACCTID>CC777</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240202</DTPOSTED><TRNAMT>-19.99</TRNAMT><FITID>c1</FITID><PAYEE><NAME>Spotify</NAME></PAYEE></STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+describe('OfxParser', () => {
+  const parser = new OfxParser();
+
+  it('reads SGML statements into signed transactions with their bank ids', async () => {
+    const transactions = await parser.parseFile(Buffer.from(SGML), OFX_DEFAULT_MAPPING);
+
+    expect(transactions).toEqual([
+      expect.objectContaining({ date: '2024-01-15', description: 'WOOLWORTHS SYDNEY', amount: '54.20', type: 'expense', currency: 'AUD', externalId: '202401150001' }),
+      expect.objectContaining({ date: '2024-01-16', description: 'SALARY ACME & CO', amount: '3200.00', type: 'income', externalId: '202401160001' })
+    ]);
+    expect(transactions[0].originalRow.Memo).toBe('Card purchase');
+  });
+
+  it('lists the accounts of every statement', () => {
+    expect(parser.getAccounts(Buffer.from(XML))).toEqual([
+      { accountId: 'DE001', type: 'SAVINGS', currency: 'EUR', ledgerBalance: null, transactionCount: 1 },
+      { accountId: 'CC777', type: 'CREDITCARD', currency: 'EUR', ledgerBalance: null, transactionCount: 1 }
+    ]);
+    expect(parser.getAccounts(Buffer.from(SGML))[0].ledgerBalance).toBe(8123.45);
+  });
+
+  it('imports one statement of a multi-account file only when it is chosen', async () => {
+    await expect(parser.parseFile(Buffer.from(XML), OFX_DEFAULT_MAPPING)).rejects.toThrow('several accounts');
+
+    const transactions = await parser.parseFile(Buffer.from(XML), OFX_DEFAULT_MAPPING, { account: 'CC777' });
+
+    expect(transactions).toEqual([
+      expect.objectContaining({ date: '2024-02-02', description: 'Spotify', amount: '19.99', type: 'expense', externalId: 'c1' })
+    ]);
+  });
+
+  it('previews every statement and reads decimal commas', async () => {
+    const rows = await parser.previewRows(Buffer.from(XML));
+
+    expect(rows.map(row => [row.Account, row.Amount])).toEqual([['DE001', '12.50'], ['CC777', '-19.99']]);
+  });
+
+  it('rejects files that are not OFX', async () => {
+    await expect(parser.previewRows(Buffer.from('Date,Amount\n2024-01-01,5'))).rejects.toThrow('Not an OFX file');
+  });
+});
@@ -0,0 +1,66 @@
+import { PdfParser } from '../pdf-parser';
+
+// A table row the way `pdftotext -layout` prints it, amounts right-aligned under their labels
+function line(date: string, description: string, debit = '', credit = '', balance = ''): string {
+  return `${date.padEnd(10)}${description.padEnd(36)}${debit.padStart(10)}${credit.padStart(12)}${balance.padStart(14)}`;
+}
+
+const COMMBANK = [
+  'Commonwealth Bank of Australia',
+  'Statement period 1 Dec 2023 - 31 Jan 2024',
+  '',
+  line('Date', 'Transaction', 'Debit', 'Credit', 'Balance'),
+  line('01 Dec', 'OPENING BALANCE', '', '', '1,000.00'),
+  line('02 Dec', 'Woolworths Sydney', '54.20', '', '945.80'),
+  '          Card xx1234',
+  line('15 Dec', 'Salary ACME Pty Ltd', '', '3,200.00', '4,145.80'),
+  line('02 Jan', 'Netflix.com', '18.99', '', '4,126.81'),
+  line('05 Jan', 'Coffee', '5.00', '', '4,100.00'),
+  line('31 Jan', 'CLOSING BALANCE', '', '', '4,100.00'),
+  'Page 1 of 1'
+].join('\n');
+
+describe('PdfParser.parseText', () => {
+  const parser = new PdfParser();
+
+  it('reads a Commonwealth Bank statement table', () => {
+    const statement = parser.parseText(COMMBANK);
+
+    expect(statement.template).toEqual({ id: 'commbank', name: 'Commonwealth Bank' });
+    expect(statement.periodStart).toBe('2023-12-01');
+    expect(statement.rows.map(row => [row.Date, row.Description, row.Amount, row.Balance])).toEqual([
+      ['2023-12-02', 'Woolworths Sydney Card xx1234', '-54.20', '945.80'],
+      ['2023-12-15', 'Salary ACME Pty Ltd', '3200.00', '4145.80'],
+      ['2024-01-02', 'Netflix.com', '-18.99', '4126.81'],
+      ['2024-01-05', 'Coffee', '-5.00', '4100.00']
+    ]);
+  });
+
+  it('lowers the confidence of rows whose balance does not reconcile', () => {
+    const confidences = parser.parseText(COMMBANK).rows.map(row => row.Confidence);
+
+    expect(confidences).toEqual([1, 1, 1, 0.7]);
+  });
+
+  it('reads a signed amount column and inherits dates printed once per day', () => {
+    const text = [
+      'Statement from 01/03/2024',
+      `${'Date'.padEnd(14)}${'Description'.padEnd(30)}${'Amount'.padStart(10)}${'Balance'.padStart(12)}`,
+      `${'Opening balance'.padEnd(54)}${'500.00'.padStart(12)}`,
+      `${'04/03/2024'.padEnd(14)}${'Bakery'.padEnd(30)}${'-12.50'.padStart(10)}${'487.50'.padStart(12)}`,
+      `${''.padEnd(14)}${'Refund'.padEnd(30)}${'20.00'.padStart(10)}${'507.50'.padStart(12)}`
+    ].join('\n');
+
+    const statement = parser.parseText(text);
+
+    expect(statement.template.id).toBe('generic');
+    expect(statement.rows.map(row => [row.Date, row.Description, row.Amount, row.Confidence])).toEqual([
+      ['2024-03-04', 'Bakery', '-12.50', 1],
+      ['2024-03-04', 'Refund', '20.00', 0.8]
+    ]);
+  });
+
+  it('rejects an unknown template', () => {
+    expect(() => parser.parseText(COMMBANK, { template: 'nope' })).toThrow('Unknown statement template: nope');
+  });
+});
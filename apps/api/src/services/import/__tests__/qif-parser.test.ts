@@ -0,0 +1,71 @@
+import { QifParser, QIF_DEFAULT_MAPPING } from '../qif-parser';
+
+const QIF = `!Account
+NEveryday
+TBank
+^
+!Type:Bank
+D1/15'24
+T-54.20
+PWoolworths
+LGroceries:Food/Household
+MWeekly shop
+^
+D1/16'24
+T3,200.00
+PACME Payroll
+LSalary
+^
+D1/20'24
+T-500.00
+PTransfer to saver
+L[Savings]
+^
+D1/25'24
+T-120.00
+PSplit purchase
+LShopping
+SShopping
+$-100.00
+SDining
+$-20.00
+^
+!Type:Invst
+D1/26'24
+NBuy
+YACME
+T1000.00
+^
+`;
+
+describe('QifParser', () => {
+  const parser = new QifParser();
+
+  it('reads bank records without classes and skips investment sections', async () => {
+    const transactions = await parser.parseFile(Buffer.from(QIF), QIF_DEFAULT_MAPPING);
+
+    expect(transactions.map(tx => [tx.date, tx.description, tx.amount, tx.type, tx.category])).toEqual([
+      ['2024-01-15', 'Woolworths', '54.20', 'expense', 'Groceries:Food'],
+      ['2024-01-16', 'ACME Payroll', '3200.00', 'income', 'Salary'],
+      ['2024-01-20', 'Transfer to saver', '500.00', 'expense', 'Transfer'],
+      ['2024-01-25', 'Split purchase', '120.00', 'expense', 'Shopping']
+    ]);
+    expect(transactions[0].originalRow).toEqual(expect.objectContaining({ Memo: 'Weekly shop', Account: 'Everyday' }));
+  });
+
+  it('detects day-first dates', async () => {
+    const rows = await parser.previewRows(Buffer.from('!Type:Bank\nD03/02/2024\nT-5.00\n^\nD25/02/2024\nT-6.00\n^\n'));
+
+    expect(rows.map(row => row.Date)).toEqual(['2024-02-03', '2024-02-25']);
+  });
+
+  it('follows the given date order', async () => {
+    const rows = await parser.previewRows(Buffer.from('!Type:Bank\nD03/02/2024\nT-5.00\n^\n'), 10, { dateOrder: 'MDY' });
+
+    expect(rows[0].Date).toBe('2024-03-02');
+  });
+
+  it('rejects files without a type header', async () => {
+    await expect(parser.previewRows(Buffer.from('D1/15/24\nT-5.00\n^\n'))).rejects.toThrow('Not a QIF file');
+  });
+});
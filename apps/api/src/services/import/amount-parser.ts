@@ -0,0 +1,177 @@
+import { ColumnMapping } from './csv-parser';
+
+export interface ParsedAmount {
+  value: number; // NaN when the text holds no number
+  notes: string[];
+}
+
+// How a row's amount was read, shown next to each preview row
+export interface AmountInterpretation {
+  amount: number | null; // Signed, positive is money in
+  type: 'income' | 'expense' | null;
+  source: 'amount' | 'debit' | 'credit' | 'debit_credit' | null;
+  raw: string;
+  notes: string[];
+  error?: string;
+}
+
+const decimalSeparators = new Map<string, '.' | ','>();
+
+/**
+ * Decimal separator of a BCP 47 locale, "de-DE" and "mn-MN" use a comma
+ */
+export function decimalSeparatorFor(locale: string): '.' | ',' {
+  if (!decimalSeparators.has(locale)) {
+    let separator: '.' | ',' = '.';
+    try {
+      const part = new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === 'decimal');
+      separator = part?.value === ',' ? ',' : '.';
+    } catch {
+      // Unknown locale, keep the default
+    }
+    decimalSeparators.set(locale, separator);
+  }
+  return decimalSeparators.get(locale)!;
+}
+
+/**
+ * Parse an amount as banks write it
+ *
+ * Handles currency symbols and codes on either side, accounting
+ * parentheses, trailing minus signs, CR/DR markers and thousands
+ * separators. Without a decimal separator from the mapping, the last of
+ * mixed separators is the decimal one and a lone separator followed by
+ * exactly three digits groups thousands.
+ */
+export function parseAmount(value: unknown, decimalSeparator?: '.' | ','): ParsedAmount {
+  if (typeof value === 'number') {
+    return { value, notes: [] };
+  }
+
+  const notes: string[] = [];
+  let text = String(value ?? '').trim();
+  if (!text) {
+    return { value: NaN, notes };
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    notes.push('parentheses read as negative');
+  }
+  const marker = text.match(/(?<![a-z])(CR|DR)\.?$/i);
+  if (marker) {
+    negative = marker[1].toUpperCase() === 'DR';
+    notes.push(`${marker[1].toUpperCase()} marker`);
+    text = text.slice(0, marker.index).trim();
+  }
+  if (/-\s*$/.test(text)) {
+    negative = true;
+    notes.push('trailing minus');
+  }
+  if (/^[^\d]*[-\u2212]/.test(text)) {
+    negative = true;
+  }
+
+  const symbols = text.replace(/[\d.,'\u2019\s()+\-\u2212]/g, '');
+  if (symbols) {
+    notes.push(`removed "${symbols}"`);
+  }
+
+  // Digits and separators only, spaces and apostrophes group thousands
+  let digits = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(digits)) {
+    return { value: NaN, notes };
+  }
+
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  let decimal: '.' | ',' | null = decimalSeparator || null;
+
+  if (!decimal) {
+    if (lastDot >= 0 && lastComma >= 0) {
+      decimal = lastDot > lastComma ? '.' : ',';
+    } else if (lastDot >= 0 || lastComma >= 0) {
+      const separator = lastDot >= 0 ? '.' : ',';
+      const count = digits.split(separator).length - 1;
+      const decimals = digits.length - digits.lastIndexOf(separator) - 1;
+      decimal = count > 1 || decimals === 3 ? null : separator;
+    }
+  }
+
+  if (decimal === ',') {
+    digits = digits.replace(/\./g, '').replace(',', '.');
+    if (lastComma >= 0) notes.push('decimal comma');
+  } else if (decimal === '.') {
+    digits = digits.replace(/,/g, '');
+  } else {
+    digits = digits.replace(/[.,]/g, '');
+    if (lastDot >= 0 || lastComma >= 0) notes.push('separators read as thousands');
+  }
+
+  const parsed = parseFloat(digits);
+  return { value: negative ? -parsed : parsed, notes };
+}
+
+/**
+ * Signed amount and type of a row under a column mapping
+ * Separate debit and credit columns take precedence over a single amount
+ * column, and a recognized type column decides the sign.
+ */
+export function interpretAmount(row: Record<string, any>, mapping: ColumnMapping): AmountInterpretation {
+  const decimalSeparator = mapping.decimalSeparator || (mapping.numberLocale ? decimalSeparatorFor(mapping.numberLocale) : undefined);
+  const present = (column?: string) => !!column && row[column] !== undefined && row[column] !== null && String(row[column]).trim() !== '';
+
+  let amount: number | null = null;
+  let source: AmountInterpretation['source'] = null;
+  let raw = '';
+  const notes: string[] = [];
+
+  if (mapping.debit || mapping.credit) {
+    const debit = present(mapping.debit) ? parseAmount(row[mapping.debit!], decimalSeparator) : null;
+    const credit = present(mapping.credit) ? parseAmount(row[mapping.credit!], decimalSeparator) : null;
+    const debitValue = debit && !isNaN(debit.value) ? Math.abs(debit.value) : 0;
+    const creditValue = credit && !isNaN(credit.value) ? Math.abs(credit.value) : 0;
+
+    raw = [debit && `debit ${row[mapping.debit!]}`, credit && `credit ${row[mapping.credit!]}`].filter(Boolean).join(', ');
+    notes.push(...(debit?.notes || []), ...(credit?.notes || []));
+
+    if ((debit && !isNaN(debit.value)) || (credit && !isNaN(credit.value))) {
+      // Debit columns are money out whichever way the bank signs them
+      amount = creditValue - debitValue;
+      source = debitValue && creditValue ? 'debit_credit' : debitValue ? 'debit' : 'credit';
+    }
+  } else if (present(mapping.amount)) {
+    const parsed = parseAmount(row[mapping.amount!], decimalSeparator);
+    raw = String(row[mapping.amount!]);
+    notes.push(...parsed.notes);
+
+    if (!isNaN(parsed.value)) {
+      amount = parsed.value;
+      source = 'amount';
+      if (mapping.signConvention === 'positive_is_expense') {
+        amount = -amount;
+        notes.push('sign inverted, positive is expense');
+      }
+    }
+  }
+
+  if (amount === null) {
+    return { amount: null, type: null, source: null, raw, notes, error: 'No amount found' };
+  }
+
+  let type: 'income' | 'expense' = amount >= 0 ? 'income' : 'expense';
+  if (mapping.type && present(mapping.type)) {
+    const typeValue = String(row[mapping.type]).trim().toLowerCase();
+    if (typeValue === 'cr' || ['credit', 'income', 'deposit'].some(word => typeValue.includes(word))) {
+      type = 'income';
+      notes.push(`type column "${row[mapping.type]}"`);
+    } else if (typeValue === 'dr' || ['debit', 'expense', 'withdrawal'].some(word => typeValue.includes(word))) {
+      type = 'expense';
+      notes.push(`type column "${row[mapping.type]}"`);
+    }
+    amount = type === 'income' ? Math.abs(amount) : -Math.abs(amount);
+  }
+
+  return { amount, type, source, raw, notes };
+}
@@ -1,5 +1,6 @@
 import { parse } from 'csv-parse';
 import { Readable } from 'stream';
+import { interpretAmount } from './amount-parser';
 
 export interface ParsedTransaction {
   date: string;
@@ -8,21 +9,31 @@ export interface ParsedTransaction {
   currency?: string;
   category?: string;
   type?: 'income' | 'expense';
+  externalId?: string; // Bank-assigned id such as OFX FITID
   originalRow: Record<string, any>;
 }
 
+// How a single amount column is signed
+export type SignConvention = 'negative_is_expense' | 'positive_is_expense';
+
 export interface ColumnMapping {
   date: string;
   description: string;
-  amount: string;
+  amount?: string;
+  debit?: string; // Money out, used with credit instead of a signed amount column
+  credit?: string; // Money in
   currency?: string;
   category?: string;
   type?: string;
+  signConvention?: SignConvention; // Defaults to negative_is_expense
+  decimalSeparator?: '.' | ','; // Detected per value when neither this nor numberLocale is set
+  numberLocale?: string; // BCP 47 locale the amounts are formatted in, e.g. de-DE
 }
 
 export interface ParseOptions {
   delimiter?: string;
   skipRows?: number;
+  hasHeaderRow?: boolean; // Headerless files get Column1, Column2, ... as headers
   dateFormat?: string;
   encoding?: BufferEncoding;
 }
@@ -36,6 +47,7 @@ export class CSVParser {
     const {
       delimiter = ',',
       skipRows = 0,
+      hasHeaderRow = true,
       encoding = 'utf-8'
     } = options;
 
@@ -43,7 +55,7 @@ export class CSVParser {
       const results: ParsedTransaction[] = [];
       const parser = parse({
         delimiter,
-        columns: true,
+        columns: hasHeaderRow,
         skip_empty_lines: true,
         trim: true,
         from_line: skipRows + 1,
@@ -55,7 +67,7 @@ export class CSVParser {
         let record;
         while ((record = parser.read()) !== null) {
           try {
-            const parsedTransaction = mapRowToTransaction(record, columnMapping);
+            const parsedTransaction = mapRowToTransaction(namedRow(record), columnMapping);
             if (parsedTransaction) {
               results.push(parsedTransaction);
             }
@@ -80,12 +92,13 @@ export class CSVParser {
   }
 
   async detectColumns(fileBuffer: Buffer, options: ParseOptions = {}): Promise<string[]> {
-    const { delimiter = ',', encoding = 'utf-8' } = options;
+    const { delimiter = ',', skipRows = 0, hasHeaderRow = true, encoding = 'utf-8' } = options;
     
     return new Promise((resolve, reject) => {
       const parser = parse({
         delimiter,
-        to_line: 1,
+        from_line: skipRows + 1,
+        to_line: skipRows + 1,
         relax_column_count: true,
         encoding
       });
@@ -95,7 +108,7 @@ export class CSVParser {
       parser.on('readable', function() {
         const record = parser.read();
         if (record) {
-          headers = record;
+          headers = hasHeaderRow ? record : Object.keys(namedRow(record));
         }
       });
 
@@ -120,6 +133,7 @@ export class CSVParser {
     const {
       delimiter = ',',
       skipRows = 0,
+      hasHeaderRow = true,
       encoding = 'utf-8'
     } = options;
 
@@ -127,11 +141,11 @@ export class CSVParser {
       const results: Record<string, any>[] = [];
       const parser = parse({
         delimiter,
-        columns: true,
+        columns: hasHeaderRow,
         skip_empty_lines: true,
         trim: true,
         from_line: skipRows + 1,
-        to_line: skipRows + limit + 1,
+        to_line: skipRows + limit + (hasHeaderRow ? 1 : 0),
         relax_column_count: true,
         encoding
       });
@@ -139,7 +153,7 @@ export class CSVParser {
       parser.on('readable', function() {
         let record;
         while ((record = parser.read()) !== null) {
-          results.push(record);
+          results.push(namedRow(record));
         }
       });
 
@@ -157,6 +171,14 @@ export class CSVParser {
   }
 }
 
+// Rows of headerless files arrive as arrays
+function namedRow(record: Record<string, any> | any[]): Record<string, any> {
+  if (!Array.isArray(record)) {
+    return record;
+  }
+  return Object.fromEntries(record.map((value, i) => [`Column${i + 1}`, value]));
+}
+
 function mapRowToTransaction(
   row: Record<string, any>,
   mapping: ColumnMapping
@@ -165,34 +187,22 @@ function mapRowToTransaction(
     // Extract values based on mapping
     const date = row[mapping.date];
     const description = row[mapping.description];
-    const amount = row[mapping.amount];
 
     // Basic validation
-    if (!date || !description || !amount) {
+    if (!date || !description) {
       return null;
     }
 
     // Parse amount (handle negative values, currency symbols, etc.)
-    const cleanAmount = parseAmount(amount);
-    if (isNaN(cleanAmount)) {
+    const { amount, type } = interpretAmount(row, mapping);
+    if (amount === null || type === null) {
       return null;
     }
 
-    // Determine transaction type
-    let type: 'income' | 'expense' = cleanAmount >= 0 ? 'income' : 'expense';
-    if (mapping.type && row[mapping.type]) {
-      const typeValue = row[mapping.type].toLowerCase();
-      if (typeValue.includes('credit') || typeValue.includes('income')) {
-        type = 'income';
-      } else if (typeValue.includes('debit') || typeValue.includes('expense')) {
-        type = 'expense';
-      }
-    }
-
     return {
       date: date.toString(),
       description: description.toString(),
-      amount: Math.abs(cleanAmount).toFixed(2),
+      amount: Math.abs(amount).toFixed(2),
       currency: mapping.currency ? row[mapping.currency] : undefined,
       category: mapping.category ? row[mapping.category] : undefined,
       type,
@@ -204,22 +214,4 @@ function mapRowToTransaction(
   }
 }
 
-function parseAmount(value: any): number {
-  if (typeof value === 'number') {
-    return value;
-  }
-
-  // Convert to string and clean
-  let cleanValue = value.toString()
-    .replace(/[^0-9.\-+,]/g, '') // Remove currency symbols and letters
-    .replace(/,/g, ''); // Remove thousand separators
-
-  // Handle parentheses for negative values (accounting format)
-  if (value.toString().includes('(') && value.toString().includes(')')) {
-    cleanValue = '-' + cleanValue;
-  }
-
-  return parseFloat(cleanValue);
-}
-
 export const csvParser = new CSVParser();
\ No newline at end of file
@@ -1,5 +1,6 @@
 import * as XLSX from 'xlsx';
 import { ParsedTransaction, ColumnMapping } from './csv-parser';
+import { interpretAmount } from './amount-parser';
 
 export interface ExcelParseOptions {
   sheetName?: string;
@@ -120,30 +121,18 @@ export class ExcelParser {
       // Extract values based on mapping
       const date = row[mapping.date];
       const description = row[mapping.description];
-      const amount = row[mapping.amount];
 
       // Basic validation
-      if (!date || !description || !amount) {
+      if (!date || !description) {
         return null;
       }
 
       // Parse amount
-      const cleanAmount = this.parseAmount(amount);
-      if (isNaN(cleanAmount)) {
+      const { amount, type } = interpretAmount(row, mapping);
+      if (amount === null || type === null) {
         return null;
       }
 
-      // Determine transaction type
-      let type: 'income' | 'expense' = cleanAmount >= 0 ? 'income' : 'expense';
-      if (mapping.type && row[mapping.type]) {
-        const typeValue = row[mapping.type].toString().toLowerCase();
-        if (typeValue.includes('credit') || typeValue.includes('income') || typeValue.includes('deposit')) {
-          type = 'income';
-        } else if (typeValue.includes('debit') || typeValue.includes('expense') || typeValue.includes('withdrawal')) {
-          type = 'expense';
-        }
-      }
-
       // Format date
       let formattedDate = date;
       if (date instanceof Date) {
@@ -157,7 +146,7 @@ export class ExcelParser {
       return {
         date: formattedDate.toString(),
         description: description.toString().trim(),
-        amount: Math.abs(cleanAmount).toFixed(2),
+        amount: Math.abs(amount).toFixed(2),
         currency: mapping.currency ? row[mapping.currency] : undefined,
         category: mapping.category ? row[mapping.category] : undefined,
         type,
@@ -168,24 +157,6 @@ export class ExcelParser {
       return null;
     }
   }
-
-  private parseAmount(value: any): number {
-    if (typeof value === 'number') {
-      return value;
-    }
-
-    // Convert to string and clean
-    let cleanValue = value.toString()
-      .replace(/[^0-9.\-+,]/g, '') // Remove currency symbols and letters
-      .replace(/,/g, ''); // Remove thousand separators
-
-    // Handle parentheses for negative values (accounting format)
-    if (value.toString().includes('(') && value.toString().includes(')')) {
-      cleanValue = '-' + cleanValue;
-    }
-
-    return parseFloat(cleanValue);
-  }
 }
 
 export const excelParser = new ExcelParser();
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { ColumnMapping } from './csv-parser';
+
+export interface ImportPreset {
+  id: string;
+  name: string;
+  bank: string;
+  country: string;
+  fileType: 'csv' | 'excel';
+  headers: string[]; // Empty for headerless exports
+  firstLine?: RegExp; // Recognizes headerless exports by their first data row
+  columnCount?: number;
+  columnMapping: ColumnMapping;
+  dateFormat?: string;
+  delimiter: string;
+  skipRows: number;
+  hasHeaderRow: boolean;
+}
+
+/**
+ * Built-in profiles for the export layouts of common AU and MN banks
+ * Organization profiles with the same headers take precedence.
+ */
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    id: 'commbank-netbank-csv',
+    name: 'CommBank NetBank CSV',
+    bank: 'Commonwealth Bank',
+    country: 'AU',
+    fileType: 'csv',
+    headers: [],
+    firstLine: /^"?\d{2}\/\d{2}\/\d{4}"?,"?[+-]?\d[\d,]*\.\d{2}"?,".*","?[+-]?\d[\d,]*\.\d{2}"?\s*$/,
+    columnCount: 4,
+    columnMapping: { date: 'Column1', amount: 'Column2', description: 'Column3', signConvention: 'negative_is_expense' },
+    dateFormat: 'dd/MM/yyyy',
+    delimiter: ',',
+    skipRows: 0,
+    hasHeaderRow: false
+  },
+  {
+    id: 'anz-csv',
+    name: 'ANZ Internet Banking CSV',
+    bank: 'ANZ',
+    country: 'AU',
+    fileType: 'csv',
+    headers: [],
+    firstLine: /^"?\d{2}\/\d{2}\/\d{4}"?,"?-?\d[\d,]*\.\d{2}"?,"[^"]*"\s*$/,
+    columnCount: 3,
+    columnMapping: { date: 'Column1', amount: 'Column2', description: 'Column3', signConvention: 'negative_is_expense' },
+    dateFormat: 'dd/MM/yyyy',
+    delimiter: ',',
+    skipRows: 0,
+    hasHeaderRow: false
+  },
+  {
+    id: 'westpac-csv',
+    name: 'Westpac CSV',
+    bank: 'Westpac',
+    country: 'AU',
+    fileType: 'csv',
+    headers: ['bank account', 'date', 'narrative', 'debit amount', 'credit amount', 'balance', 'categories', 'serial'],
+    columnMapping: { date: 'Date', description: 'Narrative', debit: 'Debit Amount', credit: 'Credit Amount' },
+    dateFormat: 'dd/MM/yyyy',
+    delimiter: ',',
+    skipRows: 0,
+    hasHeaderRow: true
+  },
+  {
+    id: 'nab-csv',
+    name: 'NAB Internet Banking CSV',
+    bank: 'NAB',
+    country: 'AU',
+    fileType: 'csv',
+    headers: ['date', 'amount', 'account number', '', 'transaction type', 'transaction details', 'balance', 'category', 'merchant name'],
+    columnMapping: { date: 'Date', amount: 'Amount', description: 'Transaction Details', signConvention: 'negative_is_expense' },
+    dateFormat: 'dd MMM yy',
+    delimiter: ',',
+    skipRows: 0,
+    hasHeaderRow: true
+  },
+  {
+    id: 'khanbank-statement',
+    name: 'Khan Bank statement',
+    bank: 'Khan Bank',
+    country: 'MN',
+    fileType: 'excel',
+    headers: ['гүйлгээний огноо', 'салбар', 'эхний үлдэгдэл', 'дебит гүйлгээ', 'кредит гүйлгээ', 'эцсийн үлдэгдэл', 'гүйлгээний утга', 'харьцсан данс'],
+    columnMapping: { date: 'Гүйлгээний огноо', description: 'Гүйлгээний утга', debit: 'Дебит гүйлгээ', credit: 'Кредит гүйлгээ' },
+    dateFormat: 'yyyy/MM/dd',
+    delimiter: ',',
+    skipRows: 0,
+    hasHeaderRow: true
+  },
+  {
+    id: 'golomt-statement',
+    name: 'Golomt Bank statement',
+    bank: 'Golomt Bank',
+    country: 'MN',
+    fileType: 'excel',
+    headers: ['огноо', 'гүйлгээний утга', 'дебит', 'кредит', 'үлдэгдэл'],
+    columnMapping: { date: 'Огноо', description: 'Гүйлгээний утга', debit: 'Дебит', credit: 'Кредит' },
+    dateFormat: 'yyyy-MM-dd',
+    delimiter: ',',
+    skipRows: 0,
+    hasHeaderRow: true
+  },
+  {
+    id: 'tdb-statement',
+    name: 'TDB statement',
+    bank: 'Trade and Development Bank',
+    country: 'MN',
+    fileType: 'excel',
+    headers: ['огноо', 'гүйлгээний утга', 'орлого', 'зарлага', 'үлдэгдэл'],
+    columnMapping: { date: 'Огноо', description: 'Гүйлгээний утга', credit: 'Орлого', debit: 'Зарлага' },
+    dateFormat: 'yyyy.MM.dd',
+    delimiter: ',',
+    skipRows: 0,
+    hasHeaderRow: true
+  }
+];
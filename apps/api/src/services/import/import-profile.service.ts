@@ -0,0 +1,262 @@
+import { PrismaClient, Prisma, ImportProfile } from '@prisma/client';
+import { csvParser, ColumnMapping } from './csv-parser';
+import { excelParser } from './excel-parser';
+import { IMPORT_PRESETS, ImportPreset } from './import-presets';
+
+const PRESET_PREFIX = 'preset:';
+
+export interface ImportProfileInput {
+  name: string;
+  bank?: string | null;
+  fileType?: 'csv' | 'excel';
+  headers?: string[];
+  columnMapping: ColumnMapping;
+  dateFormat?: string | null;
+  delimiter?: string;
+  skipRows?: number;
+  hasHeaderRow?: boolean;
+}
+
+// A saved profile or built-in preset in the shape the import flow uses
+export interface ResolvedImportProfile {
+  id: string;
+  name: string;
+  preset: boolean;
+  fileType: string;
+  columnMapping: ColumnMapping;
+  dateFormat?: string;
+  delimiter: string;
+  skipRows: number;
+  hasHeaderRow: boolean;
+}
+
+export interface ImportProfileMatch {
+  profile: ResolvedImportProfile;
+  match: 'exact' | 'columns'; // Same header row, or only the mapped columns are present
+}
+
+/**
+ * Import Profile Service
+ *
+ * Named column mappings and parse settings per organization. A file is
+ * matched against saved profiles first and the built-in bank presets
+ * second, so an upload from a known bank needs no mapping at all.
+ */
+export class ImportProfileService {
+  constructor(private prisma: PrismaClient) {}
+
+  async getProfiles(organizationId: string): Promise<ImportProfile[]> {
+    return this.prisma.importProfile.findMany({
+      where: { organizationId },
+      orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { name: 'asc' }]
+    });
+  }
+
+  getPresets(): ImportPreset[] {
+    return IMPORT_PRESETS;
+  }
+
+  /**
+   * Get a saved profile, or a preset by its "preset:<id>" id
+   */
+  async getProfile(profileId: string, organizationId: string): Promise<ResolvedImportProfile | null> {
+    if (profileId.startsWith(PRESET_PREFIX)) {
+      const preset = IMPORT_PRESETS.find(p => p.id === profileId.slice(PRESET_PREFIX.length));
+      return preset ? this.fromPreset(preset) : null;
+    }
+
+    const profile = await this.prisma.importProfile.findFirst({
+      where: { id: profileId, organizationId }
+    });
+    return profile ? this.fromProfile(profile) : null;
+  }
+
+  async createProfile(userId: string, organizationId: string, input: ImportProfileInput): Promise<ImportProfile> {
+    await this.assertNameAvailable(organizationId, input.name);
+
+    return this.prisma.importProfile.create({
+      data: {
+        name: input.name,
+        bank: input.bank,
+        fileType: input.fileType,
+        headers: (input.headers || []).map(normalizeHeader),
+        columnMapping: input.columnMapping as unknown as Prisma.InputJsonValue,
+        dateFormat: input.dateFormat,
+        delimiter: input.delimiter,
+        skipRows: input.skipRows,
+        hasHeaderRow: input.hasHeaderRow,
+        userId,
+        organizationId
+      }
+    });
+  }
+
+  async updateProfile(
+    profileId: string,
+    organizationId: string,
+    input: Partial<ImportProfileInput>
+  ): Promise<ImportProfile> {
+    const profile = await this.prisma.importProfile.findFirst({
+      where: { id: profileId, organizationId }
+    });
+
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+
+    if (input.name && input.name !== profile.name) {
+      await this.assertNameAvailable(organizationId, input.name);
+    }
+
+    return this.prisma.importProfile.update({
+      where: { id: profileId },
+      data: {
+        ...input,
+        headers: input.headers?.map(normalizeHeader),
+        columnMapping: input.columnMapping as unknown as Prisma.InputJsonValue | undefined
+      }
+    });
+  }
+
+  async deleteProfile(profileId: string, organizationId: string): Promise<void> {
+    const result = await this.prisma.importProfile.deleteMany({
+      where: { id: profileId, organizationId }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Profile not found');
+    }
+  }
+
+  async markUsed(profileId: string): Promise<void> {
+    if (profileId.startsWith(PRESET_PREFIX)) {
+      return;
+    }
+
+    await this.prisma.importProfile.update({
+      where: { id: profileId },
+      data: { lastUsedAt: new Date() }
+    });
+  }
+
+  /**
+   * Find the profile for a file from its header row
+   * An identical header row beats one that only contains the mapped
+   * columns, and saved profiles beat presets.
+   */
+  async matchProfile(
+    organizationId: string,
+    fileBuffer: Buffer,
+    fileType: 'csv' | 'excel',
+    sheetName?: string
+  ): Promise<ImportProfileMatch | null> {
+    const saved = (await this.getProfiles(organizationId))
+      .filter(profile => profile.fileType === fileType)
+      .map(profile => ({ profile: this.fromProfile(profile), headers: profile.headers, firstLine: undefined, columnCount: undefined }));
+
+    // Presets are matched for either file type, banks offer both
+    const presets = IMPORT_PRESETS
+      .map(preset => ({ profile: this.fromPreset(preset), headers: preset.headers, firstLine: preset.firstLine, columnCount: preset.columnCount }));
+
+    const headerCache = new Map<string, string[]>();
+    const readHeaders = async (profile: ResolvedImportProfile): Promise<string[]> => {
+      const key = `${profile.delimiter}|${profile.skipRows}`;
+      if (!headerCache.has(key)) {
+        try {
+          const headers = fileType === 'excel'
+            ? await excelParser.detectColumns(fileBuffer, { sheetName })
+            : await csvParser.detectColumns(fileBuffer, { delimiter: profile.delimiter, skipRows: profile.skipRows });
+          headerCache.set(key, headers);
+        } catch {
+          headerCache.set(key, []);
+        }
+      }
+      return headerCache.get(key)!;
+    };
+
+    const lines = fileType === 'csv' ? fileBuffer.toString('utf8').replace(/^\uFEFF/, '').split(/\r?\n/) : [];
+    let partial: ImportProfileMatch | null = null;
+
+    for (const candidate of [...saved, ...presets]) {
+      const { profile } = candidate;
+
+      if (!profile.hasHeaderRow) {
+        // Headerless exports are recognized by the shape of their first row
+        const line = lines[profile.skipRows] || '';
+        const headers = await readHeaders(profile);
+        if (candidate.firstLine && candidate.firstLine.test(line) &&
+            (!candidate.columnCount || headers.length === candidate.columnCount)) {
+          return { profile, match: 'exact' };
+        }
+        continue;
+      }
+
+      const headers = (await readHeaders(profile)).map(normalizeHeader);
+      if (headers.length === 0) continue;
+
+      if (candidate.headers.length > 0 &&
+          candidate.headers.length === headers.length &&
+          candidate.headers.every((header, i) => header === headers[i])) {
+        return { profile, match: 'exact' };
+      }
+
+      if (!partial && mappedColumns(profile.columnMapping).every(column => headers.includes(normalizeHeader(column)))) {
+        partial = { profile, match: 'columns' };
+      }
+    }
+
+    return partial;
+  }
+
+  private async assertNameAvailable(organizationId: string, name: string): Promise<void> {
+    const existing = await this.prisma.importProfile.findFirst({
+      where: { organizationId, name }
+    });
+
+    if (existing) {
+      throw new Error('A profile with this name already exists');
+    }
+  }
+
+  private fromProfile(profile: ImportProfile): ResolvedImportProfile {
+    return {
+      id: profile.id,
+      name: profile.name,
+      preset: false,
+      fileType: profile.fileType,
+      columnMapping: profile.columnMapping as unknown as ColumnMapping,
+      dateFormat: profile.dateFormat || undefined,
+      delimiter: profile.delimiter,
+      skipRows: profile.skipRows,
+      hasHeaderRow: profile.hasHeaderRow
+    };
+  }
+
+  private fromPreset(preset: ImportPreset): ResolvedImportProfile {
+    return {
+      id: `${PRESET_PREFIX}${preset.id}`,
+      name: preset.name,
+      preset: true,
+      fileType: preset.fileType,
+      columnMapping: preset.columnMapping,
+      dateFormat: preset.dateFormat,
+      delimiter: preset.delimiter,
+      skipRows: preset.skipRows,
+      hasHeaderRow: preset.hasHeaderRow
+    };
+  }
+}
+
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/^\uFEFF/, '')
+    .replace(/^["']|["']$/g, '')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+}
+
+function mappedColumns(mapping: ColumnMapping): string[] {
+  return [mapping.date, mapping.description, mapping.amount, mapping.debit, mapping.credit, mapping.currency, mapping.category, mapping.type]
+    .filter((column): column is string => !!column);
+}
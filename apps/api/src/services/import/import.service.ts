@@ -1,122 +1,241 @@
 import { PrismaClient, ImportHistory, Transaction, Prisma } from '@prisma/client';
 import { csvParser, ParsedTransaction, ColumnMapping } from './csv-parser';
 import { excelParser } from './excel-parser';
+import { pdfParser } from './pdf-parser';
+import { ofxParser } from './ofx-parser';
+import { qifParser } from './qif-parser';
+import { CategorizationRuleService } from '../rules/categorization-rule.service';
+import { DuplicateDetectionService, DuplicateMatch } from '../duplicates/duplicate-detection.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { getDocumentStorage } from '../documents/storage';
+import { importQueue, ImportJobData } from '../jobs/queues';
 import { format, parse } from 'date-fns';
 
+export type ImportFileType = 'csv' | 'excel' | 'pdf' | 'ofx' | 'qif';
+
 interface ImportOptions {
   assetId: string;
   columnMapping: ColumnMapping;
   dateFormat?: string;
   skipDuplicates?: boolean;
+  delimiter?: string;
+  skipRows?: number;
+  hasHeaderRow?: boolean;
+  profileId?: string; // Import profile the settings came from
+  atomic?: boolean; // Import every row or none
+}
+
+// Options of every file type, as queued imports keep them
+export type FileImportOptions = ImportOptions & {
+  sheetName?: string;
+  template?: string;
+  account?: string;
+  dateOrder?: 'MDY' | 'DMY';
+};
+
+// Rows processed, reported while a queued import runs
+type ImportProgress = (processed: number, total: number) => Promise<void>;
+
+// Rows per createMany, progress is reported after each
+const CHUNK_SIZE = 1000;
+// An atomic import holds one database transaction for every chunk
+const ATOMIC_TIMEOUT_MS = 10 * 60 * 1000;
+
+// A type, not an interface, so it is assignable to ImportHistory.errors JSON
+type ImportRowError = {
+  row: number;
+  error: string;
+  data?: any;
+};
+
+interface PreparedRow {
+  row: number;
+  parsed: ParsedTransaction;
+  date: Date;
+  amount: number;
+  type: 'INCOME' | 'EXPENSE';
+}
+
+interface PendingInsert {
+  row: PreparedRow;
+  match: DuplicateMatch | null;
+  data: Prisma.TransactionCreateManyInput;
+}
+
+interface ChunkResult {
+  created: Transaction[];
+  flagged: number;
+}
+
+/**
+ * An atomic import that stopped before writing, with the rows at fault
+ */
+export class ImportAbortedError extends Error {
+  constructor(message: string, public rowErrors: ImportRowError[]) {
+    super(message);
+    this.name = 'ImportAbortedError';
+  }
 }
 
 interface ImportResult {
   importHistory: ImportHistory;
   transactions: Transaction[];
-  errors: Array<{ row: number; error: string; data?: any }>;
+  errors: ImportRowError[];
+  duplicates: DuplicateSummary;
+}
+
+interface RollbackResult {
+  importHistory: ImportHistory;
+  transactionsDeleted: number;
+  goalContributionsReversed: number;
+}
+
+interface DuplicateSummary {
+  skipped: number; // Same bank id, or same day, amount and description, left out with skipDuplicates
+  flagged: number; // Imported and queued for review
 }
 
 export class ImportService {
-  constructor(private prisma: PrismaClient) {}
+  private ruleService: CategorizationRuleService;
+  private duplicateService: DuplicateDetectionService;
+  private ledgerService: LedgerService;
+
+  constructor(private prisma: PrismaClient) {
+    this.ruleService = new CategorizationRuleService(prisma);
+    this.duplicateService = new DuplicateDetectionService(prisma);
+    this.ledgerService = new LedgerService(prisma);
+  }
 
-  async importFromCSV(
+  async importFile(
+    type: ImportFileType,
     fileBuffer: Buffer,
     fileName: string,
     userId: string,
     organizationId: string,
-    options: ImportOptions
+    options: FileImportOptions
   ): Promise<ImportResult> {
-    // Create import history record
-    const importHistory = await this.prisma.importHistory.create({
-      data: {
-        type: 'csv',
-        fileName,
-        status: 'processing',
-        userId,
-        organizationId,
-        assetId: options.assetId,
-        mapping: options.columnMapping as any,
-        startedAt: new Date()
-      }
-    });
+    return this.runImport(type, fileName, userId, organizationId, options, () =>
+      this.parseFile(type, fileBuffer, options)
+    );
+  }
 
-    try {
-      // Parse CSV file
-      const parsedTransactions = await csvParser.parseFile(
-        fileBuffer,
-        options.columnMapping
-      );
+  /**
+   * Queue an import for the import worker instead of running it in the request
+   * The file is kept in document storage until the job finishes; follow it
+   * through ImportHistory or the job with the same id.
+   */
+  async queueImport(
+    type: ImportFileType,
+    fileBuffer: Buffer,
+    fileName: string,
+    userId: string,
+    organizationId: string,
+    options: FileImportOptions
+  ): Promise<ImportHistory> {
+    const importHistory = await this.createHistory(type, fileName, userId, organizationId, options, 'pending');
 
-      // Process transactions
-      const result = await this.processTransactions(
-        parsedTransactions,
-        importHistory.id,
-        userId,
-        organizationId,
-        options
-      );
+    const storage = getDocumentStorage();
+    const storageKey = `imports/${organizationId}/${importHistory.id}`;
+    await storage.put(storageKey, fileBuffer, 'application/octet-stream');
 
-      // Update import history
-      await this.prisma.importHistory.update({
-        where: { id: importHistory.id },
-        data: {
-          status: 'completed',
-          totalRows: parsedTransactions.length,
-          successfulRows: result.transactions.length,
-          failedRows: result.errors.length,
-          errors: result.errors.length > 0 ? result.errors : undefined,
-          completedAt: new Date()
-        }
-      });
+    await importQueue.add(
+      { importHistoryId: importHistory.id, type, options, storage: storage.name, storageKey, userId, organizationId },
+      { jobId: importHistory.id }
+    );
 
-      return {
-        importHistory,
-        transactions: result.transactions,
-        errors: result.errors
-      };
-    } catch (error) {
-      // Update import history with error
-      await this.prisma.importHistory.update({
-        where: { id: importHistory.id },
-        data: {
-          status: 'failed',
-          errors: [{ error: error instanceof Error ? error.message : 'Unknown error' }],
-          completedAt: new Date()
-        }
-      });
+    return importHistory;
+  }
 
-      throw error;
+  /**
+   * Run a queued import, called by the import worker
+   * A retry starts over: rows created by the failed attempt are removed
+   * first, so they are neither duplicated nor matched as duplicates.
+   */
+  async runQueuedImport(data: ImportJobData, onProgress?: ImportProgress): Promise<Omit<ImportResult, 'importHistory' | 'transactions'> & { imported: number }> {
+    const importHistory = await this.prisma.importHistory.findUnique({
+      where: { id: data.importHistoryId }
+    });
+
+    if (!importHistory || importHistory.status === 'rolled_back') {
+      throw new Error('Import not found');
     }
+
+    await this.prisma.duplicateCandidate.deleteMany({
+      where: { transaction: { importHistoryId: importHistory.id } }
+    });
+    await this.prisma.transaction.deleteMany({
+      where: { importHistoryId: importHistory.id }
+    });
+    await this.prisma.importHistory.update({
+      where: { id: importHistory.id },
+      data: { status: 'processing', startedAt: new Date(), totalRows: 0, successfulRows: 0, failedRows: 0 }
+    });
+
+    const fileBuffer = await getDocumentStorage(data.storage).get(data.storageKey);
+    const result = await this.executeImport(
+      importHistory,
+      data.userId,
+      data.organizationId,
+      data.options,
+      () => this.parseFile(data.type, fileBuffer, data.options),
+      onProgress
+    );
+
+    return { imported: result.transactions.length, errors: result.errors, duplicates: result.duplicates };
   }
 
-  async importFromExcel(
-    fileBuffer: Buffer,
+  /**
+   * Record an import in ImportHistory around parsing and processing a file
+   */
+  private async runImport(
+    type: ImportFileType,
     fileName: string,
     userId: string,
     organizationId: string,
-    options: ImportOptions & { sheetName?: string }
+    options: FileImportOptions,
+    parseFile: () => Promise<ParsedTransaction[]>
   ): Promise<ImportResult> {
-    // Create import history record
-    const importHistory = await this.prisma.importHistory.create({
+    const importHistory = await this.createHistory(type, fileName, userId, organizationId, options, 'processing');
+    return this.executeImport(importHistory, userId, organizationId, options, parseFile);
+  }
+
+  private async createHistory(
+    type: ImportFileType,
+    fileName: string,
+    userId: string,
+    organizationId: string,
+    options: FileImportOptions,
+    status: 'pending' | 'processing'
+  ): Promise<ImportHistory> {
+    // Parser options such as the sheet or statement template are kept with the mapping
+    const { assetId, columnMapping, dateFormat, skipDuplicates, atomic, ...parserOptions } = options;
+
+    return this.prisma.importHistory.create({
       data: {
-        type: 'excel',
+        type,
         fileName,
-        status: 'processing',
+        status,
         userId,
         organizationId,
-        assetId: options.assetId,
-        mapping: options.columnMapping as any,
-        startedAt: new Date()
+        assetId,
+        mapping: { ...columnMapping, ...parserOptions } as any,
+        startedAt: status === 'processing' ? new Date() : undefined
       }
     });
+  }
+
+  private async executeImport(
+    importHistory: ImportHistory,
+    userId: string,
+    organizationId: string,
+    options: FileImportOptions,
+    parseFile: () => Promise<ParsedTransaction[]>,
+    onProgress?: ImportProgress
+  ): Promise<ImportResult> {
+    const { assetId, columnMapping, dateFormat, skipDuplicates, atomic } = options;
 
     try {
-      // Parse Excel file
-      const parsedTransactions = await excelParser.parseFile(
-        fileBuffer,
-        options.columnMapping,
-        { sheetName: options.sheetName }
-      );
+      const parsedTransactions = await parseFile();
 
       // Process transactions
       const result = await this.processTransactions(
@@ -124,9 +243,20 @@ export class ImportService {
         importHistory.id,
         userId,
         organizationId,
-        options
+        { assetId, columnMapping, dateFormat, skipDuplicates, atomic },
+        onProgress && (async (processed, successful, failed) => {
+          await this.prisma.importHistory.update({
+            where: { id: importHistory.id },
+            data: { totalRows: parsedTransactions.length, successfulRows: successful, failedRows: failed }
+          });
+          await onProgress(processed, parsedTransactions.length);
+        })
       );
 
+      if (result.transactions.length > 0) {
+        await this.ledgerService.syncBalance(assetId);
+      }
+
       // Update import history
       await this.prisma.importHistory.update({
         where: { id: importHistory.id },
@@ -143,7 +273,8 @@ export class ImportService {
       return {
         importHistory,
         transactions: result.transactions,
-        errors: result.errors
+        errors: result.errors,
+        duplicates: result.duplicates
       };
     } catch (error) {
       // Update import history with error
@@ -151,7 +282,10 @@ export class ImportService {
         where: { id: importHistory.id },
         data: {
           status: 'failed',
-          errors: [{ error: error instanceof Error ? error.message : 'Unknown error' }],
+          errors: error instanceof ImportAbortedError
+            ? [{ error: error.message }, ...error.rowErrors]
+            : [{ error: error instanceof Error ? error.message : 'Unknown error' }],
+          failedRows: error instanceof ImportAbortedError ? error.rowErrors.length : undefined,
           completedAt: new Date()
         }
       });
@@ -160,15 +294,43 @@ export class ImportService {
     }
   }
 
+  private parseFile(type: ImportFileType, fileBuffer: Buffer, options: FileImportOptions): Promise<ParsedTransaction[]> {
+    switch (type) {
+      case 'excel':
+        return excelParser.parseFile(fileBuffer, options.columnMapping, { sheetName: options.sheetName });
+      case 'pdf':
+        return pdfParser.parseFile(fileBuffer, options.columnMapping, { template: options.template });
+      case 'ofx':
+        return ofxParser.parseFile(fileBuffer, options.columnMapping, { account: options.account });
+      case 'qif':
+        return qifParser.parseFile(fileBuffer, options.columnMapping, { dateOrder: options.dateOrder });
+      default:
+        return csvParser.parseFile(fileBuffer, options.columnMapping, {
+          delimiter: options.delimiter,
+          skipRows: options.skipRows,
+          hasHeaderRow: options.hasHeaderRow
+        });
+    }
+  }
+
+  /**
+   * Insert parsed rows in bulk
+   * Rows are validated and matched against one prefetched range of the
+   * asset's transactions in memory, then inserted CHUNK_SIZE at a time.
+   * With atomic, an invalid row or a failed chunk imports nothing; otherwise
+   * a failed chunk is retried row by row so only the bad rows are reported.
+   */
   private async processTransactions(
     parsedTransactions: ParsedTransaction[],
     importHistoryId: string,
     userId: string,
     organizationId: string,
-    options: ImportOptions
-  ): Promise<{ transactions: Transaction[]; errors: Array<{ row: number; error: string; data?: any }> }> {
+    options: ImportOptions,
+    onProgress?: (processed: number, successful: number, failed: number) => Promise<void>
+  ): Promise<{ transactions: Transaction[]; errors: ImportRowError[]; duplicates: DuplicateSummary }> {
     const transactions: Transaction[] = [];
-    const errors: Array<{ row: number; error: string; data?: any }> = [];
+    const errors: ImportRowError[] = [];
+    const duplicates: DuplicateSummary = { skipped: 0, flagged: 0 };
 
     // Get asset details for currency
     const asset = await this.prisma.asset.findFirst({
@@ -179,64 +341,196 @@ export class ImportService {
       throw new Error('Asset not found');
     }
 
-    // Process each transaction
-    for (let i = 0; i < parsedTransactions.length; i++) {
-      const parsed = parsedTransactions[i];
-      
-      try {
-        // Parse date
-        const transactionDate = this.parseDate(parsed.date, options.dateFormat);
-        if (!transactionDate) {
-          throw new Error('Invalid date format');
+    const rules = await this.ruleService.getActiveRules(userId, organizationId);
+
+    // Validate every row before writing any
+    const rows: PreparedRow[] = [];
+    parsedTransactions.forEach((parsed, i) => {
+      const date = this.parseDate(parsed.date, options.dateFormat);
+      const amount = parseFloat(parsed.amount);
+
+      if (!date) {
+        errors.push({ row: i + 1, error: 'Invalid date format', data: parsed });
+      } else if (isNaN(amount)) {
+        errors.push({ row: i + 1, error: 'Invalid amount', data: parsed });
+      } else {
+        rows.push({ row: i + 1, parsed, date, amount: Math.abs(amount), type: parsed.type === 'income' ? 'INCOME' : 'EXPENSE' });
+      }
+    });
+
+    if (options.atomic && errors.length > 0) {
+      throw new ImportAbortedError(`${errors.length} of ${parsedTransactions.length} rows are invalid, nothing was imported`, errors);
+    }
+
+    if (rows.length === 0) {
+      return { transactions, errors, duplicates };
+    }
+
+    // One query for everything the rows could repeat, rows of this import excluded
+    const times = rows.map(row => row.date.getTime());
+    const index = await this.duplicateService.buildIndex(
+      options.assetId,
+      new Date(times.reduce((min, time) => Math.min(min, time))),
+      new Date(times.reduce((max, time) => Math.max(max, time))),
+      rows.filter(row => row.parsed.externalId).map(row => row.parsed.externalId!),
+      importHistoryId
+    );
+
+    // Each existing transaction is matched at most once, so two identical
+    // coffees in the file are only both skipped if both are already there
+    const matchedIds = new Set<string>();
+    const fileExternalIds = new Set<string>();
+    const inserts: PendingInsert[] = [];
+
+    for (const row of rows) {
+      const { parsed } = row;
+
+      // The same bank id twice in one file is one transaction
+      if (parsed.externalId) {
+        if (fileExternalIds.has(parsed.externalId) && options.skipDuplicates) {
+          duplicates.skipped++;
+          continue;
         }
+        fileExternalIds.add(parsed.externalId);
+      }
 
-        // Check for duplicates if enabled
-        if (options.skipDuplicates) {
-          const existing = await this.prisma.transaction.findFirst({
-            where: {
-              assetId: options.assetId,
-              date: transactionDate,
-              amount: new Prisma.Decimal(parsed.amount),
-              description: parsed.description
-            }
-          });
+      const match = index.match({
+        assetId: options.assetId,
+        type: row.type,
+        amount: row.amount,
+        date: row.date,
+        description: parsed.description || null,
+        externalId: parsed.externalId
+      }, matchedIds);
+
+      if (match) {
+        matchedIds.add(match.original.id);
+        if (options.skipDuplicates && match.sameTransaction) {
+          duplicates.skipped++;
+          continue;
+        }
+      }
+
+      // User rules take precedence over the file's category
+      const ruleOutcome = this.ruleService.apply(rules, {
+        type: row.type,
+        amount: row.amount,
+        description: parsed.description || null,
+        assetId: options.assetId
+      });
 
-          if (existing) {
-            continue; // Skip duplicate
+      inserts.push({
+        row,
+        match,
+        data: {
+          type: row.type,
+          category: ruleOutcome?.category || parsed.category || (parsed.type === 'income' ? 'Other Income' : 'Other'),
+          tags: ruleOutcome?.tags,
+          counterparty: ruleOutcome?.counterparty,
+          amount: new Prisma.Decimal(parsed.amount),
+          currency: parsed.currency || asset.currency,
+          description: parsed.description,
+          date: row.date,
+          externalId: parsed.externalId,
+          assetId: options.assetId,
+          userId,
+          organizationId,
+          importHistoryId,
+          metadata: {
+            imported: true,
+            originalRow: parsed.originalRow
           }
         }
+      });
+    }
+
+    const chunks: PendingInsert[][] = [];
+    for (let i = 0; i < inserts.length; i += CHUNK_SIZE) {
+      chunks.push(inserts.slice(i, i + CHUNK_SIZE));
+    }
+
+    // Invalid and skipped rows are done before the first chunk
+    const alreadyProcessed = parsedTransactions.length - inserts.length;
+    const invalidRows = errors.length;
+    const reportProgress = async () => {
+      await onProgress?.(alreadyProcessed + transactions.length + errors.length - invalidRows, transactions.length, errors.length);
+    };
+
+    if (options.atomic) {
+      const results = await this.prisma.$transaction(async (tx) => {
+        const inserted: ChunkResult[] = [];
+        for (const chunk of chunks) {
+          inserted.push(await this.insertChunk(tx, chunk));
+        }
+        return inserted;
+      }, { timeout: ATOMIC_TIMEOUT_MS });
 
-        // Create transaction
-        const transaction = await this.prisma.transaction.create({
-          data: {
-            type: parsed.type === 'income' ? 'INCOME' : 'EXPENSE',
-            category: parsed.category || (parsed.type === 'income' ? 'Other Income' : 'Other'),
-            amount: new Prisma.Decimal(parsed.amount),
-            currency: parsed.currency || asset.currency,
-            description: parsed.description,
-            date: transactionDate,
-            assetId: options.assetId,
-            userId,
-            organizationId,
-            importHistoryId,
-            metadata: {
-              imported: true,
-              originalRow: parsed.originalRow
+      for (const result of results) {
+        transactions.push(...result.created);
+        duplicates.flagged += result.flagged;
+      }
+      await reportProgress();
+    } else {
+      for (const chunk of chunks) {
+        try {
+          const result = await this.prisma.$transaction(tx => this.insertChunk(tx, chunk));
+          transactions.push(...result.created);
+          duplicates.flagged += result.flagged;
+        } catch {
+          // Find the rows that failed
+          for (const insert of chunk) {
+            try {
+              const result = await this.prisma.$transaction(tx => this.insertChunk(tx, [insert]));
+              transactions.push(...result.created);
+              duplicates.flagged += result.flagged;
+            } catch (error) {
+              errors.push({
+                row: insert.row.row,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                data: insert.row.parsed
+              });
             }
           }
-        });
+        }
+        await reportProgress();
+      }
+    }
 
-        transactions.push(transaction);
-      } catch (error) {
-        errors.push({
-          row: i + 1,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          data: parsed
-        });
+    errors.sort((a, b) => a.row - b.row);
+    return { transactions, errors, duplicates };
+  }
+
+  /**
+   * Insert one chunk and queue the rows that may repeat an existing transaction
+   */
+  private async insertChunk(client: Prisma.TransactionClient, chunk: PendingInsert[]): Promise<ChunkResult> {
+    const created = await client.transaction.createManyAndReturn({
+      data: chunk.map(insert => insert.data)
+    });
+
+    // Created rows are paired back by their values, identical rows are interchangeable
+    const key = (date: Date, amount: Prisma.Decimal, description: string | null | undefined, externalId: string | null | undefined) =>
+      `${date.getTime()}|${amount.toFixed(2)}|${description || ''}|${externalId || ''}`;
+    const byKey = new Map<string, Transaction[]>();
+    for (const transaction of created) {
+      const k = key(transaction.date, transaction.amount, transaction.description, transaction.externalId);
+      const same = byKey.get(k);
+      if (same) {
+        same.push(transaction);
+      } else {
+        byKey.set(k, [transaction]);
       }
     }
 
-    return { transactions, errors };
+    const flags = chunk
+      .filter(insert => insert.match)
+      .map(insert => ({
+        transaction: byKey.get(key(insert.row.date, new Prisma.Decimal(insert.row.parsed.amount), insert.row.parsed.description, insert.row.parsed.externalId))!.shift()!,
+        match: insert.match!
+      }));
+
+    const flagged = await this.duplicateService.flagMany(client, flags, 'import');
+    return { created, flagged };
   }
 
   private parseDate(dateString: string, format?: string): Date | null {
@@ -245,7 +539,8 @@ export class ImportService {
 
       // Try to parse with provided format
       if (format) {
-        return parse(dateString, format, new Date());
+        const date = parse(dateString, format, new Date());
+        return isNaN(date.getTime()) ? null : date;
       }
 
       // Try common date formats
@@ -283,6 +578,130 @@ export class ImportService {
     }
   }
 
+  /**
+   * Delete every transaction an import created
+   * Goal contributions linked to those transactions are taken back out of
+   * their goals. Imports never moved the amount of assets outside ledger
+   * mode, so only ledger balances are recomputed. The rollback is recorded
+   * in the audit log with what it removed.
+   */
+  async rollbackImport(
+    importId: string,
+    userId: string,
+    organizationId: string,
+    role: string
+  ): Promise<RollbackResult> {
+    // Members only roll back their own imports, owners and admins any import
+    const importHistory = await this.prisma.importHistory.findFirst({
+      where: {
+        id: importId,
+        organizationId,
+        ...(!['OWNER', 'ADMIN'].includes(role) && { userId })
+      }
+    });
+
+    if (!importHistory) {
+      throw new Error('Import not found');
+    }
+
+    if (importHistory.status === 'rolled_back') {
+      throw new Error('Import is already rolled back');
+    }
+
+    if (importHistory.status === 'pending' || importHistory.status === 'processing') {
+      throw new Error('Import is still running');
+    }
+
+    const transactions = await this.prisma.transaction.findMany({
+      where: { importHistoryId: importId },
+      select: {
+        id: true,
+        assetId: true,
+        transferId: true,
+        reconciliation: { select: { status: true } },
+        goalContributions: { select: { id: true, goalId: true, amount: true } }
+      }
+    });
+
+    if (transactions.some(tx => tx.reconciliation?.status === 'COMPLETED')) {
+      throw new Error('Import contains transactions locked by a completed statement reconciliation');
+    }
+
+    if (transactions.some(tx => tx.transferId)) {
+      throw new Error('Import contains transfer legs, delete those through /api/transfers first');
+    }
+
+    const transactionIds = transactions.map(tx => tx.id);
+    const contributions = transactions.flatMap(tx => tx.goalContributions);
+
+    // Amount to take back out of each goal
+    const goalAmounts = new Map<string, Prisma.Decimal>();
+    for (const contribution of contributions) {
+      goalAmounts.set(
+        contribution.goalId,
+        (goalAmounts.get(contribution.goalId) || new Prisma.Decimal(0)).plus(contribution.amount)
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      for (const [goalId, amount] of goalAmounts) {
+        const goal = await tx.goal.update({
+          where: { id: goalId },
+          data: { currentAmount: { decrement: amount } }
+        });
+
+        // A goal completed by the imported contributions is open again
+        if (goal.status === 'COMPLETED' && goal.currentAmount.lt(goal.targetAmount)) {
+          await tx.goal.update({
+            where: { id: goalId },
+            data: { status: 'ACTIVE', completedAt: null }
+          });
+        }
+      }
+
+      await tx.goalContribution.deleteMany({
+        where: { id: { in: contributions.map(contribution => contribution.id) } }
+      });
+      await tx.duplicateCandidate.deleteMany({
+        where: { transactionId: { in: transactionIds } }
+      });
+      await tx.transaction.deleteMany({
+        where: { id: { in: transactionIds } }
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'import.rollback',
+          entityType: 'ImportHistory',
+          entityId: importId,
+          details: {
+            fileName: importHistory.fileName,
+            assetId: importHistory.assetId,
+            transactionsDeleted: transactionIds.length,
+            goalContributions: Array.from(goalAmounts, ([goalId, amount]) => ({ goalId, amount: amount.toString() }))
+          },
+          userId,
+          organizationId
+        }
+      });
+
+      return tx.importHistory.update({
+        where: { id: importId },
+        data: { status: 'rolled_back', rolledBackAt: new Date() }
+      });
+    });
+
+    for (const assetId of new Set(transactions.map(tx => tx.assetId))) {
+      await this.ledgerService.syncBalance(assetId);
+    }
+
+    return {
+      importHistory: updated,
+      transactionsDeleted: transactionIds.length,
+      goalContributionsReversed: contributions.length
+    };
+  }
+
   async getImportHistory(
     organizationId: string,
     userId?: string,
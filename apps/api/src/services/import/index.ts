@@ -1,3 +1,6 @@
 export * from './csv-parser';
 export * from './excel-parser';
+export * from './pdf-parser';
+export * from './ofx-parser';
+export * from './qif-parser';
 export * from './import.service';
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { ParsedTransaction, ColumnMapping } from './csv-parser';
+
+export interface OfxParseOptions {
+  account?: string; // ACCTID to import when the file holds several statements
+}
+
+export interface OfxAccount {
+  accountId: string;
+  type: string; // CHECKING, SAVINGS, CREDITCARD, ...
+  currency: string | null;
+  ledgerBalance: number | null;
+  transactionCount: number;
+}
+
+// Columns of the rows an OFX file is turned into, these feed the usual column mapping
+export const OFX_COLUMNS = ['Date', 'Description', 'Amount', 'Type', 'FITID', 'Memo', 'CheckNumber', 'Currency', 'Account'];
+
+export const OFX_DEFAULT_MAPPING: ColumnMapping = { date: 'Date', description: 'Description', amount: 'Amount', currency: 'Currency' };
+
+const STATEMENT = /<(STMTRS|CCSTMTRS)>([\s\S]*?)<\/\1>/gi;
+const TRANSACTION = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+
+/**
+ * OFX/QFX parser
+ *
+ * Reads both OFX 1.x SGML, where leaf elements have no closing tags, and
+ * OFX 2.x XML. Only bank and credit card statements are read; FITID is
+ * kept so imports can dedupe on Transaction.externalId.
+ */
+export class OfxParser {
+  async parseFile(
+    fileBuffer: Buffer,
+    columnMapping: ColumnMapping,
+    options: OfxParseOptions = {}
+  ): Promise<ParsedTransaction[]> {
+    // Previews show every statement, imports go into one asset so they need one account
+    if (!options.account && new Set(this.getAccounts(fileBuffer).map(account => account.accountId)).size > 1) {
+      throw new Error('The file holds several accounts, choose one with account');
+    }
+
+    const transactions: ParsedTransaction[] = [];
+
+    for (const row of this.parseRows(fileBuffer, options)) {
+      const amount = parseFloat(row[columnMapping.amount || 'Amount']);
+      if (!row[columnMapping.date] || isNaN(amount)) {
+        continue;
+      }
+
+      transactions.push({
+        date: row[columnMapping.date],
+        description: row[columnMapping.description] || row.Memo || row.Type,
+        amount: Math.abs(amount).toFixed(2),
+        currency: columnMapping.currency ? row[columnMapping.currency] || undefined : undefined,
+        category: columnMapping.category ? row[columnMapping.category] || undefined : undefined,
+        type: amount >= 0 ? 'income' : 'expense',
+        externalId: row.FITID || undefined,
+        originalRow: row
+      });
+    }
+
+    return transactions;
+  }
+
+  async detectColumns(): Promise<string[]> {
+    return [...OFX_COLUMNS];
+  }
+
+  async previewRows(
+    fileBuffer: Buffer,
+    limit: number = 10,
+    options: OfxParseOptions = {}
+  ): Promise<Record<string, any>[]> {
+    return this.parseRows(fileBuffer, options).slice(0, limit);
+  }
+
+  /**
+   * Accounts found in the file, one per statement
+   */
+  getAccounts(fileBuffer: Buffer): OfxAccount[] {
+    return this.statements(this.decode(fileBuffer)).map(statement => ({
+      accountId: statement.accountId,
+      type: statement.accountType,
+      currency: statement.currency,
+      ledgerBalance: statement.ledgerBalance,
+      transactionCount: statement.transactions.length
+    }));
+  }
+
+  private parseRows(fileBuffer: Buffer, options: OfxParseOptions): Record<string, any>[] {
+    const text = this.decode(fileBuffer);
+    if (!/<OFX>/i.test(text)) {
+      throw new Error('Not an OFX file');
+    }
+
+    const rows: Record<string, any>[] = [];
+    for (const statement of this.statements(text)) {
+      if (options.account && statement.accountId !== options.account) {
+        continue;
+      }
+
+      for (const block of statement.transactions) {
+        const payee = this.element(this.aggregate(block, 'PAYEE') || '', 'NAME');
+        const name = this.element(block, 'NAME') || payee;
+        const memo = this.element(block, 'MEMO');
+
+        rows.push({
+          Date: this.parseDate(this.element(block, 'DTPOSTED')),
+          Description: name || memo || '',
+          Amount: this.parseAmount(this.element(block, 'TRNAMT')),
+          Type: this.element(block, 'TRNTYPE') || '',
+          FITID: this.element(block, 'FITID') || '',
+          Memo: memo && memo !== name ? memo : '',
+          CheckNumber: this.element(block, 'CHECKNUM') || '',
+          Currency: this.element(this.aggregate(block, 'CURRENCY') || '', 'CURSYM') || statement.currency || '',
+          Account: statement.accountId
+        });
+      }
+    }
+
+    return rows;
+  }
+
+  private statements(text: string) {
+    return Array.from(text.matchAll(STATEMENT)).map(match => {
+      const body = match[2];
+      const account = this.aggregate(body, 'BANKACCTFROM') || this.aggregate(body, 'CCACCTFROM') || '';
+      const balance = this.element(this.aggregate(body, 'LEDGERBAL') || '', 'BALAMT');
+
+      return {
+        accountId: this.element(account, 'ACCTID') || '',
+        accountType: this.element(account, 'ACCTTYPE') || (match[1].toUpperCase() === 'CCSTMTRS' ? 'CREDITCARD' : 'CHECKING'),
+        currency: this.element(body, 'CURDEF'),
+        ledgerBalance: balance ? parseFloat(this.parseAmount(balance)) : null,
+        transactions: Array.from(body.matchAll(TRANSACTION)).map(trn => trn[1])
+      };
+    });
+  }
+
+  /**
+   * SGML files declare their charset in the header, XML files are UTF-8
+   */
+  private decode(fileBuffer: Buffer): string {
+    const head = fileBuffer.subarray(0, 512).toString('latin1');
+    if (/CHARSET:\s*(1252|ISO-8859-1)/i.test(head) && !/ENCODING:\s*UTF-8/i.test(head)) {
+      return fileBuffer.toString('latin1');
+    }
+    return fileBuffer.toString('utf8');
+  }
+
+  private aggregate(text: string, tag: string): string | null {
+    const match = text.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'));
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Leaf value, ends at the next tag in XML and at the line end in SGML
+   */
+  private element(text: string, tag: string): string | null {
+    const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    if (!match) {
+      return null;
+    }
+
+    const value = match[1]
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, '\'')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .trim();
+
+    return value || null;
+  }
+
+  /**
+   * OFX datetimes are YYYYMMDD[HHMMSS[.XXX]][[+-]H:TZ], only the date is kept
+   */
+  private parseDate(value: string | null): string {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+  }
+
+  private parseAmount(value: string | null): string {
+    if (!value) {
+      return '';
+    }
+
+    // Some banks write a decimal comma
+    const normalized = /,\d{1,2}$/.test(value) ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '');
+    const amount = parseFloat(normalized.replace(/[^\d.+-]/g, ''));
+    return isNaN(amount) ? '' : amount.toFixed(2);
+  }
+}
+
+export const ofxParser = new OfxParser();
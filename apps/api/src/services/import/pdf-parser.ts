@@ -0,0 +1,482 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { parse, isValid, format, addYears, subDays } from 'date-fns';
+import { ParsedTransaction, ColumnMapping } from './csv-parser';
+
+export interface PdfParseOptions {
+  template?: string; // Template id, detected from the statement text when omitted
+}
+
+type ColumnRole = 'debit' | 'credit' | 'amount' | 'balance' | 'ignore';
+
+/**
+ * Layout of one bank's statement table
+ * Amount columns are located from the header line, so templates only
+ * name the labels and let the column positions come from the PDF.
+ */
+interface StatementTemplate {
+  id: string;
+  name: string;
+  detect: RegExp | null; // null for the fallback template
+  header: RegExp;
+  columns: Array<[ColumnRole, RegExp]>; // Matched in order, earlier labels claim their text first
+  date: RegExp; // Anchored at the start of a row
+  dateFormats: string[];
+  openingBalance: RegExp;
+  skip: RegExp;
+}
+
+interface Column {
+  role: ColumnRole;
+  start: number;
+  end: number;
+}
+
+interface AmountToken {
+  value: number;
+  start: number;
+  end: number;
+  signed: boolean; // Carried a minus sign, parentheses or a CR/DR marker
+}
+
+export interface ParsedStatement {
+  template: { id: string; name: string };
+  periodStart: string | null;
+  rows: Record<string, any>[];
+}
+
+// Columns of the rows a statement is turned into, these feed the usual column mapping
+export const PDF_STATEMENT_COLUMNS = ['Date', 'Description', 'Amount', 'Balance'];
+
+export const PDF_DEFAULT_MAPPING: ColumnMapping = { date: 'Date', description: 'Description', amount: 'Amount' };
+
+export const PDF_STATEMENT_TEMPLATES: StatementTemplate[] = [
+  {
+    id: 'commbank',
+    name: 'Commonwealth Bank',
+    detect: /Commonwealth Bank|CommBank|commbank\.com\.au/i,
+    header: /\bDate\b.*\bTransaction\b.*\bBalance\b/i,
+    columns: [['debit', /\bDebit\b/i], ['credit', /\bCredit\b/i], ['balance', /\bBalance\b/i]],
+    date: /^(\d{1,2} [A-Za-z]{3}(?: \d{4})?)(?=\s)/,
+    dateFormats: ['d MMM yyyy', 'd MMM'],
+    openingBalance: /OPENING BALANCE|Balance brought forward/i,
+    skip: /CLOSING BALANCE|Balance carried forward|TOTALS AT END OF|Page \d+ of \d+/i
+  },
+  {
+    id: 'anz',
+    name: 'ANZ',
+    detect: /\bANZ\b|Australia and New Zealand Banking/i,
+    header: /\bDate\b.*\b(Transaction Details|Particulars|Description)\b.*\bBalance\b/i,
+    columns: [['debit', /\bWithdrawals?\b|\bDebits?\b/i], ['credit', /\bDeposits?\b|\bCredits?\b/i], ['balance', /\bBalance\b/i]],
+    date: /^(\d{1,2} [A-Za-z]{3}(?: \d{4})?|\d{2}\/\d{2}\/\d{4})(?=\s)/,
+    dateFormats: ['d MMM yyyy', 'd MMM', 'dd/MM/yyyy'],
+    openingBalance: /OPENING BALANCE|Balance brought forward/i,
+    skip: /CLOSING BALANCE|Balance carried forward|TOTALS AT END OF|Page \d+ of \d+/i
+  },
+  {
+    id: 'khanbank',
+    name: 'Khan Bank',
+    detect: /Хаан банк|Khan Bank|khanbank\.com/i,
+    header: /(Огноо|Date).*(Дебит|Debit)/i,
+    columns: [
+      ['ignore', /Эхний үлдэгдэл|Opening balance/i],
+      ['debit', /Дебит|Debit/i],
+      ['credit', /Кредит|Credit/i],
+      ['balance', /Эцсийн үлдэгдэл|Closing balance|Үлдэгдэл|Balance/i]
+    ],
+    date: /^(\d{4}[./-]\d{2}[./-]\d{2})(?:\s+\d{2}:\d{2}(?::\d{2})?)?(?=\s)/,
+    dateFormats: ['yyyy/MM/dd', 'yyyy.MM.dd', 'yyyy-MM-dd'],
+    openingBalance: /Эхний үлдэгдэл|Opening balance/i,
+    skip: /Эцсийн үлдэгдэл|Closing balance|^\s*(Нийт|Total|Хуудас|Page)(?=[\s:]|$)/i
+  },
+  {
+    id: 'generic',
+    name: 'Generic statement',
+    detect: null,
+    header: /\bDate\b.*\b(Debits?|Withdrawals?|Amount|Money out|Paid out)\b/i,
+    columns: [
+      ['debit', /\bDebits?\b|\bWithdrawals?\b|\bMoney out\b|\bPaid out\b/i],
+      ['credit', /\bCredits?\b|\bDeposits?\b|\bMoney in\b|\bPaid in\b/i],
+      ['amount', /\bAmount\b/i],
+      ['balance', /\bBalance\b/i]
+    ],
+    date: /^(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{4}|\d{1,2} [A-Za-z]{3}(?: \d{4})?)(?=\s)/,
+    dateFormats: ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd.MM.yyyy', 'dd-MM-yyyy', 'd MMM yyyy', 'd MMM'],
+    openingBalance: /Opening balance|Balance brought forward|Previous balance/i,
+    skip: /Closing balance|Balance carried forward|^\s*Totals?(?=[\s:]|$)|Page \d+ of \d+/i
+  }
+];
+
+const AMOUNT_TOKEN = /(?<![\w.,/-])(-?\(?[$₮€£]?\d{1,3}(?:,\d{3})+\.\d{2}\)?|-?\(?[$₮€£]?\d+\.\d{2}\)?)(?: ?(CR|DR|Cr|Dr)\b)?(?![\w.,/])/g;
+const PERIOD_START = /(\d{1,2} [A-Za-z]{3,9} \d{4}|\d{4}[./-]\d{2}[./-]\d{2}|\d{2}\/\d{2}\/\d{4})/;
+const MAX_CONTINUATION_LINES = 2;
+const PDF_TIMEOUT_MS = 30000;
+
+/**
+ * PDF statement parser
+ *
+ * Turns the text layer of a bank statement into rows with the columns in
+ * PDF_STATEMENT_COLUMNS plus a Confidence between 0 and 1. A row loses
+ * confidence when its date is inherited from the row above, when its
+ * amount could not be placed in a header column, or when the running
+ * balance does not reconcile.
+ */
+export class PdfParser {
+  async parseFile(
+    fileBuffer: Buffer,
+    columnMapping: ColumnMapping,
+    options: PdfParseOptions = {}
+  ): Promise<ParsedTransaction[]> {
+    const statement = await this.parseStatement(fileBuffer, options);
+
+    const transactions: ParsedTransaction[] = [];
+    for (const row of statement.rows) {
+      const transaction = this.mapRowToTransaction(row, columnMapping);
+      if (transaction) {
+        transactions.push(transaction);
+      }
+    }
+
+    return transactions;
+  }
+
+  async detectColumns(): Promise<string[]> {
+    return [...PDF_STATEMENT_COLUMNS];
+  }
+
+  async previewRows(
+    fileBuffer: Buffer,
+    limit: number = 10,
+    options: PdfParseOptions = {}
+  ): Promise<Record<string, any>[]> {
+    const statement = await this.parseStatement(fileBuffer, options);
+    return statement.rows.slice(0, limit);
+  }
+
+  async parseStatement(fileBuffer: Buffer, options: PdfParseOptions = {}): Promise<ParsedStatement> {
+    const text = await this.extractText(fileBuffer);
+    if (!text.trim()) {
+      throw new Error('No text found in PDF. Scanned statements are not supported.');
+    }
+
+    return this.parseText(text, options);
+  }
+
+  /**
+   * Parse statement text laid out the way `pdftotext -layout` prints it
+   */
+  parseText(text: string, options: PdfParseOptions = {}): ParsedStatement {
+    const template = this.selectTemplate(text, options.template);
+    const lines = text.split(/\r?\n/);
+
+    const periodMatch = lines.slice(0, 60).join('\n').match(PERIOD_START);
+    const periodStart = periodMatch ? this.parseDate(periodMatch[1], ['d MMM yyyy', 'd MMMM yyyy', ...template.dateFormats], null) : null;
+
+    const rows: Record<string, any>[] = [];
+    let columns: Column[] = [];
+    let lastDate: string | null = null;
+    let balance: number | null = null;
+    let current: Record<string, any> | null = null;
+    let continuation = 0;
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\s+$/, '');
+      if (!line.trim()) {
+        continue;
+      }
+
+      if (template.header.test(line)) {
+        columns = this.locateColumns(line, template);
+        current = null;
+        continue;
+      }
+
+      const indent = line.length - line.trimStart().length;
+      const trimmed = line.trimStart();
+      const dateMatch = trimmed.match(template.date);
+      const tokens = this.findAmounts(line);
+
+      if (template.openingBalance.test(line) || template.skip.test(line)) {
+        if (template.openingBalance.test(line) && tokens.length > 0) {
+          balance = tokens[tokens.length - 1].value;
+        }
+        current = null;
+        continue;
+      }
+
+      if (!dateMatch && tokens.length === 0) {
+        // Wrapped description of the row above
+        if (current && continuation < MAX_CONTINUATION_LINES) {
+          current.Description = `${current.Description} ${trimmed.replace(/\s{2,}/g, ' ')}`.trim();
+          continuation++;
+        }
+        continue;
+      }
+
+      if (tokens.length === 0 || (!dateMatch && !lastDate)) {
+        current = null;
+        continue;
+      }
+
+      let confidence = 1;
+      let date: string | null = null;
+      if (dateMatch) {
+        date = this.parseDate(dateMatch[1], template.dateFormats, periodStart);
+      }
+      if (!date) {
+        // Statements often print the date once per day
+        date = lastDate;
+        confidence -= 0.2;
+      }
+      if (!date) {
+        current = null;
+        continue;
+      }
+
+      // Everything that is not the date or an amount is the description
+      let description = dateMatch ? ' '.repeat(indent + dateMatch[0].length) + line.slice(indent + dateMatch[0].length) : line;
+      for (const token of tokens) {
+        description = description.slice(0, token.start) + ' '.repeat(token.end - token.start) + description.slice(token.end);
+      }
+      description = description.trim().replace(/\s{2,}/g, ' ');
+      if (!description) {
+        confidence -= 0.2;
+      }
+
+      const placed = this.placeAmounts(tokens, columns);
+      confidence -= placed.penalty;
+
+      let amount: number;
+      if (placed.amount === null) {
+        if (placed.balance === null || balance === null) {
+          current = null;
+          continue;
+        }
+        amount = placed.balance - balance;
+      } else if (!placed.signKnown) {
+        if (placed.balance !== null && balance !== null) {
+          // The balance movement tells income from spending
+          amount = placed.balance >= balance ? Math.abs(placed.amount) : -Math.abs(placed.amount);
+        } else {
+          amount = -Math.abs(placed.amount);
+          confidence -= 0.3;
+        }
+      } else {
+        amount = placed.amount;
+      }
+
+      if (placed.balance !== null) {
+        if (balance !== null && Math.abs(balance + amount - placed.balance) > 0.005) {
+          confidence -= 0.3;
+        }
+        balance = placed.balance;
+      } else {
+        confidence -= 0.1;
+        balance = balance !== null ? balance + amount : null;
+      }
+
+      current = {
+        Date: date,
+        Description: description,
+        Amount: amount.toFixed(2),
+        Balance: placed.balance !== null ? placed.balance.toFixed(2) : '',
+        Confidence: Math.max(0, Math.round(confidence * 100) / 100)
+      };
+      rows.push(current);
+      lastDate = date;
+      continuation = 0;
+    }
+
+    return {
+      template: { id: template.id, name: template.name },
+      periodStart,
+      rows
+    };
+  }
+
+  /**
+   * Run `pdftotext -layout` over the file, PDFTOTEXT_PATH overrides the binary
+   */
+  private async extractText(fileBuffer: Buffer): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'statement-'));
+    const file = path.join(dir, 'statement.pdf');
+
+    try {
+      await fs.writeFile(file, fileBuffer);
+
+      return await new Promise<string>((resolve, reject) => {
+        const child = spawn(
+          process.env.PDFTOTEXT_PATH || 'pdftotext',
+          ['-layout', '-enc', 'UTF-8', file, '-'],
+          { timeout: PDF_TIMEOUT_MS }
+        );
+
+        const output: Buffer[] = [];
+        const errors: Buffer[] = [];
+        child.stdout.on('data', chunk => output.push(chunk));
+        child.stderr.on('data', chunk => errors.push(chunk));
+        child.on('error', reject);
+        child.on('close', code => {
+          if (code === 0) {
+            resolve(Buffer.concat(output).toString('utf8'));
+          } else {
+            reject(new Error(`pdftotext exited with ${code}: ${Buffer.concat(errors).toString('utf8').trim()}`));
+          }
+        });
+      });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private selectTemplate(text: string, id?: string): StatementTemplate {
+    if (id) {
+      const template = PDF_STATEMENT_TEMPLATES.find(t => t.id === id);
+      if (!template) {
+        throw new Error(`Unknown statement template: ${id}`);
+      }
+      return template;
+    }
+
+    return PDF_STATEMENT_TEMPLATES.find(t => t.detect && t.detect.test(text))
+      || PDF_STATEMENT_TEMPLATES.find(t => !t.detect)!;
+  }
+
+  private locateColumns(header: string, template: StatementTemplate): Column[] {
+    const columns: Column[] = [];
+
+    for (const [role, label] of template.columns) {
+      const flags = label.flags.includes('g') ? label.flags : label.flags + 'g';
+      for (const match of header.matchAll(new RegExp(label.source, flags))) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        if (!columns.some(column => start < column.end && end > column.start)) {
+          columns.push({ role, start, end });
+          break;
+        }
+      }
+    }
+
+    return columns.sort((a, b) => a.start - b.start);
+  }
+
+  private findAmounts(line: string): AmountToken[] {
+    return Array.from(line.matchAll(AMOUNT_TOKEN)).map(match => {
+      const raw = match[1];
+      const marker = match[2]?.toUpperCase();
+      let value = parseFloat(raw.replace(/[^\d.]/g, ''));
+      const negative = raw.startsWith('-') || raw.includes('(') || marker === 'DR';
+      if (negative) {
+        value = -value;
+      }
+
+      return {
+        value,
+        start: match.index!,
+        end: match.index! + match[0].length,
+        signed: negative || marker === 'CR'
+      };
+    });
+  }
+
+  /**
+   * Assign amounts to the nearest header column
+   * Without a header the last of several amounts is taken as the balance.
+   */
+  private placeAmounts(
+    tokens: AmountToken[],
+    columns: Column[]
+  ): { amount: number | null; signKnown: boolean; balance: number | null; penalty: number } {
+    let debit: number | null = null;
+    let credit: number | null = null;
+    let signed: AmountToken | null = null;
+    let balance: number | null = null;
+    let penalty = 0;
+
+    if (columns.length === 0) {
+      penalty += 0.2;
+      if (tokens.length > 1) {
+        balance = tokens[tokens.length - 1].value;
+      }
+      signed = tokens.length > 1 ? tokens[tokens.length - 2] : tokens[0];
+    } else {
+      for (const token of tokens) {
+        // Numbers are usually right-aligned under their label
+        const column = columns.reduce((best, candidate) =>
+          Math.min(Math.abs(candidate.end - token.end), Math.abs(candidate.start - token.start)) <
+          Math.min(Math.abs(best.end - token.end), Math.abs(best.start - token.start)) ? candidate : best
+        );
+
+        if (column.role === 'debit' && debit === null) {
+          debit = Math.abs(token.value);
+        } else if (column.role === 'credit' && credit === null) {
+          credit = Math.abs(token.value);
+        } else if (column.role === 'amount' && signed === null) {
+          signed = token;
+        } else if (column.role === 'balance' && balance === null) {
+          balance = token.value;
+        } else if (column.role !== 'ignore') {
+          penalty += 0.2;
+        }
+      }
+    }
+
+    if (debit !== null || credit !== null) {
+      if (debit !== null && credit !== null && debit !== 0 && credit !== 0) {
+        penalty += 0.3;
+      }
+      return { amount: (credit || 0) - (debit || 0), signKnown: true, balance, penalty };
+    }
+
+    if (signed) {
+      return { amount: signed.value, signKnown: signed.signed, balance, penalty };
+    }
+
+    // Only a balance was found, the caller takes the movement as the amount
+    return { amount: null, signKnown: true, balance, penalty: penalty + 0.3 };
+  }
+
+  private parseDate(value: string, formats: string[], periodStart: string | null): string | null {
+    const reference = periodStart ? new Date(periodStart) : new Date();
+
+    for (const fmt of formats) {
+      let date = parse(value, fmt, reference);
+      if (!isValid(date)) continue;
+
+      // Statements spanning New Year print "02 Jan" after "30 Dec"
+      if (!fmt.includes('y') && periodStart && date < subDays(reference, 1)) {
+        date = addYears(date, 1);
+      }
+      return format(date, 'yyyy-MM-dd');
+    }
+
+    return null;
+  }
+
+  private mapRowToTransaction(
+    row: Record<string, any>,
+    mapping: ColumnMapping
+  ): ParsedTransaction | null {
+    const date = row[mapping.date];
+    const description = row[mapping.description];
+    const amount = parseFloat(row[mapping.amount || 'Amount']);
+
+    if (!date || !description || isNaN(amount) || amount === 0) {
+      return null;
+    }
+
+    return {
+      date: date.toString(),
+      description: description.toString(),
+      amount: Math.abs(amount).toFixed(2),
+      currency: mapping.currency ? row[mapping.currency] : undefined,
+      category: mapping.category ? row[mapping.category] : undefined,
+      type: amount >= 0 ? 'income' : 'expense',
+      originalRow: row
+    };
+  }
+}
+
+export const pdfParser = new PdfParser();
@@ -0,0 +1,181 @@
+import { ParsedTransaction, ColumnMapping } from './csv-parser';
+
+export interface QifParseOptions {
+  dateOrder?: 'MDY' | 'DMY'; // Detected from the file when omitted, US order otherwise
+}
+
+// Columns of the rows a QIF file is turned into, these feed the usual column mapping
+export const QIF_COLUMNS = ['Date', 'Description', 'Amount', 'Category', 'Memo', 'CheckNumber', 'Cleared', 'Account'];
+
+export const QIF_DEFAULT_MAPPING: ColumnMapping = { date: 'Date', description: 'Description', amount: 'Amount', category: 'Category' };
+
+// Account sections that hold cash transactions, investment and list sections are skipped
+const CASH_SECTIONS = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+/**
+ * QIF parser
+ *
+ * Reads the bank, cash, credit card and other asset or liability sections
+ * of a Quicken Interchange Format file. Split lines are ignored, the
+ * record's total amount is imported.
+ */
+export class QifParser {
+  async parseFile(
+    fileBuffer: Buffer,
+    columnMapping: ColumnMapping,
+    options: QifParseOptions = {}
+  ): Promise<ParsedTransaction[]> {
+    const transactions: ParsedTransaction[] = [];
+
+    for (const row of this.parseRows(fileBuffer, options)) {
+      const amount = parseFloat(row[columnMapping.amount || 'Amount']);
+      if (!row[columnMapping.date] || isNaN(amount)) {
+        continue;
+      }
+
+      transactions.push({
+        date: row[columnMapping.date],
+        description: row[columnMapping.description] || row.Memo || 'QIF transaction',
+        amount: Math.abs(amount).toFixed(2),
+        currency: columnMapping.currency ? row[columnMapping.currency] || undefined : undefined,
+        category: columnMapping.category ? row[columnMapping.category] || undefined : undefined,
+        type: amount >= 0 ? 'income' : 'expense',
+        originalRow: row
+      });
+    }
+
+    return transactions;
+  }
+
+  async detectColumns(): Promise<string[]> {
+    return [...QIF_COLUMNS];
+  }
+
+  async previewRows(
+    fileBuffer: Buffer,
+    limit: number = 10,
+    options: QifParseOptions = {}
+  ): Promise<Record<string, any>[]> {
+    return this.parseRows(fileBuffer, options).slice(0, limit);
+  }
+
+  private parseRows(fileBuffer: Buffer, options: QifParseOptions): Record<string, any>[] {
+    const lines = fileBuffer.toString('utf8').replace(/^\uFEFF/, '').split(/\r?\n/);
+    if (!lines.some(line => /^!Type:/i.test(line.trim()))) {
+      throw new Error('Not a QIF file');
+    }
+
+    const records: Array<Record<string, string>> = [];
+    let section = 'bank';
+    let account = '';
+    let inAccountBlock = false;
+    let record: Record<string, string> = {};
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (line.startsWith('!')) {
+        const header = line.toLowerCase();
+        if (header === '!account') {
+          inAccountBlock = true;
+        } else if (header.startsWith('!type:')) {
+          section = header.slice(6).trim();
+          inAccountBlock = false;
+        }
+        record = {};
+        continue;
+      }
+
+      const code = line.charAt(0);
+      const value = line.slice(1).trim();
+
+      if (code === '^') {
+        if (!inAccountBlock && CASH_SECTIONS.includes(section) && record.D) {
+          records.push({ ...record, account });
+        }
+        // An account block ends with its own caret, its transactions follow a !Type line
+        inAccountBlock = false;
+        record = {};
+        continue;
+      }
+
+      if (inAccountBlock) {
+        if (code === 'N') account = value;
+        continue;
+      }
+
+      // The first occurrence wins so split lines (S, E, $) do not overwrite the record
+      if (['D', 'T', 'U', 'P', 'M', 'L', 'N', 'C'].includes(code) && record[code] === undefined) {
+        record[code] = value;
+      }
+    }
+
+    const dateOrder = options.dateOrder || this.detectDateOrder(records.map(r => r.D));
+
+    return records.map(r => {
+      const category = r.L || '';
+      return {
+        Date: this.parseDate(r.D, dateOrder),
+        Description: r.P || '',
+        Amount: this.parseAmount(r.T ?? r.U),
+        // [Account] marks a transfer to another Quicken account
+        Category: /^\[.*\]$/.test(category) ? 'Transfer' : category.replace(/\/.*$/, ''),
+        Memo: r.M || '',
+        CheckNumber: r.N || '',
+        Cleared: r.C || '',
+        Account: r.account
+      };
+    });
+  }
+
+  /**
+   * Day first when any date has a first part above 12
+   */
+  private detectDateOrder(dates: string[]): 'MDY' | 'DMY' {
+    for (const date of dates) {
+      const parts = this.dateParts(date);
+      if (parts && parts[0] > 12) return 'DMY';
+    }
+    return 'MDY';
+  }
+
+  private dateParts(value: string): [number, number, number] | null {
+    // 1/15/2024, 01/15'24, 1-15-24, 15.01.2024
+    const match = value.replace(/\s/g, '').match(/^(\d{1,2})[/.'-](\d{1,2})[/.'-](\d{2,4})$/);
+    return match ? [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])] : null;
+  }
+
+  private parseDate(value: string, order: 'MDY' | 'DMY'): string {
+    const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (iso) {
+      return value;
+    }
+
+    const parts = this.dateParts(value);
+    if (!parts) {
+      return '';
+    }
+
+    const [first, second, rawYear] = parts;
+    // Quicken writes '24 for 2024 and /99 for 1999
+    const year = rawYear >= 100 ? rawYear : value.includes('\'') || rawYear < 70 ? 2000 + rawYear : 1900 + rawYear;
+    const [month, day] = order === 'MDY' ? [first, second] : [second, first];
+
+    if (month < 1 || month > 12 || day < 1 || day > 31) {
+      return '';
+    }
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private parseAmount(value: string | undefined): string {
+    if (!value) {
+      return '';
+    }
+
+    const amount = parseFloat(value.replace(/,/g, ''));
+    return isNaN(amount) ? '' : amount.toFixed(2);
+  }
+}
+
+export const qifParser = new QifParser();
@@ -0,0 +1,80 @@
+import { Job, JobStatus } from 'bull';
+import { createQueue } from '../../lib/queue';
+import { ImportFileType, FileImportOptions } from '../import/import.service';
+
+export interface ImportJobData {
+  importHistoryId: string;
+  type: ImportFileType;
+  options: FileImportOptions;
+  storage: string; // Document storage holding the uploaded file
+  storageKey: string;
+  userId: string;
+  organizationId: string;
+}
+
+export interface SyncJobData {
+  connectionId: string;
+  userId: string;
+  organizationId: string;
+}
+
+export interface CategorizeJobData {
+  transactionIds?: string[];
+  limit: number;
+  localOnly?: boolean; // The AI quota was used up when the job was queued
+  userId: string;
+  organizationId: string;
+}
+
+// Imports use the ImportHistory id as job id, so the import can be followed by either
+export const importQueue = createQueue<ImportJobData>('import');
+export const syncQueue = createQueue<SyncJobData>('bank-sync');
+export const categorizeQueue = createQueue<CategorizeJobData>('ai-categorize', { attempts: 2 });
+
+export const JOB_QUEUES = {
+  import: importQueue,
+  'bank-sync': syncQueue,
+  'ai-categorize': categorizeQueue
+};
+
+export type JobQueueName = keyof typeof JOB_QUEUES;
+
+export interface JobState {
+  id: string;
+  queue: JobQueueName;
+  state: JobStatus | 'stuck';
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  failedReason?: string;
+  result?: any;
+  createdAt: Date;
+  finishedAt: Date | null;
+}
+
+/**
+ * State of a job, or null when it does not exist or belongs to another organization
+ */
+export async function getJobState(queue: JobQueueName, jobId: string, organizationId: string): Promise<JobState | null> {
+  const job: Job<{ organizationId: string }> | null = await JOB_QUEUES[queue].getJob(jobId);
+  if (!job || job.data.organizationId !== organizationId) {
+    return null;
+  }
+
+  return {
+    id: String(job.id),
+    queue,
+    state: await job.getState(),
+    progress: typeof job.progress() === 'number' ? job.progress() : 0,
+    attempts: job.attemptsMade,
+    maxAttempts: job.opts.attempts || 1,
+    failedReason: job.failedReason,
+    result: job.returnvalue,
+    createdAt: new Date(job.timestamp),
+    finishedAt: job.finishedOn ? new Date(job.finishedOn) : null
+  };
+}
+
+export async function closeJobQueues(): Promise<void> {
+  await Promise.all(Object.values(JOB_QUEUES).map(queue => queue.close()));
+}
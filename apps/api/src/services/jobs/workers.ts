@@ -0,0 +1,102 @@
+import { Job } from 'bull';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { ImportService } from '../import/import.service';
+import { BankingService } from '../banking/banking.service';
+import { CategorizationBatchService } from '../ai/categorization-batch.service';
+import { getDocumentStorage } from '../documents/storage';
+import { importQueue, syncQueue, categorizeQueue, ImportJobData } from './queues';
+
+/**
+ * Process queued imports, bank syncs and AI categorization batches
+ *
+ * Every API instance runs workers unless JOB_WORKERS is "false", so a
+ * dedicated worker process can take them instead. Concurrency per queue is
+ * IMPORT_JOB_CONCURRENCY, SYNC_JOB_CONCURRENCY and CATEGORIZE_JOB_CONCURRENCY
+ * (default 1 each).
+ */
+export function startJobWorkers(): boolean {
+  if (process.env.JOB_WORKERS === 'false') {
+    logger.info('Job workers disabled');
+    return false;
+  }
+
+  const importService = new ImportService(prisma);
+  const bankingService = new BankingService(prisma);
+  const batchService = new CategorizationBatchService(prisma);
+
+  importQueue.process(concurrency('IMPORT_JOB_CONCURRENCY'), async (job: Job<ImportJobData>) => {
+    try {
+      return await importService.runQueuedImport(job.data, async (processed, total) => {
+        await job.progress(total > 0 ? Math.round(processed / total * 100) : 0);
+      });
+    } catch (error) {
+      // A retry wipes and re-inserts the rows, only worth it when the next attempt can pass
+      if (!isTransientError(error)) {
+        await job.discard();
+      }
+      throw error;
+    }
+  });
+
+  syncQueue.process(concurrency('SYNC_JOB_CONCURRENCY'), async (job) => {
+    return bankingService.syncBankTransactions(job.data.connectionId, job.data.userId, job.data.organizationId);
+  });
+
+  categorizeQueue.process(concurrency('CATEGORIZE_JOB_CONCURRENCY'), async (job) => {
+    const categorizations = await batchService.categorize(job.data.userId, job.data.organizationId, {
+      transactionIds: job.data.transactionIds,
+      limit: job.data.limit,
+      localOnly: job.data.localOnly
+    });
+    return { categorizations };
+  });
+
+  // The uploaded file is only needed until the import can no longer be retried
+  importQueue.on('completed', (job: Job<ImportJobData>) => removeUpload(job));
+  importQueue.on('failed', (job: Job<ImportJobData>, error) => {
+    logger.error(`Import job ${job.id} failed (attempt ${job.attemptsMade}):`, error);
+    if (job.attemptsMade >= (job.opts.attempts || 1) || !isTransientError(error)) {
+      removeUpload(job);
+    }
+  });
+  syncQueue.on('failed', (job, error) => logger.error(`Bank sync job ${job.id} failed (attempt ${job.attemptsMade}):`, error));
+  categorizeQueue.on('failed', (job, error) => logger.error(`Categorization job ${job.id} failed (attempt ${job.attemptsMade}):`, error));
+
+  logger.info('Job workers started');
+  return true;
+}
+
+function concurrency(variable: string): number {
+  const value = parseInt(process.env[variable] || '', 10);
+  return isNaN(value) || value < 1 ? 1 : value;
+}
+
+/**
+ * Whether a failure may pass on a later attempt
+ * Lost connections to the database or document storage are retried; bad
+ * files, invalid rows (ImportAbortedError) and missing assets fail the same
+ * way every time.
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof Prisma.PrismaClientInitializationError || error instanceof Prisma.PrismaClientRustPanicError) {
+    return true;
+  }
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    // P1xxx connection errors, P2024 pool timeout, P2034 transaction conflict
+    return error.code.startsWith('P1') || error.code === 'P2024' || error.code === 'P2034';
+  }
+
+  const { code, response } = (error || {}) as { code?: string; response?: { status?: number } };
+  if (response?.status) {
+    return response.status >= 500 || response.status === 429;
+  }
+  return !!code && ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'].includes(code);
+}
+
+function removeUpload(job: Job<ImportJobData>): void {
+  getDocumentStorage(job.data.storage).delete(job.data.storageKey).catch(error => {
+    logger.warn(`Could not remove upload ${job.data.storageKey}:`, error);
+  });
+}
@@ -0,0 +1,272 @@
+import { PrismaClient, Prisma, Asset, TransactionType } from '@prisma/client';
+import { startOfDay, endOfDay, subDays, eachDayOfInterval, format } from 'date-fns';
+
+// Asset types that can derive their balance from the ledger
+export const LEDGER_ASSET_TYPES = ['CASH', 'DEBT'];
+
+// Differences below this are treated as rounding, not a discrepancy
+const RECONCILIATION_TOLERANCE = 0.01;
+
+export interface LedgerEntry {
+  type: TransactionType;
+  amount: Prisma.Decimal;
+  date: Date;
+  transfer: { fromAssetId: string } | null;
+}
+
+interface BalancePoint {
+  date: string;
+  change: number;
+  balance: number;
+}
+
+interface BalanceHistory {
+  assetId: string;
+  currency: string;
+  ledgerMode: boolean;
+  from: Date;
+  to: Date;
+  points: BalancePoint[];
+}
+
+interface ReconciliationResult {
+  assetId: string;
+  name: string;
+  currency: string;
+  computedBalance: number;
+  reportedBalance: number | null;
+  reportedAt: Date | null;
+  difference: number | null;
+  status: 'matched' | 'discrepancy' | 'no_bank_balance';
+}
+
+/**
+ * Ledger Service
+ *
+ * Derives account balances from the transaction ledger. Assets in ledger
+ * mode keep amount equal to openingBalance plus every transaction since
+ * openingBalanceDate; the bank-reported balance from sync is stored
+ * separately so the two can be reconciled.
+ *
+ * DEBT balances are the amount owed, so expenses increase them and income
+ * (repayments) decreases them.
+ */
+export class LedgerService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Switch an asset to ledger mode
+   * Without an explicit opening balance, one is back-calculated from the
+   * current amount so enabling ledger mode does not move the balance.
+   */
+  async enableLedger(
+    asset: Asset,
+    opening?: { balance: number; date: Date }
+  ): Promise<Asset> {
+    if (!LEDGER_ASSET_TYPES.includes(asset.type)) {
+      throw new Error(`Ledger mode is only available for ${LEDGER_ASSET_TYPES.join(' and ')} assets`);
+    }
+
+    let openingBalance: number;
+    let openingBalanceDate: Date;
+
+    if (opening) {
+      openingBalance = opening.balance;
+      openingBalanceDate = startOfDay(opening.date);
+    } else {
+      const entries = await this.getEntries(asset.id);
+      openingBalance = asset.amount.toNumber() - entries.reduce((sum, e) => sum + this.signedAmount(asset, e), 0);
+      openingBalanceDate = entries.length > 0 ? startOfDay(entries[0].date) : startOfDay(new Date());
+    }
+
+    await this.prisma.asset.update({
+      where: { id: asset.id },
+      data: {
+        ledgerMode: true,
+        openingBalance: new Prisma.Decimal(openingBalance.toFixed(2)),
+        openingBalanceDate
+      }
+    });
+
+    return this.recalculateBalance(asset.id);
+  }
+
+  /**
+   * Switch an asset back to a manually maintained amount
+   * The current derived balance is kept as the amount.
+   */
+  async disableLedger(assetId: string): Promise<Asset> {
+    return this.prisma.asset.update({
+      where: { id: assetId },
+      data: { ledgerMode: false, openingBalance: null, openingBalanceDate: null }
+    });
+  }
+
+  /**
+   * Recompute amount from the ledger for an asset in ledger mode
+   * Does nothing for other assets, so callers can use it after any write.
+   */
+  async syncBalance(assetId: string): Promise<void> {
+    const asset = await this.prisma.asset.findUnique({
+      where: { id: assetId },
+      select: { ledgerMode: true }
+    });
+
+    if (asset?.ledgerMode) {
+      await this.recalculateBalance(assetId);
+    }
+  }
+
+  /**
+   * Compute the ledger balance of an asset, optionally as of the end of a day
+   */
+  async computeBalance(asset: Asset, asOf?: Date): Promise<number> {
+    const entries = await this.getEntries(asset.id, asset.openingBalanceDate || undefined, asOf ? endOfDay(asOf) : undefined);
+    const opening = asset.openingBalance ? asset.openingBalance.toNumber() : 0;
+
+    return entries.reduce((sum, e) => sum + this.signedAmount(asset, e), opening);
+  }
+
+  /**
+   * Daily running balances between two days
+   * Ledger assets run forward from the opening balance; other assets run
+   * backwards from their current amount.
+   */
+  async getBalanceHistory(
+    asset: Asset,
+    options: { from?: Date; to?: Date } = {}
+  ): Promise<BalanceHistory> {
+    const to = endOfDay(options.to || new Date());
+    let from = startOfDay(options.from || subDays(to, 90));
+
+    if (asset.ledgerMode && asset.openingBalanceDate && from < asset.openingBalanceDate) {
+      from = startOfDay(asset.openingBalanceDate);
+    }
+
+    const inRange = await this.getEntries(asset.id, from, to);
+
+    let balance: number;
+    if (asset.ledgerMode) {
+      balance = await this.computeBalance(asset, subDays(from, 1));
+    } else {
+      // Undo everything since the start of the range from today's amount
+      const since = await this.getEntries(asset.id, from);
+      balance = since.reduce((sum, e) => sum - this.signedAmount(asset, e), asset.amount.toNumber());
+    }
+
+    const changes = new Map<string, number>();
+    for (const entry of inRange) {
+      const day = format(entry.date, 'yyyy-MM-dd');
+      changes.set(day, (changes.get(day) || 0) + this.signedAmount(asset, entry));
+    }
+
+    const points: BalancePoint[] = [];
+    for (const date of eachDayOfInterval({ start: from, end: to })) {
+      const day = format(date, 'yyyy-MM-dd');
+      const change = changes.get(day) || 0;
+      balance += change;
+      points.push({ date: day, change, balance: Math.round(balance * 100) / 100 });
+    }
+
+    return { assetId: asset.id, currency: asset.currency, ledgerMode: asset.ledgerMode, from, to, points };
+  }
+
+  /**
+   * Compare the ledger balance with the last balance the bank reported
+   */
+  async reconcile(asset: Asset): Promise<ReconciliationResult> {
+    const computedBalance = asset.ledgerMode ? await this.computeBalance(asset) : asset.amount.toNumber();
+    const reportedBalance = asset.reportedBalance ? asset.reportedBalance.toNumber() : null;
+
+    const difference = reportedBalance === null
+      ? null
+      : Math.round((reportedBalance - computedBalance) * 100) / 100;
+
+    return {
+      assetId: asset.id,
+      name: asset.name,
+      currency: asset.currency,
+      computedBalance,
+      reportedBalance,
+      reportedAt: asset.reportedBalanceAt,
+      difference,
+      status: difference === null
+        ? 'no_bank_balance'
+        : Math.abs(difference) < RECONCILIATION_TOLERANCE ? 'matched' : 'discrepancy'
+    };
+  }
+
+  /**
+   * Reconcile every ledger-mode asset a user can see
+   */
+  async reconcileAll(userId: string, organizationId: string): Promise<ReconciliationResult[]> {
+    const assets = await this.prisma.asset.findMany({
+      where: {
+        organizationId,
+        ledgerMode: true,
+        OR: [
+          { userId },
+          { family: { members: { some: { id: userId } } } }
+        ]
+      }
+    });
+
+    const results: ReconciliationResult[] = [];
+    for (const asset of assets) {
+      results.push(await this.reconcile(asset));
+    }
+    return results;
+  }
+
+  private async recalculateBalance(assetId: string): Promise<Asset> {
+    const asset = await this.prisma.asset.findUniqueOrThrow({ where: { id: assetId } });
+    const balance = await this.computeBalance(asset);
+
+    return this.prisma.asset.update({
+      where: { id: assetId },
+      data: { amount: new Prisma.Decimal(balance.toFixed(2)) }
+    });
+  }
+
+  private async getEntries(assetId: string, from?: Date, to?: Date): Promise<LedgerEntry[]> {
+    return this.prisma.transaction.findMany({
+      where: {
+        assetId,
+        ...((from || to) && {
+          date: {
+            ...(from && { gte: from }),
+            ...(to && { lte: to })
+          }
+        })
+      },
+      select: {
+        type: true,
+        amount: true,
+        date: true,
+        transfer: { select: { fromAssetId: true } }
+      },
+      orderBy: { date: 'asc' }
+    });
+  }
+
+  /**
+   * How much a transaction moves the asset's balance
+   * Transfers without a linked pair never moved balances, so they count as zero.
+   */
+  signedAmount(asset: Asset, entry: LedgerEntry): number {
+    const amount = entry.amount.toNumber();
+    let inflow: number;
+
+    if (entry.type === 'INCOME') {
+      inflow = amount;
+    } else if (entry.type === 'EXPENSE') {
+      inflow = -amount;
+    } else if (entry.transfer) {
+      inflow = entry.transfer.fromAssetId === asset.id ? -amount : amount;
+    } else {
+      inflow = 0;
+    }
+
+    return asset.type === 'DEBT' ? -inflow : inflow;
+  }
+}
@@ -0,0 +1,349 @@
+import { PrismaClient, Prisma, Reconciliation, Transaction } from '@prisma/client';
+import { startOfDay, endOfDay } from 'date-fns';
+import { LedgerService } from '../ledger/ledger.service';
+import { ApiError } from '../../middleware/errorHandler';
+
+// Differences below this are treated as rounding
+const BALANCE_TOLERANCE = 0.01;
+
+// Workflow violations surface as 400/409 instead of a server error
+function reconciliationError(message: string, statusCode = 409): ApiError {
+  const error: ApiError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+}
+
+interface StartReconciliationInput {
+  assetId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  closingBalance: number;
+  openingBalance?: number; // Defaults to the previous completed statement's closing balance
+}
+
+interface ReconciliationSummary {
+  reconciliation: Reconciliation;
+  openingBalance: number;
+  closingBalance: number;
+  clearedBalance: number; // Opening balance plus cleared transactions
+  difference: number; // Still unexplained, zero when the statement balances
+  cleared: Transaction[];
+  uncleared: Transaction[]; // Candidates dated up to the period end
+}
+
+/**
+ * Reconciliation Service
+ *
+ * Checks a bank statement period against the ledger. Transactions are
+ * cleared one by one until opening balance plus cleared transactions equals
+ * the statement's closing balance; completing the reconciliation locks
+ * every cleared transaction against edits.
+ */
+export class ReconciliationService {
+  private ledgerService: LedgerService;
+
+  constructor(private prisma: PrismaClient) {
+    this.ledgerService = new LedgerService(prisma);
+  }
+
+  /**
+   * Start reconciling a statement period for an asset
+   * Only one reconciliation per asset can be in progress at a time.
+   *
+   * @returns The reconciliation, or null when the asset is not accessible
+   */
+  async startReconciliation(
+    userId: string,
+    organizationId: string,
+    input: StartReconciliationInput
+  ): Promise<Reconciliation | null> {
+    const asset = await this.prisma.asset.findFirst({
+      where: {
+        id: input.assetId,
+        organizationId,
+        OR: [
+          { userId },
+          { family: { members: { some: { id: userId } } } }
+        ]
+      }
+    });
+
+    if (!asset) {
+      return null;
+    }
+
+    if (input.periodEnd < input.periodStart) {
+      throw reconciliationError('Period end must not be before period start', 400);
+    }
+
+    const inProgress = await this.prisma.reconciliation.findFirst({
+      where: { assetId: asset.id, status: 'IN_PROGRESS' }
+    });
+
+    if (inProgress) {
+      throw reconciliationError('A reconciliation is already in progress for this asset');
+    }
+
+    let openingBalance = input.openingBalance;
+    if (openingBalance === undefined) {
+      const previous = await this.prisma.reconciliation.findFirst({
+        where: { assetId: asset.id, status: 'COMPLETED' },
+        orderBy: { periodEnd: 'desc' }
+      });
+      openingBalance = previous ? previous.closingBalance.toNumber() : 0;
+    }
+
+    return this.prisma.reconciliation.create({
+      data: {
+        assetId: asset.id,
+        periodStart: startOfDay(input.periodStart),
+        periodEnd: endOfDay(input.periodEnd),
+        openingBalance: new Prisma.Decimal(openingBalance),
+        closingBalance: new Prisma.Decimal(input.closingBalance),
+        userId,
+        organizationId
+      }
+    });
+  }
+
+  async getReconciliations(
+    userId: string,
+    organizationId: string,
+    assetId?: string
+  ): Promise<Reconciliation[]> {
+    return this.prisma.reconciliation.findMany({
+      where: {
+        ...this.accessFilter(userId, organizationId),
+        ...(assetId && { assetId })
+      },
+      include: {
+        asset: { select: { id: true, name: true, currency: true } },
+        _count: { select: { transactions: true } }
+      },
+      orderBy: { periodEnd: 'desc' }
+    });
+  }
+
+  /**
+   * Get a reconciliation with its cleared and outstanding transactions
+   * and the difference still to explain
+   */
+  async getSummary(
+    reconciliationId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<ReconciliationSummary | null> {
+    const reconciliation = await this.prisma.reconciliation.findFirst({
+      where: { id: reconciliationId, ...this.accessFilter(userId, organizationId) },
+      include: { asset: true }
+    });
+
+    if (!reconciliation) {
+      return null;
+    }
+
+    const include = { transfer: { select: { fromAssetId: true } } };
+    const [cleared, uncleared] = await Promise.all([
+      this.prisma.transaction.findMany({
+        where: { reconciliationId },
+        include,
+        orderBy: { date: 'asc' }
+      }),
+      // Earlier items that only cleared the bank this period are candidates too
+      this.prisma.transaction.findMany({
+        where: {
+          assetId: reconciliation.assetId,
+          reconciliationId: null,
+          date: { lte: reconciliation.periodEnd }
+        },
+        include,
+        orderBy: { date: 'asc' }
+      })
+    ]);
+
+    const openingBalance = reconciliation.openingBalance.toNumber();
+    const closingBalance = reconciliation.closingBalance.toNumber();
+    const clearedBalance = cleared.reduce(
+      (sum, tx) => sum + this.ledgerService.signedAmount(reconciliation.asset, tx),
+      openingBalance
+    );
+
+    return {
+      reconciliation,
+      openingBalance,
+      closingBalance,
+      clearedBalance: Math.round(clearedBalance * 100) / 100,
+      difference: Math.round((closingBalance - clearedBalance) * 100) / 100,
+      cleared,
+      uncleared
+    };
+  }
+
+  /**
+   * Mark transactions as cleared (or uncleared) against a statement
+   * Transactions must belong to the reconciled asset and be dated up to the
+   * period end; ones locked by another completed reconciliation are refused.
+   */
+  async setCleared(
+    reconciliationId: string,
+    userId: string,
+    organizationId: string,
+    transactionIds: string[],
+    cleared: boolean
+  ): Promise<ReconciliationSummary | null> {
+    const reconciliation = await this.getInProgress(reconciliationId, userId, organizationId);
+    if (!reconciliation) {
+      return null;
+    }
+
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        id: { in: transactionIds },
+        assetId: reconciliation.assetId,
+        date: { lte: reconciliation.periodEnd }
+      },
+      select: { id: true, reconciliationId: true }
+    });
+
+    if (transactions.length !== new Set(transactionIds).size) {
+      throw reconciliationError('Some transactions do not belong to this asset and period', 400);
+    }
+
+    if (transactions.some(tx => tx.reconciliationId && tx.reconciliationId !== reconciliationId)) {
+      throw reconciliationError('Some transactions are already cleared on another statement');
+    }
+
+    await this.prisma.transaction.updateMany({
+      where: { id: { in: transactionIds } },
+      data: { reconciliationId: cleared ? reconciliationId : null }
+    });
+
+    return this.getSummary(reconciliationId, userId, organizationId);
+  }
+
+  /**
+   * Complete a reconciliation once the statement balances, locking its
+   * cleared transactions
+   */
+  async complete(
+    reconciliationId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<ReconciliationSummary | null> {
+    const summary = await this.getSummary(reconciliationId, userId, organizationId);
+    if (!summary) {
+      return null;
+    }
+
+    if (summary.reconciliation.status !== 'IN_PROGRESS') {
+      throw reconciliationError('Reconciliation is already completed');
+    }
+
+    if (Math.abs(summary.difference) >= BALANCE_TOLERANCE) {
+      throw reconciliationError(`Statement does not balance, ${summary.difference} is still unexplained`);
+    }
+
+    await this.prisma.reconciliation.update({
+      where: { id: reconciliationId },
+      data: { status: 'COMPLETED', completedAt: new Date() }
+    });
+
+    return this.getSummary(reconciliationId, userId, organizationId);
+  }
+
+  /**
+   * Reopen a completed reconciliation, unlocking its transactions
+   * Only the latest completed statement of an asset can be reopened so later
+   * statements never rest on an unlocked opening balance.
+   */
+  async reopen(
+    reconciliationId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<Reconciliation | null> {
+    const reconciliation = await this.prisma.reconciliation.findFirst({
+      where: { id: reconciliationId, ...this.accessFilter(userId, organizationId) }
+    });
+
+    if (!reconciliation) {
+      return null;
+    }
+
+    const later = await this.prisma.reconciliation.count({
+      where: {
+        assetId: reconciliation.assetId,
+        id: { not: reconciliation.id },
+        periodEnd: { gt: reconciliation.periodEnd }
+      }
+    });
+
+    if (later > 0) {
+      throw reconciliationError('Only the latest reconciliation of an asset can be reopened');
+    }
+
+    const inProgress = await this.prisma.reconciliation.count({
+      where: { assetId: reconciliation.assetId, status: 'IN_PROGRESS', id: { not: reconciliation.id } }
+    });
+
+    if (inProgress > 0) {
+      throw reconciliationError('A reconciliation is already in progress for this asset');
+    }
+
+    return this.prisma.reconciliation.update({
+      where: { id: reconciliationId },
+      data: { status: 'IN_PROGRESS', completedAt: null }
+    });
+  }
+
+  /**
+   * Discard an in-progress reconciliation, unclearing its transactions
+   */
+  async deleteReconciliation(
+    reconciliationId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<boolean> {
+    const reconciliation = await this.getInProgress(reconciliationId, userId, organizationId);
+    if (!reconciliation) {
+      return false;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.transaction.updateMany({
+        where: { reconciliationId },
+        data: { reconciliationId: null }
+      }),
+      this.prisma.reconciliation.delete({ where: { id: reconciliationId } })
+    ]);
+
+    return true;
+  }
+
+  private async getInProgress(
+    reconciliationId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<Reconciliation | null> {
+    const reconciliation = await this.prisma.reconciliation.findFirst({
+      where: { id: reconciliationId, ...this.accessFilter(userId, organizationId) }
+    });
+
+    if (reconciliation && reconciliation.status !== 'IN_PROGRESS') {
+      throw reconciliationError('Reconciliation is already completed');
+    }
+
+    return reconciliation;
+  }
+
+  private accessFilter(userId: string, organizationId: string): Prisma.ReconciliationWhereInput {
+    return {
+      organizationId,
+      asset: {
+        OR: [
+          { userId },
+          { family: { members: { some: { id: userId } } } }
+        ]
+      }
+    };
+  }
+}
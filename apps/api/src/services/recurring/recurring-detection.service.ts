@@ -0,0 +1,232 @@
+import { PrismaClient, Prisma, DetectedRecurrence, DetectionStatus, RecurrenceFrequency, TransactionType } from '@prisma/client';
+import { subMonths, addDays, differenceInCalendarDays } from 'date-fns';
+
+// Detections below this confidence are not proposed
+const MIN_CONFIDENCE = 0.5;
+const MIN_OCCURRENCES = 3;
+const HISTORY_MONTHS = 12;
+
+// Recognised cadences: typical gap in days and how far a gap may drift
+const CADENCES: Array<{ frequency: RecurrenceFrequency; interval: number; days: number; tolerance: number }> = [
+  { frequency: 'WEEKLY', interval: 1, days: 7, tolerance: 2 },
+  { frequency: 'WEEKLY', interval: 2, days: 14, tolerance: 3 },
+  { frequency: 'MONTHLY', interval: 1, days: 30.44, tolerance: 5 },
+  { frequency: 'MONTHLY', interval: 3, days: 91.31, tolerance: 10 },
+  { frequency: 'YEARLY', interval: 1, days: 365.25, tolerance: 20 }
+];
+
+// Words that vary between statement lines of the same merchant
+const NOISE_WORDS = new Set([
+  'pos', 'eftpos', 'visa', 'debit', 'credit', 'card', 'purchase', 'payment', 'direct', 'dd',
+  'recurring', 'ref', 'reference', 'txn', 'aus', 'au', 'pty', 'ltd', 'inc', 'www', 'com'
+]);
+
+/**
+ * Normalize a transaction description into a merchant key
+ * Drops digits, punctuation and card/payment noise so "NETFLIX.COM 1234 SYDNEY"
+ * and "Netflix.com 9876 Sydney" group together. Letters of any script are
+ * kept, so Mongolian merchants get a key too.
+ */
+export function merchantKey(description: string | null): string {
+  return (description || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.has(word))
+    .slice(0, 3)
+    .join(' ');
+}
+
+/**
+ * Average amount per month of a recurrence
+ */
+export function monthlyEquivalent(amount: number, frequency: RecurrenceFrequency, interval: number): number {
+  switch (frequency) {
+    case 'DAILY':
+      return amount * 30.44 / interval;
+    case 'WEEKLY':
+      return amount * 52 / 12 / interval;
+    case 'MONTHLY':
+      return amount / interval;
+    case 'YEARLY':
+      return amount / 12 / interval;
+  }
+}
+
+interface HistoryTransaction {
+  type: TransactionType;
+  category: string;
+  amount: Prisma.Decimal;
+  currency: string;
+  description: string | null;
+  date: Date;
+  assetId: string;
+}
+
+/**
+ * Recurring Detection Service
+ *
+ * Scans transaction history for payments and income that repeat at a
+ * regular cadence with a stable amount (subscriptions, insurance, salary)
+ * and proposes them with a confidence score. Users accept or dismiss each
+ * proposal; rescanning updates the figures but keeps that decision.
+ */
+export class RecurringDetectionService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Scan the last 12 months of a user's transactions
+   * @returns Pending detections after the scan
+   */
+  async scan(userId: string, organizationId: string): Promise<DetectedRecurrence[]> {
+    const transactions = await this.prisma.transaction.findMany({
+      where: {
+        userId,
+        organizationId,
+        type: { in: ['INCOME', 'EXPENSE'] },
+        transferId: null,
+        recurringTransactionId: null, // Already known from a rule
+        date: { gte: subMonths(new Date(), HISTORY_MONTHS) }
+      },
+      select: {
+        type: true,
+        category: true,
+        amount: true,
+        currency: true,
+        description: true,
+        date: true,
+        assetId: true
+      },
+      orderBy: { date: 'asc' }
+    });
+
+    const groups = new Map<string, HistoryTransaction[]>();
+    for (const tx of transactions) {
+      const key = merchantKey(tx.description);
+      if (!key) continue;
+
+      const groupKey = `${tx.assetId}|${tx.type}|${key}`;
+      const group = groups.get(groupKey) || [];
+      group.push(tx);
+      groups.set(groupKey, group);
+    }
+
+    for (const [groupKey, group] of groups) {
+      const detection = this.analyze(group);
+      if (!detection) continue;
+
+      const [assetId, type, key] = groupKey.split('|');
+      const where = {
+        assetId_type_merchantKey: { assetId, type: type as TransactionType, merchantKey: key }
+      };
+
+      await this.prisma.detectedRecurrence.upsert({
+        where,
+        create: { ...detection, merchantKey: key, assetId, type: type as TransactionType, userId, organizationId },
+        update: detection // Status is left as the user set it
+      });
+    }
+
+    return this.getDetections(userId, organizationId, 'PENDING');
+  }
+
+  async getDetections(
+    userId: string,
+    organizationId: string,
+    status?: DetectionStatus
+  ): Promise<DetectedRecurrence[]> {
+    return this.prisma.detectedRecurrence.findMany({
+      where: {
+        userId,
+        organizationId,
+        ...(status && { status })
+      },
+      include: { asset: { select: { id: true, name: true } } },
+      orderBy: [{ confidence: 'desc' }, { averageAmount: 'desc' }]
+    });
+  }
+
+  /**
+   * Accept or dismiss a detection
+   */
+  async setStatus(
+    detectionId: string,
+    userId: string,
+    organizationId: string,
+    status: DetectionStatus
+  ): Promise<DetectedRecurrence> {
+    const detection = await this.prisma.detectedRecurrence.findFirst({
+      where: { id: detectionId, userId, organizationId }
+    });
+
+    if (!detection) {
+      throw new Error('Detection not found');
+    }
+
+    return this.prisma.detectedRecurrence.update({
+      where: { id: detectionId },
+      data: { status }
+    });
+  }
+
+  /**
+   * Score one merchant's transactions as a recurrence
+   * @returns Detection fields, or null when they do not repeat regularly
+   */
+  private analyze(group: HistoryTransaction[]) {
+    if (group.length < MIN_OCCURRENCES) {
+      return null;
+    }
+
+    const gaps: number[] = [];
+    for (let i = 1; i < group.length; i++) {
+      gaps.push(differenceInCalendarDays(group[i].date, group[i - 1].date));
+    }
+
+    const medianGap = this.median(gaps);
+    const cadence = CADENCES.find(c => Math.abs(medianGap - c.days) <= c.tolerance);
+    if (!cadence) {
+      return null;
+    }
+
+    const amounts = group.map(tx => tx.amount.toNumber());
+    const averageAmount = amounts.reduce((sum, a) => sum + a, 0) / amounts.length;
+    const deviation = Math.sqrt(amounts.reduce((sum, a) => sum + Math.pow(a - averageAmount, 2), 0) / amounts.length);
+
+    // How many gaps land on the cadence, how stable the amount is, and how much history backs it
+    const intervalScore = gaps.filter(gap => Math.abs(gap - cadence.days) <= cadence.tolerance).length / gaps.length;
+    const amountScore = averageAmount > 0 ? Math.max(0, 1 - (deviation / averageAmount) * 2) : 0;
+    const historyScore = Math.min(1, group.length / 6);
+
+    // A recurrence that has missed its last expected dates has probably stopped
+    const last = group[group.length - 1];
+    const nextExpectedDate = addDays(last.date, Math.round(cadence.days));
+    const overdueDays = differenceInCalendarDays(new Date(), nextExpectedDate);
+    const recency = overdueDays > cadence.days / 2 ? 0.5 : 1;
+
+    const confidence = Math.round((0.4 * intervalScore + 0.35 * amountScore + 0.25 * historyScore) * recency * 100) / 100;
+    if (confidence < MIN_CONFIDENCE) {
+      return null;
+    }
+
+    return {
+      name: last.description || last.category,
+      category: last.category,
+      averageAmount: new Prisma.Decimal(averageAmount.toFixed(2)),
+      currency: last.currency,
+      frequency: cadence.frequency,
+      interval: cadence.interval,
+      occurrences: group.length,
+      firstDate: group[0].date,
+      lastDate: last.date,
+      nextExpectedDate,
+      confidence
+    };
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+}
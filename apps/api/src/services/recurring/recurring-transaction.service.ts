@@ -0,0 +1,569 @@
+import {
+  PrismaClient,
+  Prisma,
+  RecurringTransaction,
+  RecurringOccurrence,
+  RecurrenceFrequency,
+  TransactionType
+} from '@prisma/client';
+import { addDays, addWeeks, addMonths, addYears, startOfDay, getDaysInMonth, setDate, format } from 'date-fns';
+import { LedgerService } from '../ledger/ledger.service';
+import { TransferService } from '../transfers/transfer.service';
+import { exchangeRateService } from '../currency/exchange-rate.service';
+import { logger } from '../../utils/logger';
+
+// Safety cap on occurrences generated in one pass
+const MAX_OCCURRENCES = 1000;
+
+interface CreateRecurringInput {
+  name: string;
+  type: TransactionType;
+  category: string;
+  amount: number;
+  description?: string;
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  dayOfMonth?: number;
+  startDate: Date;
+  endDate?: Date | null;
+  assetId: string;
+  toAssetId?: string;
+}
+
+interface OccurrenceOverride {
+  skip?: boolean;
+  amount?: number;
+  category?: string;
+  description?: string;
+}
+
+interface UpcomingOccurrence {
+  recurringTransactionId: string;
+  name: string;
+  date: string;
+  type: TransactionType;
+  category: string;
+  amount: number;
+  currency: string;
+  description: string | null;
+  status: 'SCHEDULED' | 'SKIPPED' | 'POSTED';
+  modified: boolean;
+}
+
+/**
+ * Recurring Transaction Service
+ *
+ * Stores RRULE-like schedules (every N days/weeks/months/years) and posts
+ * their due occurrences as real transactions. Each posted, skipped or
+ * modified occurrence gets a RecurringOccurrence row keyed by rule and
+ * date, so running the scheduler twice never posts the same day twice.
+ */
+export class RecurringTransactionService {
+  private ledgerService: LedgerService;
+  private transferService: TransferService;
+
+  constructor(private prisma: PrismaClient) {
+    this.ledgerService = new LedgerService(prisma);
+    this.transferService = new TransferService(prisma);
+  }
+
+  /**
+   * Create a recurring rule
+   * @returns The rule, or null when an asset is not accessible
+   */
+  async createRecurring(
+    userId: string,
+    organizationId: string,
+    input: CreateRecurringInput
+  ): Promise<RecurringTransaction | null> {
+    const asset = await this.getAccessibleAsset(userId, organizationId, input.assetId);
+    if (!asset) {
+      return null;
+    }
+
+    if (input.type === 'TRANSFER') {
+      if (!input.toAssetId || input.toAssetId === input.assetId) {
+        throw new Error('Recurring transfers need a different destination asset');
+      }
+      if (!await this.getAccessibleAsset(userId, organizationId, input.toAssetId)) {
+        return null;
+      }
+    }
+
+    const startDate = startOfDay(input.startDate);
+    const rule = {
+      ...input,
+      interval: input.interval || 1,
+      dayOfMonth: input.frequency === 'MONTHLY' ? input.dayOfMonth ?? startDate.getDate() : null,
+      startDate,
+      endDate: input.endDate ? startOfDay(input.endDate) : null
+    };
+
+    return this.prisma.recurringTransaction.create({
+      data: {
+        ...rule,
+        toAssetId: input.type === 'TRANSFER' ? input.toAssetId : null,
+        amount: new Prisma.Decimal(input.amount),
+        currency: asset.currency,
+        nextOccurrence: this.occurrencesFrom(rule, startDate, 1)[0] || null,
+        userId,
+        organizationId
+      }
+    });
+  }
+
+  async getRecurring(userId: string, organizationId: string): Promise<RecurringTransaction[]> {
+    return this.prisma.recurringTransaction.findMany({
+      where: this.accessFilter(userId, organizationId),
+      include: { asset: { select: { id: true, name: true, currency: true } } },
+      orderBy: { nextOccurrence: 'asc' }
+    });
+  }
+
+  async getRecurringById(
+    recurringId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<RecurringTransaction | null> {
+    return this.prisma.recurringTransaction.findFirst({
+      where: { id: recurringId, ...this.accessFilter(userId, organizationId) },
+      include: {
+        asset: { select: { id: true, name: true, currency: true } },
+        occurrences: { orderBy: { date: 'desc' }, take: 24 }
+      }
+    });
+  }
+
+  /**
+   * Update a rule. Schedule changes apply from the next unposted occurrence;
+   * posted occurrences are left alone.
+   */
+  async updateRecurring(
+    recurringId: string,
+    userId: string,
+    organizationId: string,
+    input: Partial<CreateRecurringInput> & { isActive?: boolean }
+  ): Promise<RecurringTransaction> {
+    const existing = await this.prisma.recurringTransaction.findFirst({
+      where: { id: recurringId, userId, organizationId }
+    });
+
+    if (!existing) {
+      throw new Error('Recurring transaction not found');
+    }
+
+    const { assetId, toAssetId, amount, ...rest } = input;
+    if (assetId || toAssetId) {
+      throw new Error('Assets of a recurring transaction cannot be changed, create a new one instead');
+    }
+
+    const frequency = input.frequency || existing.frequency;
+    const rule = {
+      frequency,
+      interval: input.interval || existing.interval,
+      dayOfMonth: frequency === 'MONTHLY'
+        ? input.dayOfMonth ?? existing.dayOfMonth ?? existing.startDate.getDate()
+        : null,
+      startDate: input.startDate ? startOfDay(input.startDate) : existing.startDate,
+      endDate: input.endDate === undefined
+        ? existing.endDate
+        : input.endDate ? startOfDay(input.endDate) : null
+    };
+
+    // Resume after the last posted occurrence, never before the start date
+    const lastPosted = await this.prisma.recurringOccurrence.findFirst({
+      where: { recurringTransactionId: recurringId, status: 'POSTED' },
+      orderBy: { date: 'desc' }
+    });
+    const resumeFrom = lastPosted && lastPosted.date >= rule.startDate ? addDays(lastPosted.date, 1) : rule.startDate;
+
+    return this.prisma.recurringTransaction.update({
+      where: { id: recurringId },
+      data: {
+        ...rest,
+        ...rule,
+        ...(amount !== undefined && { amount: new Prisma.Decimal(amount) }),
+        nextOccurrence: this.occurrencesFrom(rule, resumeFrom, 1)[0] || null
+      }
+    });
+  }
+
+  /**
+   * Delete a rule. Transactions it already posted are kept.
+   */
+  async deleteRecurring(recurringId: string, userId: string, organizationId: string): Promise<void> {
+    const existing = await this.prisma.recurringTransaction.findFirst({
+      where: { id: recurringId, userId, organizationId }
+    });
+
+    if (!existing) {
+      throw new Error('Recurring transaction not found');
+    }
+
+    await this.prisma.recurringTransaction.delete({ where: { id: recurringId } });
+  }
+
+  /**
+   * Preview the next occurrences of one rule, with skips and modifications applied
+   */
+  async previewOccurrences(rule: RecurringTransaction, count: number = 12): Promise<UpcomingOccurrence[]> {
+    if (!rule.nextOccurrence) {
+      return [];
+    }
+
+    const dates = this.occurrencesFrom(rule, rule.nextOccurrence, count);
+    const exceptions = await this.getExceptions(rule.id, dates);
+
+    return dates.map(date => this.describeOccurrence(rule, date, exceptions.get(this.dayKey(date))));
+  }
+
+  /**
+   * Upcoming occurrences of every active rule within the next `days` days
+   */
+  async getUpcoming(userId: string, organizationId: string, days: number = 30): Promise<UpcomingOccurrence[]> {
+    const until = addDays(startOfDay(new Date()), days);
+    const rules = await this.prisma.recurringTransaction.findMany({
+      where: {
+        ...this.accessFilter(userId, organizationId),
+        isActive: true,
+        nextOccurrence: { lte: until }
+      }
+    });
+
+    const upcoming: UpcomingOccurrence[] = [];
+    for (const rule of rules) {
+      const dates = this.occurrencesFrom(rule, rule.nextOccurrence!, MAX_OCCURRENCES, until);
+      const exceptions = await this.getExceptions(rule.id, dates);
+      upcoming.push(...dates.map(date => this.describeOccurrence(rule, date, exceptions.get(this.dayKey(date)))));
+    }
+
+    return upcoming.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Skip or modify a single occurrence, identified by its scheduled day
+   * Passing no changes restores the occurrence to the rule's defaults.
+   */
+  async setOccurrence(
+    recurringId: string,
+    userId: string,
+    organizationId: string,
+    day: string,
+    override: OccurrenceOverride
+  ): Promise<UpcomingOccurrence> {
+    const rule = await this.prisma.recurringTransaction.findFirst({
+      where: { id: recurringId, userId, organizationId }
+    });
+
+    if (!rule) {
+      throw new Error('Recurring transaction not found');
+    }
+
+    const date = this.findOccurrenceDate(rule, day);
+    if (!date) {
+      throw new Error(`${day} is not an occurrence of this schedule`);
+    }
+
+    const existing = await this.prisma.recurringOccurrence.findUnique({
+      where: { recurringTransactionId_date: { recurringTransactionId: recurringId, date } }
+    });
+
+    if (existing?.status === 'POSTED') {
+      throw new Error('Occurrence is already posted, edit its transaction instead');
+    }
+
+    const data = {
+      status: override.skip ? 'SKIPPED' as const : 'SCHEDULED' as const,
+      amount: override.amount !== undefined ? new Prisma.Decimal(override.amount) : null,
+      category: override.category ?? null,
+      description: override.description ?? null
+    };
+
+    const occurrence = await this.prisma.recurringOccurrence.upsert({
+      where: { recurringTransactionId_date: { recurringTransactionId: recurringId, date } },
+      create: { ...data, recurringTransactionId: recurringId, date },
+      update: data
+    });
+
+    return this.describeOccurrence(rule, date, occurrence);
+  }
+
+  /**
+   * Post every occurrence that is due, for all rules
+   * Safe to run repeatedly; this is what the scheduler calls.
+   */
+  async postDueOccurrences(asOf: Date = new Date()): Promise<{ posted: number; skipped: number; failed: number }> {
+    const result = { posted: 0, skipped: 0, failed: 0 };
+
+    const rules = await this.prisma.recurringTransaction.findMany({
+      where: { isActive: true, nextOccurrence: { lte: asOf } }
+    });
+
+    for (const rule of rules) {
+      const dates = this.occurrencesFrom(rule, rule.nextOccurrence!, MAX_OCCURRENCES, asOf);
+      let next: Date | null = rule.nextOccurrence;
+
+      for (const date of dates) {
+        try {
+          const outcome = await this.postOccurrence(rule, date);
+          result[outcome]++;
+          next = this.occurrencesFrom(rule, addDays(date, 1), 1)[0] || null;
+        } catch (error) {
+          // Leave nextOccurrence here so the next run retries this date
+          result.failed++;
+          logger.error(`Posting recurring transaction ${rule.id} for ${this.dayKey(date)} failed:`, error);
+          break;
+        }
+      }
+
+      await this.prisma.recurringTransaction.update({
+        where: { id: rule.id },
+        data: { nextOccurrence: next }
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Post one occurrence unless it was skipped or already posted
+   * The occurrence row is claimed before posting so concurrent runs cannot
+   * both post it, and released again if posting fails.
+   */
+  private async postOccurrence(rule: RecurringTransaction, date: Date): Promise<'posted' | 'skipped'> {
+    const key = { recurringTransactionId_date: { recurringTransactionId: rule.id, date } };
+    let occurrence = await this.prisma.recurringOccurrence.findUnique({ where: key });
+
+    if (occurrence && occurrence.status !== 'SCHEDULED') {
+      return 'skipped';
+    }
+
+    let claimedNew = false;
+    if (occurrence) {
+      const claimed = await this.prisma.recurringOccurrence.updateMany({
+        where: { id: occurrence.id, status: 'SCHEDULED' },
+        data: { status: 'POSTED' }
+      });
+      if (claimed.count === 0) {
+        return 'skipped';
+      }
+    } else {
+      try {
+        occurrence = await this.prisma.recurringOccurrence.create({
+          data: { recurringTransactionId: rule.id, date, status: 'POSTED' }
+        });
+        claimedNew = true;
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return 'skipped'; // Another run claimed it first
+        }
+        throw error;
+      }
+    }
+
+    try {
+      const transactionId = await this.createTransaction(rule, date, occurrence);
+      await this.prisma.recurringOccurrence.update({
+        where: { id: occurrence.id },
+        data: { transactionId }
+      });
+      return 'posted';
+    } catch (error) {
+      if (claimedNew) {
+        await this.prisma.recurringOccurrence.delete({ where: { id: occurrence.id } });
+      } else {
+        await this.prisma.recurringOccurrence.update({ where: { id: occurrence.id }, data: { status: 'SCHEDULED' } });
+      }
+      throw error;
+    }
+  }
+
+  private async createTransaction(
+    rule: RecurringTransaction,
+    date: Date,
+    occurrence: RecurringOccurrence
+  ): Promise<string> {
+    const amount = occurrence.amount ? occurrence.amount.toNumber() : rule.amount.toNumber();
+    const category = occurrence.category || rule.category;
+    const description = occurrence.description || rule.description || rule.name;
+
+    if (rule.type === 'TRANSFER') {
+      const toAsset = await this.prisma.asset.findUniqueOrThrow({ where: { id: rule.toAssetId! } });
+      const receivedAmount = await exchangeRateService.convert(amount, rule.currency, toAsset.currency, {
+        date,
+        organizationId: rule.organizationId
+      });
+
+      const transfer = await this.transferService.createTransfer(rule.userId, rule.organizationId, {
+        fromAssetId: rule.assetId,
+        toAssetId: toAsset.id,
+        sentAmount: amount,
+        receivedAmount: Math.round(receivedAmount * 100) / 100,
+        date,
+        description
+      });
+
+      if (!transfer) {
+        throw new Error('Recurring transfer assets are no longer accessible');
+      }
+
+      await this.prisma.transaction.updateMany({
+        where: { transferId: transfer.id },
+        data: { recurringTransactionId: rule.id }
+      });
+
+      const outgoing = await this.prisma.transaction.findFirstOrThrow({
+        where: { transferId: transfer.id, assetId: rule.assetId }
+      });
+      return outgoing.id;
+    }
+
+    const asset = await this.prisma.asset.findUniqueOrThrow({ where: { id: rule.assetId } });
+
+    // Same balance handling as POST /api/transactions
+    const delta = rule.type === 'INCOME' ? amount : -amount;
+
+    const [transaction] = await this.prisma.$transaction([
+      this.prisma.transaction.create({
+        data: {
+          type: rule.type,
+          category,
+          amount: new Prisma.Decimal(amount),
+          currency: rule.currency,
+          description,
+          date,
+          assetId: asset.id,
+          userId: rule.userId,
+          organizationId: rule.organizationId,
+          recurringTransactionId: rule.id
+        }
+      }),
+      this.prisma.asset.update({
+        where: { id: asset.id },
+        data: { amount: { increment: new Prisma.Decimal(delta) } }
+      })
+    ]);
+
+    await this.ledgerService.syncBalance(asset.id);
+
+    return transaction.id;
+  }
+
+  /**
+   * Generate occurrence dates on or after `from`
+   * @param limit - Maximum number of dates
+   * @param until - Stop after this date
+   */
+  private occurrencesFrom(
+    rule: Pick<RecurringTransaction, 'frequency' | 'interval' | 'dayOfMonth' | 'startDate' | 'endDate'>,
+    from: Date,
+    limit: number,
+    until?: Date
+  ): Date[] {
+    const dates: Date[] = [];
+    const start = startOfDay(from);
+
+    for (let i = 0; dates.length < limit && i < MAX_OCCURRENCES * 10; i++) {
+      const date = this.nthOccurrence(rule, i);
+
+      if (rule.endDate && date > rule.endDate) break;
+      if (until && date > until) break;
+      if (date >= start) dates.push(date);
+    }
+
+    return dates;
+  }
+
+  private nthOccurrence(
+    rule: Pick<RecurringTransaction, 'frequency' | 'interval' | 'dayOfMonth' | 'startDate'>,
+    n: number
+  ): Date {
+    const steps = n * rule.interval;
+
+    switch (rule.frequency) {
+      case 'DAILY':
+        return addDays(rule.startDate, steps);
+      case 'WEEKLY':
+        return addWeeks(rule.startDate, steps);
+      case 'YEARLY':
+        return addYears(rule.startDate, steps);
+      case 'MONTHLY': {
+        const month = addMonths(setDate(rule.startDate, 1), steps);
+        const day = Math.min(rule.dayOfMonth || rule.startDate.getDate(), getDaysInMonth(month));
+        return setDate(month, day);
+      }
+    }
+  }
+
+  private findOccurrenceDate(rule: RecurringTransaction, day: string): Date | null {
+    for (let i = 0; i < MAX_OCCURRENCES * 10; i++) {
+      const date = this.nthOccurrence(rule, i);
+      const key = this.dayKey(date);
+
+      if (key === day) return date;
+      if (key > day || (rule.endDate && date > rule.endDate)) return null;
+    }
+    return null;
+  }
+
+  private async getExceptions(recurringId: string, dates: Date[]): Promise<Map<string, RecurringOccurrence>> {
+    if (dates.length === 0) {
+      return new Map();
+    }
+
+    const occurrences = await this.prisma.recurringOccurrence.findMany({
+      where: {
+        recurringTransactionId: recurringId,
+        date: { gte: dates[0], lte: dates[dates.length - 1] }
+      }
+    });
+
+    return new Map(occurrences.map(o => [this.dayKey(o.date), o]));
+  }
+
+  private describeOccurrence(
+    rule: RecurringTransaction,
+    date: Date,
+    occurrence?: RecurringOccurrence
+  ): UpcomingOccurrence {
+    return {
+      recurringTransactionId: rule.id,
+      name: rule.name,
+      date: this.dayKey(date),
+      type: rule.type,
+      category: occurrence?.category || rule.category,
+      amount: occurrence?.amount ? occurrence.amount.toNumber() : rule.amount.toNumber(),
+      currency: rule.currency,
+      description: occurrence?.description || rule.description,
+      status: occurrence?.status || 'SCHEDULED',
+      modified: !!(occurrence?.amount || occurrence?.category || occurrence?.description)
+    };
+  }
+
+  private dayKey(date: Date): string {
+    return format(date, 'yyyy-MM-dd');
+  }
+
+  private async getAccessibleAsset(userId: string, organizationId: string, assetId: string) {
+    return this.prisma.asset.findFirst({
+      where: {
+        id: assetId,
+        organizationId,
+        OR: [
+          { userId },
+          { family: { members: { some: { id: userId } } } }
+        ]
+      }
+    });
+  }
+
+  private accessFilter(userId: string, organizationId: string): Prisma.RecurringTransactionWhereInput {
+    return {
+      organizationId,
+      OR: [
+        { userId },
+        { asset: { family: { members: { some: { id: userId } } } } }
+      ]
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { RecurringTransactionService } from './recurring-transaction.service';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/**
+ * Post due recurring transactions on a timer
+ *
+ * Posting is idempotent, so running several API instances only costs
+ * duplicate work, never duplicate transactions.
+ * Interval is RECURRING_SCHEDULER_INTERVAL_MINUTES (default 60), 0 disables it.
+ */
+export function startRecurringScheduler(): NodeJS.Timeout | null {
+  const minutes = parseInt(process.env.RECURRING_SCHEDULER_INTERVAL_MINUTES || '', 10);
+  const interval = isNaN(minutes) ? DEFAULT_INTERVAL_MINUTES : minutes;
+
+  if (interval <= 0) {
+    logger.info('Recurring transaction scheduler disabled');
+    return null;
+  }
+
+  const service = new RecurringTransactionService(prisma);
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await service.postDueOccurrences();
+      if (result.posted || result.failed) {
+        logger.info(`Recurring transactions: ${result.posted} posted, ${result.skipped} skipped, ${result.failed} failed`);
+      }
+    } catch (error) {
+      logger.error('Recurring transaction scheduler failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  return setInterval(run, interval * 60 * 1000);
+}
@@ -0,0 +1,405 @@
+import { PrismaClient, Prisma, CategorizationRule, Transaction, TransactionType } from '@prisma/client';
+
+// Transactions loaded per batch when re-applying rules
+const BATCH_SIZE = 500;
+// Dry runs list at most this many changes, the total is still counted
+const MAX_PREVIEW_CHANGES = 200;
+
+export interface RuleInput {
+  name: string;
+  priority?: number;
+  isActive?: boolean;
+  descriptionContains?: string | null;
+  descriptionRegex?: string | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  transactionType?: TransactionType | null;
+  assetId?: string | null;
+  category?: string | null;
+  tags?: string[];
+  counterparty?: string | null;
+}
+
+// What a rule is matched against, before or after the transaction is stored
+export interface RuleCandidate {
+  type: TransactionType;
+  amount: number;
+  description: string | null;
+  assetId: string;
+}
+
+export interface RuleOutcome {
+  ruleId: string;
+  category?: string;
+  tags: string[];
+  counterparty?: string;
+}
+
+type RuleDefinition = Pick<
+  CategorizationRule,
+  | 'id'
+  | 'descriptionContains'
+  | 'descriptionRegex'
+  | 'minAmount'
+  | 'maxAmount'
+  | 'transactionType'
+  | 'assetId'
+  | 'category'
+  | 'tags'
+  | 'counterparty'
+>;
+
+interface RuleChange {
+  transactionId: string;
+  date: Date;
+  description: string | null;
+  amount: number;
+  before: { category: string; tags: string[]; counterparty: string | null };
+  after: { category: string; tags: string[]; counterparty: string | null };
+  ruleId: string;
+}
+
+/**
+ * Categorization Rule Service
+ *
+ * User-defined rules that set category, tags and counterparty from a
+ * transaction's description, amount, asset and type. Rules run in priority
+ * order and the first match wins, so results never depend on an AI
+ * provider or network access.
+ */
+export class CategorizationRuleService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create a rule
+   * @returns The rule, or null when its asset is not accessible
+   */
+  async createRule(
+    userId: string,
+    organizationId: string,
+    input: RuleInput
+  ): Promise<CategorizationRule | null> {
+    if (input.assetId && !(await this.isAssetAccessible(userId, organizationId, input.assetId))) {
+      return null;
+    }
+
+    return this.prisma.categorizationRule.create({
+      data: {
+        ...this.ruleData(input),
+        name: input.name,
+        userId,
+        organizationId
+      }
+    });
+  }
+
+  async getRules(userId: string, organizationId: string): Promise<CategorizationRule[]> {
+    return this.prisma.categorizationRule.findMany({
+      where: { userId, organizationId },
+      include: { asset: { select: { id: true, name: true } } },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  async getRuleById(
+    ruleId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<CategorizationRule | null> {
+    return this.prisma.categorizationRule.findFirst({
+      where: { id: ruleId, userId, organizationId }
+    });
+  }
+
+  /**
+   * Active rules of a user in the order they are applied
+   */
+  async getActiveRules(userId: string, organizationId: string): Promise<CategorizationRule[]> {
+    return this.prisma.categorizationRule.findMany({
+      where: { userId, organizationId, isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  async updateRule(
+    ruleId: string,
+    userId: string,
+    organizationId: string,
+    input: Partial<RuleInput>
+  ): Promise<CategorizationRule> {
+    const existing = await this.getRuleById(ruleId, userId, organizationId);
+    if (!existing) {
+      throw new Error('Rule not found');
+    }
+
+    if (input.assetId && !(await this.isAssetAccessible(userId, organizationId, input.assetId))) {
+      throw new Error('Asset not found');
+    }
+
+    return this.prisma.categorizationRule.update({
+      where: { id: ruleId },
+      data: {
+        ...this.ruleData(input),
+        ...(input.name !== undefined && { name: input.name })
+      }
+    });
+  }
+
+  async deleteRule(ruleId: string, userId: string, organizationId: string): Promise<void> {
+    const existing = await this.getRuleById(ruleId, userId, organizationId);
+    if (!existing) {
+      throw new Error('Rule not found');
+    }
+
+    await this.prisma.categorizationRule.delete({ where: { id: ruleId } });
+  }
+
+  /**
+   * Apply rules to a transaction
+   * @param rules - Rules in priority order, as returned by getActiveRules
+   * @returns The first matching rule's actions, or null when none matches
+   */
+  apply(rules: RuleDefinition[], candidate: RuleCandidate): RuleOutcome | null {
+    const rule = rules.find(r => this.matches(r, candidate));
+    if (!rule) {
+      return null;
+    }
+
+    return {
+      ruleId: rule.id,
+      category: rule.category || undefined,
+      tags: rule.tags,
+      counterparty: rule.counterparty || undefined
+    };
+  }
+
+  /**
+   * Show which existing transactions a rule would change, without saving anything
+   * Works for saved rules and for drafts that have not been created yet.
+   */
+  async dryRun(
+    userId: string,
+    organizationId: string,
+    rule: RuleInput | CategorizationRule
+  ): Promise<{ matched: number; changed: number; changes: RuleChange[] }> {
+    const definition = 'id' in rule ? rule : this.draftDefinition(rule);
+    const changes: RuleChange[] = [];
+    let matched = 0;
+    let changed = 0;
+
+    await this.forEachBatch(userId, organizationId, this.candidateFilter(definition), async batch => {
+      for (const tx of batch) {
+        const outcome = this.apply([definition], this.toCandidate(tx));
+        if (!outcome) continue;
+
+        matched++;
+        const change = this.diff(tx, outcome);
+        if (!change) continue;
+
+        changed++;
+        if (changes.length < MAX_PREVIEW_CHANGES) {
+          changes.push(change);
+        }
+      }
+    });
+
+    return { matched, changed, changes };
+  }
+
+  /**
+   * Re-apply active rules to existing transactions
+   * Transfer legs and transactions locked by a completed reconciliation are
+   * left alone.
+   *
+   * @param options.ruleIds - Only apply these rules, still in priority order
+   * @param options.assetId - Only re-apply to this asset's transactions
+   */
+  async reapply(
+    userId: string,
+    organizationId: string,
+    options: { ruleIds?: string[]; assetId?: string } = {}
+  ): Promise<{ matched: number; updated: number }> {
+    let rules = await this.getActiveRules(userId, organizationId);
+    if (options.ruleIds) {
+      rules = rules.filter(rule => options.ruleIds!.includes(rule.id));
+    }
+
+    let matched = 0;
+    let updated = 0;
+    if (rules.length === 0) {
+      return { matched, updated };
+    }
+
+    const where: Prisma.TransactionWhereInput = {
+      ...(options.assetId && { assetId: options.assetId }),
+      OR: [
+        { reconciliationId: null },
+        { reconciliation: { status: 'IN_PROGRESS' } }
+      ]
+    };
+
+    await this.forEachBatch(userId, organizationId, where, async batch => {
+      for (const tx of batch) {
+        const outcome = this.apply(rules, this.toCandidate(tx));
+        if (!outcome) continue;
+
+        matched++;
+        const change = this.diff(tx, outcome);
+        if (!change) continue;
+
+        await this.prisma.transaction.update({
+          where: { id: tx.id },
+          data: change.after
+        });
+        updated++;
+      }
+    });
+
+    return { matched, updated };
+  }
+
+  private matches(rule: RuleDefinition, candidate: RuleCandidate): boolean {
+    if (!rule.descriptionContains && !rule.descriptionRegex && rule.minAmount === null &&
+        rule.maxAmount === null && !rule.transactionType && !rule.assetId) {
+      return false; // A rule without conditions would match everything
+    }
+
+    if (rule.transactionType && rule.transactionType !== candidate.type) return false;
+    if (rule.assetId && rule.assetId !== candidate.assetId) return false;
+    if (rule.minAmount !== null && candidate.amount < rule.minAmount.toNumber()) return false;
+    if (rule.maxAmount !== null && candidate.amount > rule.maxAmount.toNumber()) return false;
+
+    const description = candidate.description || '';
+    if (rule.descriptionContains &&
+        !description.toLowerCase().includes(rule.descriptionContains.toLowerCase())) {
+      return false;
+    }
+
+    if (rule.descriptionRegex) {
+      try {
+        if (!new RegExp(rule.descriptionRegex, 'i').test(description)) return false;
+      } catch {
+        return false; // Stored patterns are validated on save, never match a broken one
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Narrow the transactions a single rule can match in the database,
+   * the regex is checked in memory
+   */
+  private candidateFilter(rule: RuleDefinition): Prisma.TransactionWhereInput {
+    return {
+      ...(rule.transactionType && { type: rule.transactionType }),
+      ...(rule.assetId && { assetId: rule.assetId }),
+      ...(rule.descriptionContains && {
+        description: { contains: rule.descriptionContains, mode: 'insensitive' as const }
+      }),
+      ...((rule.minAmount !== null || rule.maxAmount !== null) && {
+        amount: {
+          ...(rule.minAmount !== null && { gte: rule.minAmount }),
+          ...(rule.maxAmount !== null && { lte: rule.maxAmount })
+        }
+      })
+    };
+  }
+
+  private async forEachBatch(
+    userId: string,
+    organizationId: string,
+    where: Prisma.TransactionWhereInput,
+    handle: (batch: Array<Transaction>) => Promise<void>
+  ): Promise<void> {
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await this.prisma.transaction.findMany({
+        where: { ...where, userId, organizationId, transferId: null },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } })
+      });
+
+      if (batch.length === 0) break;
+      await handle(batch);
+
+      if (batch.length < BATCH_SIZE) break;
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  private diff(tx: Transaction, outcome: RuleOutcome): RuleChange | null {
+    const before = { category: tx.category, tags: tx.tags, counterparty: tx.counterparty };
+    const after = {
+      category: outcome.category || tx.category,
+      tags: Array.from(new Set([...tx.tags, ...outcome.tags])),
+      counterparty: outcome.counterparty || tx.counterparty
+    };
+
+    if (before.category === after.category && before.counterparty === after.counterparty &&
+        before.tags.length === after.tags.length) {
+      return null;
+    }
+
+    return {
+      transactionId: tx.id,
+      date: tx.date,
+      description: tx.description,
+      amount: tx.amount.toNumber(),
+      before,
+      after,
+      ruleId: outcome.ruleId
+    };
+  }
+
+  private toCandidate(tx: Transaction): RuleCandidate {
+    return {
+      type: tx.type,
+      amount: tx.amount.toNumber(),
+      description: tx.description,
+      assetId: tx.assetId
+    };
+  }
+
+  private draftDefinition(input: RuleInput): RuleDefinition {
+    return {
+      id: 'draft',
+      descriptionContains: input.descriptionContains || null,
+      descriptionRegex: input.descriptionRegex || null,
+      minAmount: input.minAmount != null ? new Prisma.Decimal(input.minAmount) : null,
+      maxAmount: input.maxAmount != null ? new Prisma.Decimal(input.maxAmount) : null,
+      transactionType: input.transactionType || null,
+      assetId: input.assetId || null,
+      category: input.category || null,
+      tags: input.tags || [],
+      counterparty: input.counterparty || null
+    };
+  }
+
+  private ruleData(input: Partial<RuleInput>) {
+    const { name, minAmount, maxAmount, ...rest } = input;
+    return {
+      ...rest,
+      ...(minAmount !== undefined && { minAmount: minAmount === null ? null : new Prisma.Decimal(minAmount) }),
+      ...(maxAmount !== undefined && { maxAmount: maxAmount === null ? null : new Prisma.Decimal(maxAmount) })
+    };
+  }
+
+  private async isAssetAccessible(userId: string, organizationId: string, assetId: string): Promise<boolean> {
+    const asset = await this.prisma.asset.findFirst({
+      where: {
+        id: assetId,
+        organizationId,
+        OR: [
+          { userId },
+          { family: { members: { some: { id: userId } } } }
+        ]
+      },
+      select: { id: true }
+    });
+
+    return !!asset;
+  }
+}
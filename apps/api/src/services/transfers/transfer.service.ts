@@ -0,0 +1,474 @@
+import { PrismaClient, Prisma, Transfer, Asset } from '@prisma/client';
+import { startOfDay, endOfDay, subMonths, format } from 'date-fns';
+import { exchangeRateService } from '../currency/exchange-rate.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+interface CreateTransferInput {
+  fromAssetId: string;
+  toAssetId: string;
+  sentAmount: number;
+  receivedAmount: number;
+  fee?: number;
+  date: Date;
+  description?: string;
+}
+
+interface TransferCost {
+  transferId: string;
+  date: string;
+  fromAssetId: string;
+  toAssetId: string;
+  sent: number;
+  sentCurrency: string;
+  received: number;
+  receivedCurrency: string;
+  fee: number;
+  effectiveRate: number; // receivedCurrency per unit of sentCurrency, fee included
+  marketRate: number;
+  rateProvider: string;
+  spreadPercent: number; // How far below market the effective rate was
+  cost: number; // Fee plus spread, in sentCurrency
+  sentInReportingCurrency: number; // Amounts below are converted at the transfer date
+  feeInReportingCurrency: number;
+  costInReportingCurrency: number;
+}
+
+interface FxReport {
+  currency: string;
+  from: Date;
+  to: Date;
+  transfers: TransferCost[];
+  totals: {
+    count: number;
+    sentInReportingCurrency: number;
+    feesInReportingCurrency: number;
+    costInReportingCurrency: number;
+    averageSpreadPercent: number;
+  };
+}
+
+/**
+ * Transfer Service
+ *
+ * Records money moved between two assets as a linked pair of TRANSFER
+ * transactions, keeping what was sent and what arrived so cross-currency
+ * remittances can be compared against the market rate of the day.
+ * Both legs and both asset balances are always changed together, and the
+ * legs stay out of income/expense analytics.
+ */
+export class TransferService {
+  private ledgerService: LedgerService;
+
+  constructor(private prisma: PrismaClient) {
+    this.ledgerService = new LedgerService(prisma);
+  }
+
+  /**
+   * Record a transfer, create its outgoing and incoming legs and move the
+   * money between both asset balances in one database transaction.
+   * Currencies are taken from the assets.
+   *
+   * @returns The transfer, or null when either asset is not accessible
+   */
+  async createTransfer(
+    userId: string,
+    organizationId: string,
+    input: CreateTransferInput
+  ): Promise<Transfer | null> {
+    if (input.fromAssetId === input.toAssetId) {
+      throw new Error('Cannot transfer to the same asset');
+    }
+
+    const assets = await this.getAccessibleAssets(userId, organizationId, [input.fromAssetId, input.toAssetId]);
+    const fromAsset = assets.find(a => a.id === input.fromAssetId);
+    const toAsset = assets.find(a => a.id === input.toAssetId);
+    if (!fromAsset || !toAsset) {
+      return null;
+    }
+
+    const fee = input.fee || 0;
+    const description = input.description || `Transfer from ${fromAsset.name} to ${toAsset.name}`;
+
+    const transfer = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.transfer.create({
+        data: {
+          fromAssetId: fromAsset.id,
+          toAssetId: toAsset.id,
+          sentAmount: new Prisma.Decimal(input.sentAmount),
+          sentCurrency: fromAsset.currency,
+          receivedAmount: new Prisma.Decimal(input.receivedAmount),
+          receivedCurrency: toAsset.currency,
+          fee: input.fee ? new Prisma.Decimal(input.fee) : undefined,
+          date: input.date,
+          description: input.description,
+          userId,
+          organizationId,
+          transactions: {
+            create: [
+              this.legData(fromAsset, input.sentAmount + fee, input.date, description, userId, organizationId),
+              this.legData(toAsset, input.receivedAmount, input.date, description, userId, organizationId)
+            ]
+          }
+        },
+        include: { transactions: true }
+      });
+
+      await this.adjustBalance(tx, fromAsset, -(input.sentAmount + fee));
+      await this.adjustBalance(tx, toAsset, input.receivedAmount);
+
+      return created;
+    });
+
+    await this.syncLedgers([fromAsset.id, toAsset.id]);
+    return transfer;
+  }
+
+  /**
+   * Get a single transfer with both legs
+   */
+  async getTransferById(
+    transferId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<Transfer | null> {
+    return this.prisma.transfer.findFirst({
+      where: { id: transferId, ...this.accessFilter(userId, organizationId) },
+      include: {
+        transactions: true,
+        fromAsset: { select: { id: true, name: true, country: true } },
+        toAsset: { select: { id: true, name: true, country: true } }
+      }
+    });
+  }
+
+  /**
+   * Update a transfer and both legs as a unit
+   * The old amounts are taken back out of the asset balances before the new
+   * ones are applied, so assets and amounts can both change.
+   *
+   * @returns The updated transfer, or null when either asset is not accessible
+   */
+  async updateTransfer(
+    transferId: string,
+    userId: string,
+    organizationId: string,
+    input: Partial<CreateTransferInput>
+  ): Promise<Transfer | null> {
+    const existing = await this.prisma.transfer.findFirst({
+      where: { id: transferId, userId, organizationId },
+      include: { transactions: true }
+    });
+
+    if (!existing) {
+      throw new Error('Transfer not found');
+    }
+
+    await this.assertUnlocked(transferId);
+
+    const fromAssetId = input.fromAssetId || existing.fromAssetId;
+    const toAssetId = input.toAssetId || existing.toAssetId;
+    if (fromAssetId === toAssetId) {
+      throw new Error('Cannot transfer to the same asset');
+    }
+
+    const assets = await this.getAccessibleAssets(
+      userId,
+      organizationId,
+      [existing.fromAssetId, existing.toAssetId, fromAssetId, toAssetId]
+    );
+    const find = (id: string) => assets.find(a => a.id === id);
+    const [oldFrom, oldTo, fromAsset, toAsset] = [
+      find(existing.fromAssetId), find(existing.toAssetId), find(fromAssetId), find(toAssetId)
+    ];
+    if (!oldFrom || !oldTo || !fromAsset || !toAsset) {
+      return null;
+    }
+
+    const sentAmount = input.sentAmount ?? existing.sentAmount.toNumber();
+    const receivedAmount = input.receivedAmount ?? existing.receivedAmount.toNumber();
+    const fee = input.fee ?? (existing.fee ? existing.fee.toNumber() : 0);
+    const date = input.date || existing.date;
+    const description = input.description ?? existing.description ?? undefined;
+    const legDescription = description || `Transfer from ${fromAsset.name} to ${toAsset.name}`;
+
+    const outgoing = existing.transactions.find(t => t.assetId === existing.fromAssetId);
+    const incoming = existing.transactions.find(t => t.assetId === existing.toAssetId);
+
+    const transfer = await this.prisma.$transaction(async (tx) => {
+      // Take the old transfer back out of both balances
+      await this.adjustBalance(tx, oldFrom, existing.sentAmount.toNumber() + (existing.fee ? existing.fee.toNumber() : 0));
+      await this.adjustBalance(tx, oldTo, -existing.receivedAmount.toNumber());
+
+      // Rewrite the legs in place so their IDs stay stable, recreating any that were removed
+      await tx.transaction.deleteMany({
+        where: {
+          transferId,
+          id: { notIn: [outgoing?.id, incoming?.id].filter((id): id is string => !!id) }
+        }
+      });
+      const legs = [
+        { leg: outgoing, asset: fromAsset, amount: sentAmount + fee },
+        { leg: incoming, asset: toAsset, amount: receivedAmount }
+      ];
+      for (const { leg, asset, amount } of legs) {
+        const data = this.legData(asset, amount, date, legDescription, userId, organizationId);
+        if (leg) {
+          await tx.transaction.update({ where: { id: leg.id }, data });
+        } else {
+          await tx.transaction.create({ data: { ...data, transferId } });
+        }
+      }
+
+      const updated = await tx.transfer.update({
+        where: { id: transferId },
+        data: {
+          fromAssetId: fromAsset.id,
+          toAssetId: toAsset.id,
+          sentAmount: new Prisma.Decimal(sentAmount),
+          sentCurrency: fromAsset.currency,
+          receivedAmount: new Prisma.Decimal(receivedAmount),
+          receivedCurrency: toAsset.currency,
+          fee: fee ? new Prisma.Decimal(fee) : null,
+          date,
+          description
+        },
+        include: { transactions: true }
+      });
+
+      await this.adjustBalance(tx, fromAsset, -(sentAmount + fee));
+      await this.adjustBalance(tx, toAsset, receivedAmount);
+
+      return updated;
+    });
+
+    await this.syncLedgers([oldFrom.id, oldTo.id, fromAsset.id, toAsset.id]);
+    return transfer;
+  }
+
+  /**
+   * Delete a transfer with both legs and move the money back
+   */
+  async deleteTransfer(
+    transferId: string,
+    userId: string,
+    organizationId: string
+  ): Promise<void> {
+    const transfer = await this.prisma.transfer.findFirst({
+      where: { id: transferId, userId, organizationId },
+      include: { fromAsset: true, toAsset: true }
+    });
+
+    if (!transfer) {
+      throw new Error('Transfer not found');
+    }
+
+    await this.assertUnlocked(transferId);
+
+    const outlay = transfer.sentAmount.toNumber() + (transfer.fee ? transfer.fee.toNumber() : 0);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.transaction.deleteMany({ where: { transferId } });
+      await tx.transfer.delete({ where: { id: transferId } });
+      await this.adjustBalance(tx, transfer.fromAsset, outlay);
+      await this.adjustBalance(tx, transfer.toAsset, -transfer.receivedAmount.toNumber());
+    });
+
+    await this.syncLedgers([transfer.fromAssetId, transfer.toAssetId]);
+  }
+
+  /**
+   * List transfers the user can see, newest first
+   */
+  async getTransfers(
+    userId: string,
+    organizationId: string,
+    range: { from?: Date; to?: Date } = {}
+  ): Promise<Transfer[]> {
+    return this.prisma.transfer.findMany({
+      where: {
+        ...this.accessFilter(userId, organizationId),
+        ...this.dateFilter(range)
+      },
+      include: {
+        fromAsset: { select: { id: true, name: true, country: true } },
+        toAsset: { select: { id: true, name: true, country: true } }
+      },
+      orderBy: { date: 'desc' }
+    });
+  }
+
+  /**
+   * Compare each cross-currency transfer's effective rate with the market
+   * rate on the transfer date to show what it really cost in fees and spread
+   *
+   * @param currency - Reporting currency for the totals (e.g., "AUD")
+   */
+  async getFxReport(
+    userId: string,
+    organizationId: string,
+    options: { from?: Date; to?: Date; currency: string }
+  ): Promise<FxReport> {
+    const to = endOfDay(options.to || new Date());
+    const from = startOfDay(options.from || subMonths(to, 12));
+    const { currency } = options;
+
+    const transfers = await this.prisma.transfer.findMany({
+      where: {
+        ...this.accessFilter(userId, organizationId),
+        date: { gte: from, lte: to }
+      },
+      orderBy: { date: 'asc' }
+    });
+
+    const costs: TransferCost[] = [];
+    for (const transfer of transfers) {
+      if (transfer.sentCurrency === transfer.receivedCurrency) {
+        continue;
+      }
+      costs.push(await this.calculateCost(transfer, currency));
+    }
+
+    const sum = (pick: (c: TransferCost) => number) => costs.reduce((total, c) => total + pick(c), 0);
+
+    return {
+      currency,
+      from,
+      to,
+      transfers: costs,
+      totals: {
+        count: costs.length,
+        sentInReportingCurrency: sum(c => c.sentInReportingCurrency),
+        feesInReportingCurrency: sum(c => c.feeInReportingCurrency),
+        costInReportingCurrency: sum(c => c.costInReportingCurrency),
+        averageSpreadPercent: costs.length > 0
+          ? sum(c => c.spreadPercent) / costs.length
+          : 0
+      }
+    };
+  }
+
+  private async calculateCost(transfer: Transfer, currency: string): Promise<TransferCost> {
+    const sent = transfer.sentAmount.toNumber();
+    const received = transfer.receivedAmount.toNumber();
+    const fee = transfer.fee ? transfer.fee.toNumber() : 0;
+
+    const rateOptions = { date: transfer.date, organizationId: transfer.organizationId };
+    const quote = await exchangeRateService.getQuote(transfer.sentCurrency, transfer.receivedCurrency, rateOptions);
+    const { rate: reportingRate } = await exchangeRateService.getQuote(transfer.sentCurrency, currency, rateOptions);
+
+    // What the full outlay would have bought at market, less what arrived,
+    // expressed back in the sent currency
+    const effectiveRate = received / (sent + fee);
+    const cost = sent + fee - received / quote.rate;
+
+    return {
+      transferId: transfer.id,
+      date: format(transfer.date, 'yyyy-MM-dd'),
+      fromAssetId: transfer.fromAssetId,
+      toAssetId: transfer.toAssetId,
+      sent,
+      sentCurrency: transfer.sentCurrency,
+      received,
+      receivedCurrency: transfer.receivedCurrency,
+      fee,
+      effectiveRate,
+      marketRate: quote.rate,
+      rateProvider: quote.provider,
+      spreadPercent: (1 - effectiveRate / quote.rate) * 100,
+      cost,
+      sentInReportingCurrency: (sent + fee) * reportingRate,
+      feeInReportingCurrency: fee * reportingRate,
+      costInReportingCurrency: cost * reportingRate
+    };
+  }
+
+  private async getAccessibleAssets(userId: string, organizationId: string, assetIds: string[]): Promise<Asset[]> {
+    return this.prisma.asset.findMany({
+      where: {
+        id: { in: assetIds },
+        organizationId,
+        OR: [
+          { userId },
+          { family: { members: { some: { id: userId } } } }
+        ]
+      }
+    });
+  }
+
+  private legData(
+    asset: Asset,
+    amount: number,
+    date: Date,
+    description: string,
+    userId: string,
+    organizationId: string
+  ) {
+    return {
+      type: 'TRANSFER' as const,
+      category: 'Transfer',
+      amount: new Prisma.Decimal(amount),
+      currency: asset.currency,
+      description,
+      date,
+      assetId: asset.id,
+      userId,
+      organizationId
+    };
+  }
+
+  /**
+   * Move an asset's balance by a signed amount of money flowing in (+) or out (-)
+   */
+  private async adjustBalance(tx: Prisma.TransactionClient, asset: Asset, delta: number): Promise<void> {
+    // Debts hold the amount owed, so money flowing in pays them down
+    const change = asset.type === 'DEBT' ? -delta : delta;
+
+    await tx.asset.update({
+      where: { id: asset.id },
+      data: { amount: { increment: new Prisma.Decimal(change.toFixed(2)) } }
+    });
+  }
+
+  private async assertUnlocked(transferId: string): Promise<void> {
+    const locked = await this.prisma.transaction.count({
+      where: { transferId, reconciliation: { status: 'COMPLETED' } }
+    });
+
+    if (locked > 0) {
+      throw new Error('Transfer is locked by a completed statement reconciliation');
+    }
+  }
+
+  /**
+   * Re-derive balances of ledger-mode assets, which may exclude a transfer
+   * dated before their opening balance
+   */
+  private async syncLedgers(assetIds: string[]): Promise<void> {
+    for (const assetId of new Set(assetIds)) {
+      await this.ledgerService.syncBalance(assetId);
+    }
+  }
+
+  private accessFilter(userId: string, organizationId: string): Prisma.TransferWhereInput {
+    return {
+      organizationId,
+      OR: [
+        { userId },
+        { fromAsset: { family: { members: { some: { id: userId } } } } },
+        { toAsset: { family: { members: { some: { id: userId } } } } }
+      ]
+    };
+  }
+
+  private dateFilter(range: { from?: Date; to?: Date }): Prisma.TransferWhereInput {
+    if (!range.from && !range.to) {
+      return {};
+    }
+    return {
+      date: {
+        ...(range.from && { gte: startOfDay(range.from) }),
+        ...(range.to && { lte: endOfDay(range.to) })
+      }
+    };
+  }
+}